@@ -0,0 +1,18 @@
+// Entry point of injected.js: registers the OPFS handler in the isolated world
+import { handleOPFSRpc } from './opfs';
+import {
+  INJECTED_HANDLER_KEY,
+  OPFS_HANDLER_VERSION,
+  type InjectedHandler,
+} from '../shared/rpc/messages';
+
+const handler: InjectedHandler = {
+  version: OPFS_HANDLER_VERSION,
+  handle: handleOPFSRpc,
+};
+
+// Read-only, but configurable so a newer version can replace it after an update
+Object.defineProperty(globalThis, INJECTED_HANDLER_KEY, {
+  value: Object.freeze(handler),
+  configurable: true,
+});
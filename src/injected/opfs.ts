@@ -1,19 +1,59 @@
-// This file contains the OPFS operations that will be injected into the page context
-// All functions must be self-contained and return JSON-serializable values
+// OPFS operations that run inside the inspected page
+// Bundled into injected.js by the build, all results must be JSON-serializable
 
+import { uint8ArrayToBase64, base64ToArrayBuffer } from '../shared/utils/base64';
+import { matchesGlob } from '../shared/utils/glob';
+import { Sha256, toHex } from '../shared/utils/sha256';
+import {
+  WATCH_POLL_INTERVAL,
+  type RPCStreamMessage,
+  type WatchEventMessage,
+} from '../shared/rpc/messages';
 import type {
+  FileKind,
   FSEntry,
   FSStats,
   StorageEstimate,
   IsAvailableResult,
   ReadTextResult,
   ReadBase64Result,
+  ReadRangeResult,
+  WriteRangeParams,
+  WriteRangeResult,
   RPCCommand,
+  RPCErrorCode,
+  RPCProgress,
   RPCResponse,
+  RPCErrorResponse,
+  BatchParams,
+  BatchResult,
+  BucketDurability,
+  BucketInfo,
+  BucketOpenParams,
+  WatchChange,
+  WatchChangeType,
+  WatchResult,
+  DiskUsage,
+  HashResult,
+  GzipResult,
+  ListPageParams,
+  ListPage,
+  StatManyResult,
+  SearchParams,
+  SearchMatch,
+  SearchSummary,
 } from '../shared/types';
 
 type OPFSParams = Record<string, unknown>;
 
+// State of a running command
+interface OperationState {
+  progress: RPCProgress;
+  cancelled: boolean;
+  // Set when the caller can receive streamed results
+  requestId?: string;
+}
+
 // Helper to get MIME type from filename
 function getMimeType(filename: string): string {
   const ext = filename.split('.').pop()?.toLowerCase() || '';
@@ -55,6 +95,19 @@ function getMimeType(filename: string): string {
   return mimeTypes[ext] || 'application/octet-stream';
 }
 
+// Handle methods reject names containing "/" or equal to "." / ".." with a TypeError. Only
+// those mean INVALID_NAME, other TypeErrors keep the generic code
+async function checkName<T>(name: string, request: Promise<T>): Promise<T> {
+  try {
+    return await request;
+  } catch (e) {
+    if (e instanceof TypeError) {
+      throw fsError('INVALID_NAME', `"${name}" is not a valid name`);
+    }
+    throw e;
+  }
+}
+
 // Helper to navigate to a path and get the handle
 async function getHandleAtPath(
   root: FileSystemDirectoryHandle,
@@ -70,20 +123,26 @@ async function getHandleAtPath(
   let current: FileSystemDirectoryHandle = root;
 
   for (let i = 0; i < parts.length - 1; i++) {
-    current = await current.getDirectoryHandle(parts[i], { create: options?.create });
+    current = await checkName(
+      parts[i],
+      current.getDirectoryHandle(parts[i], { create: options?.create })
+    );
   }
 
   const lastName = parts[parts.length - 1];
 
   if (options?.isFile) {
-    return await current.getFileHandle(lastName, { create: options?.create });
+    return await checkName(lastName, current.getFileHandle(lastName, { create: options?.create }));
   }
 
   // Try as directory first, then file
   try {
-    return await current.getDirectoryHandle(lastName, { create: options?.create });
+    return await checkName(
+      lastName,
+      current.getDirectoryHandle(lastName, { create: options?.create })
+    );
   } catch {
-    return await current.getFileHandle(lastName, { create: false });
+    return await checkName(lastName, current.getFileHandle(lastName, { create: false }));
   }
 }
 
@@ -100,7 +159,7 @@ async function getDirectoryHandle(
   let current = root;
 
   for (const part of parts) {
-    current = await current.getDirectoryHandle(part, { create });
+    current = await checkName(part, current.getDirectoryHandle(part, { create }));
   }
 
   return current;
@@ -120,10 +179,53 @@ async function getFileHandle(
   let current: FileSystemDirectoryHandle = root;
 
   for (let i = 0; i < parts.length - 1; i++) {
-    current = await current.getDirectoryHandle(parts[i], { create });
+    current = await checkName(parts[i], current.getDirectoryHandle(parts[i], { create }));
+  }
+
+  const name = parts[parts.length - 1];
+  return await checkName(name, current.getFileHandle(name, { create }));
+}
+
+// Running operations, polled by the background via op.progress / op.cancel
+const operations: Record<string, OperationState> = {};
+
+function throwIfCancelled(operation?: OperationState): void {
+  if (operation?.cancelled) {
+    throw new DOMException('Operation cancelled', 'AbortError');
   }
+}
 
-  return await current.getFileHandle(parts[parts.length - 1], { create });
+function fsError(code: RPCErrorCode, message: string): Error {
+  const error = new Error(message) as Error & { code: RPCErrorCode };
+  error.code = code;
+  return error;
+}
+
+function getErrorCode(error: Error): RPCErrorCode {
+  // Errors raised by fsError carry their own code (DOMException.code is a legacy number)
+  const { code } = error as Error & { code?: unknown };
+  if (typeof code === 'string') {
+    return code as RPCErrorCode;
+  }
+
+  switch (error.name) {
+    case 'NotFoundError':
+      return 'ENOENT';
+    case 'TypeMismatchError':
+      return 'ENOTDIR';
+    case 'NoModificationAllowedError':
+      return 'LOCKED';
+    case 'QuotaExceededError':
+      return 'QUOTA_EXCEEDED';
+    case 'InvalidModificationError':
+      return 'INVALID_MODIFICATION';
+    case 'NotAllowedError':
+      return 'NOT_ALLOWED';
+    case 'AbortError':
+      return 'CANCELLED';
+    default:
+      return 'UNKNOWN_ERROR';
+  }
 }
 
 function getParentPath(path: string): string {
@@ -137,6 +239,86 @@ function getBasename(path: string): string {
   return parts[parts.length - 1] || '';
 }
 
+// Storage Buckets API is not in the TypeScript DOM lib yet
+interface StorageBucket {
+  name: string;
+  persisted(): Promise<boolean>;
+  durability(): Promise<BucketDurability>;
+  estimate(): Promise<{ usage?: number; quota?: number }>;
+  expires(): Promise<number | null>;
+  getDirectory(): Promise<FileSystemDirectoryHandle>;
+}
+
+interface StorageBucketManager {
+  open(name: string, options?: Omit<BucketOpenParams, 'name'>): Promise<StorageBucket>;
+  keys(): Promise<string[]>;
+  delete(name: string): Promise<void>;
+}
+
+function getBucketManager(): StorageBucketManager {
+  const manager = (navigator as Navigator & { storageBuckets?: StorageBucketManager })
+    .storageBuckets;
+  if (!manager) {
+    throw fsError('NOT_SUPPORTED', 'Storage Buckets are not supported in this browser');
+  }
+  return manager;
+}
+
+// open() creates missing buckets, so check first to avoid doing that as a side effect
+async function getBucket(name: string): Promise<StorageBucket> {
+  const manager = getBucketManager();
+  if (!(await manager.keys()).includes(name)) {
+    throw fsError('ENOENT', `Bucket "${name}" does not exist`);
+  }
+  return await manager.open(name);
+}
+
+// Root directory of a bucket, or the default OPFS root
+async function getRoot(bucket?: string): Promise<FileSystemDirectoryHandle> {
+  if (!bucket) {
+    return await navigator.storage.getDirectory();
+  }
+  return await (await getBucket(bucket)).getDirectory();
+}
+
+async function getBucketInfo(bucket: StorageBucket): Promise<BucketInfo> {
+  const [persisted, durability, est, expires] = await Promise.all([
+    bucket.persisted(),
+    bucket.durability(),
+    bucket.estimate(),
+    bucket.expires(),
+  ]);
+
+  return {
+    name: bucket.name,
+    persisted,
+    durability,
+    usage: est.usage || 0,
+    quota: est.quota || 0,
+    expires,
+  };
+}
+
+async function listBuckets(): Promise<BucketInfo[]> {
+  if (!('storageBuckets' in navigator)) {
+    return [];
+  }
+
+  const manager = getBucketManager();
+  const names = (await manager.keys()).sort();
+  const buckets = await Promise.all(names.map((name) => manager.open(name)));
+  return await Promise.all(buckets.map(getBucketInfo));
+}
+
+async function openBucket({ name, ...options }: BucketOpenParams): Promise<BucketInfo> {
+  return await getBucketInfo(await checkName(name, getBucketManager().open(name, options)));
+}
+
+async function deleteBucket(name: string): Promise<void> {
+  await getBucket(name);
+  await getBucketManager().delete(name);
+}
+
 // OPFS Operations
 async function isAvailable(): Promise<IsAvailableResult> {
   if (!('storage' in navigator)) {
@@ -156,21 +338,50 @@ async function isAvailable(): Promise<IsAvailableResult> {
   }
 }
 
-async function estimate(): Promise<StorageEstimate> {
-  const est = await navigator.storage.estimate();
+async function estimate(bucket?: string): Promise<StorageEstimate> {
+  const est = bucket
+    ? await (await getBucket(bucket)).estimate()
+    : await navigator.storage.estimate();
   return {
     usage: est.usage || 0,
     quota: est.quota || 0,
   };
 }
 
+async function toEntry(
+  name: string,
+  handle: FileSystemHandle,
+  entryPath: string,
+  namesOnly: boolean
+): Promise<FSEntry> {
+  const entry: FSEntry = {
+    name,
+    path: entryPath,
+    kind: handle.kind,
+  };
+
+  if (handle.kind === 'file' && !namesOnly) {
+    try {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      entry.size = file.size;
+      entry.lastModified = file.lastModified;
+      entry.mimeType = getMimeType(name);
+    } catch {
+      // File may be locked
+    }
+  }
+
+  return entry;
+}
+
 async function list(
+  root: FileSystemDirectoryHandle,
   path: string,
   depth = 1,
   includeFiles = true,
-  includeDirs = true
+  includeDirs = true,
+  namesOnly = false
 ): Promise<FSEntry[]> {
-  const root = await navigator.storage.getDirectory();
   const dir = await getDirectoryHandle(root, path);
   const entries: FSEntry[] = [];
 
@@ -181,23 +392,9 @@ async function list(
     if (kind === 'file' && !includeFiles) continue;
     if (kind === 'directory' && !includeDirs) continue;
 
-    const entry: FSEntry = {
-      name,
-      path: entryPath,
-      kind,
-    };
-
-    if (kind === 'file') {
-      try {
-        const file = await (handle as FileSystemFileHandle).getFile();
-        entry.size = file.size;
-        entry.lastModified = file.lastModified;
-        entry.mimeType = getMimeType(name);
-      } catch {
-        // File may be locked
-      }
-    } else if (kind === 'directory' && depth > 1) {
-      entry.children = await list(entryPath, depth - 1, includeFiles, includeDirs);
+    const entry = await toEntry(name, handle, entryPath, namesOnly);
+    if (kind === 'directory' && depth > 1) {
+      entry.children = await list(root, entryPath, depth - 1, includeFiles, includeDirs, namesOnly);
     }
 
     entries.push(entry);
@@ -206,8 +403,100 @@ async function list(
   return entries;
 }
 
-async function stat(path: string): Promise<FSStats> {
-  const root = await navigator.storage.getDirectory();
+// Directory iterators of paged fs.list calls, kept open for the next page
+interface ListCursor {
+  // Bucket and path the iterator belongs to
+  scope: string;
+  // Entries read from the iterator so far
+  offset: number;
+  iterator: AsyncIterator<[string, FileSystemHandle]>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const listCursors: Record<string, ListCursor> = {};
+let listCursorCount = 0;
+
+// Iterators nobody continues within this time are dropped
+const LIST_CURSOR_TTL = 60 * 1000;
+
+/**
+ * One page of a directory listing
+ * The cursor token is "<id>:<offset>": while the iterator is open the next page continues it,
+ * otherwise (expired, or the page reloaded) the directory is read again and offset entries skipped
+ */
+async function listPage(
+  root: FileSystemDirectoryHandle,
+  params: ListPageParams
+): Promise<ListPage> {
+  const {
+    path,
+    limit,
+    cursor,
+    includeFiles = true,
+    includeDirs = true,
+    namesOnly = false,
+  } = params;
+  const scope = `${params.bucket ?? ''}:${path}`;
+
+  let offset = 0;
+  let iterator: AsyncIterator<[string, FileSystemHandle]> | undefined;
+
+  if (cursor) {
+    const separator = cursor.lastIndexOf(':');
+    const id = cursor.slice(0, separator);
+    offset = Number(cursor.slice(separator + 1)) || 0;
+
+    const open = listCursors[id];
+    if (open) {
+      clearTimeout(open.timer);
+      delete listCursors[id];
+      if (open.scope === scope && open.offset === offset) {
+        iterator = open.iterator;
+      }
+    }
+  }
+
+  if (!iterator) {
+    iterator = (await getDirectoryHandle(root, path)).entries();
+    for (let skipped = 0; skipped < offset; skipped++) {
+      if ((await iterator.next()).done) break;
+    }
+  }
+
+  const entries: FSEntry[] = [];
+  let done = false;
+
+  while (entries.length < limit) {
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      break;
+    }
+    offset++;
+
+    const [name, handle] = next.value;
+    if (handle.kind === 'file' && !includeFiles) continue;
+    if (handle.kind === 'directory' && !includeDirs) continue;
+
+    const entryPath = path === '/' ? `/${name}` : `${path}/${name}`;
+    entries.push(await toEntry(name, handle, entryPath, namesOnly));
+  }
+
+  if (done) {
+    return { entries, cursor: null };
+  }
+
+  const id = `list-${++listCursorCount}`;
+  listCursors[id] = {
+    scope,
+    offset,
+    iterator,
+    timer: setTimeout(() => delete listCursors[id], LIST_CURSOR_TTL),
+  };
+  return { entries, cursor: `${id}:${offset}` };
+}
+
+async function stat(root: FileSystemDirectoryHandle, path: string): Promise<FSStats> {
   const handle = await getHandleAtPath(root, path);
 
   if (handle.kind === 'directory') {
@@ -227,8 +516,35 @@ async function stat(path: string): Promise<FSStats> {
   };
 }
 
-async function readText(path: string, maxBytes?: number): Promise<ReadTextResult> {
-  const root = await navigator.storage.getDirectory();
+// Entries stat'ed at the same time by fs.statMany
+const STAT_CONCURRENCY = 16;
+
+async function statMany(
+  root: FileSystemDirectoryHandle,
+  paths: string[],
+  operation?: OperationState
+): Promise<StatManyResult> {
+  const stats: (FSStats | null)[] = [];
+
+  for (let i = 0; i < paths.length; i += STAT_CONCURRENCY) {
+    throwIfCancelled(operation);
+    const chunk = await Promise.all(
+      paths.slice(i, i + STAT_CONCURRENCY).map((path) => stat(root, path).catch(() => null))
+    );
+    stats.push(...chunk);
+    if (operation) {
+      operation.progress.filesProcessed += chunk.length;
+    }
+  }
+
+  return { stats };
+}
+
+async function readText(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  maxBytes?: number
+): Promise<ReadTextResult> {
   const handle = await getFileHandle(root, path);
   const file = await handle.getFile();
 
@@ -241,16 +557,22 @@ async function readText(path: string, maxBytes?: number): Promise<ReadTextResult
   return { text, truncated };
 }
 
-async function writeText(path: string, text: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function writeText(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  text: string
+): Promise<void> {
   const handle = await getFileHandle(root, path, true);
   const writable = await handle.createWritable();
   await writable.write(text);
   await writable.close();
 }
 
-async function readBase64(path: string, maxBytes?: number): Promise<ReadBase64Result> {
-  const root = await navigator.storage.getDirectory();
+async function readBase64(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  maxBytes?: number
+): Promise<ReadBase64Result> {
   const handle = await getFileHandle(root, path);
   const file = await handle.getFile();
 
@@ -260,59 +582,174 @@ async function readBase64(path: string, maxBytes?: number): Promise<ReadBase64Re
   const blob = truncated ? file.slice(0, max) : file;
   const buffer = await blob.arrayBuffer();
 
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.length; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  const base64 = btoa(binary);
-
   return {
-    base64,
+    base64: uint8ArrayToBase64(new Uint8Array(buffer)),
     mimeType: getMimeType(file.name),
     truncated,
   };
 }
 
-async function writeBase64(path: string, base64: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function writeBase64(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  base64: string
+): Promise<void> {
   const handle = await getFileHandle(root, path, true);
-
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
+  const data = base64ToArrayBuffer(base64);
 
   const writable = await handle.createWritable();
-  await writable.write(bytes);
+  await writable.write(data);
   await writable.close();
 }
 
-async function mkdir(path: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function readRange(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  offset: number,
+  length: number
+): Promise<ReadRangeResult> {
+  const handle = await getFileHandle(root, path);
+  const file = await handle.getFile();
+
+  const start = Math.min(Math.max(offset, 0), file.size);
+  const end = Math.min(start + Math.max(length, 0), file.size);
+  const buffer = await file.slice(start, end).arrayBuffer();
+
+  return {
+    base64: uint8ArrayToBase64(new Uint8Array(buffer)),
+    offset: start,
+    bytesRead: end - start,
+    size: file.size,
+    eof: end >= file.size,
+  };
+}
+
+// Writables of chunked fs.writeRange calls, kept open until the last chunk
+interface WriteSession {
+  // Bucket and path the writable belongs to
+  scope: string;
+  writable: FileSystemWritableFileStream;
+  // Size of the file once the writable is closed
+  size: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const writeSessions: Record<string, WriteSession> = {};
+let writeSessionCount = 0;
+
+// Writables nobody continues within this time are aborted, the file keeps its old content
+const WRITE_SESSION_TTL = 60 * 1000;
+
+function expireWriteSession(id: string): void {
+  const session = writeSessions[id];
+  if (!session) return;
+  delete writeSessions[id];
+  session.writable.abort().catch(() => {
+    // Already closed
+  });
+}
+
+/**
+ * Write one chunk of a file
+ * Opening a writable copies the file, so chunks of one file share a writable through a session:
+ * the first chunk passes keepOpen and gets a session id, the last one leaves keepOpen out and
+ * commits the file
+ */
+async function writeRange(
+  root: FileSystemDirectoryHandle,
+  params: WriteRangeParams
+): Promise<WriteRangeResult> {
+  const { path, offset, base64, truncate = false, keepOpen = false } = params;
+  const scope = `${params.bucket ?? ''}:${path}`;
+  const data = base64ToArrayBuffer(base64);
+
+  let writable: FileSystemWritableFileStream;
+  let size: number;
+  if (params.session) {
+    const open = writeSessions[params.session];
+    if (!open || open.scope !== scope) {
+      throw fsError('ENOENT', 'The write session expired, write the file again');
+    }
+    clearTimeout(open.timer);
+    delete writeSessions[params.session];
+    ({ writable, size } = open);
+  } else {
+    const handle = await getFileHandle(root, path, true);
+    // Keep the existing data so chunks can be written independently
+    writable = await handle.createWritable({ keepExistingData: true });
+    size = (await handle.getFile()).size;
+  }
+
+  try {
+    await writable.write({ type: 'write', position: offset, data });
+    const end = offset + data.byteLength;
+    if (truncate) {
+      await writable.truncate(end);
+    }
+    size = truncate ? end : Math.max(size, end);
+
+    if (!keepOpen) {
+      await writable.close();
+      return { bytesWritten: data.byteLength, size };
+    }
+  } catch (e) {
+    await writable.abort().catch(() => {
+      // Already errored
+    });
+    throw e;
+  }
+
+  const id = params.session ?? `write-${++writeSessionCount}`;
+  writeSessions[id] = {
+    scope,
+    writable,
+    size,
+    timer: setTimeout(() => expireWriteSession(id), WRITE_SESSION_TTL),
+  };
+  return { bytesWritten: data.byteLength, size, session: id };
+}
+
+async function mkdir(root: FileSystemDirectoryHandle, path: string): Promise<void> {
+  if (await entryExists(root, path)) {
+    throw fsError('EEXIST', `"${getBasename(path)}" already exists`);
+  }
   await getDirectoryHandle(root, path, true);
 }
 
-async function createFile(path: string): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function createFile(root: FileSystemDirectoryHandle, path: string): Promise<void> {
+  if (await entryExists(root, path)) {
+    throw fsError('EEXIST', `"${getBasename(path)}" already exists`);
+  }
   await getFileHandle(root, path, true);
 }
 
-async function deleteEntry(path: string, recursive = false): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function deleteEntry(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  recursive = false
+): Promise<void> {
   const parentPath = getParentPath(path);
   const name = getBasename(path);
 
   const parent = await getDirectoryHandle(root, parentPath);
-  await parent.removeEntry(name, { recursive });
+  await checkName(name, parent.removeEntry(name, { recursive }));
 }
 
-async function copyEntry(from: string, to: string, overwrite = false): Promise<void> {
-  const root = await navigator.storage.getDirectory();
+async function copyEntry(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  operation?: OperationState
+): Promise<void> {
+  throwIfCancelled(operation);
+
   const sourceHandle = await getHandleAtPath(root, from);
 
   if (sourceHandle.kind === 'file') {
+    if (operation) {
+      operation.progress.currentPath = from;
+    }
+
     const file = await (sourceHandle as FileSystemFileHandle).getFile();
     const content = await file.arrayBuffer();
 
@@ -320,145 +757,991 @@ async function copyEntry(from: string, to: string, overwrite = false): Promise<v
     const writable = await destHandle.createWritable();
     await writable.write(content);
     await writable.close();
+
+    if (operation) {
+      operation.progress.filesProcessed++;
+      operation.progress.bytesProcessed += file.size;
+    }
   } else {
     // Directory copy - recursive
-    await mkdir(to);
+    await getDirectoryHandle(root, to, true);
 
     const sourceDir = sourceHandle as FileSystemDirectoryHandle;
-    for await (const [name, handle] of sourceDir.entries()) {
-      const newFrom = `${from}/${name}`;
-      const newTo = `${to}/${name}`;
+    for await (const [name] of sourceDir.entries()) {
+      await copyEntry(root, `${from}/${name}`, `${to}/${name}`, operation);
+    }
+  }
+}
 
-      if (handle.kind === 'file') {
-        await copyEntry(newFrom, newTo, overwrite);
-      } else {
-        await copyEntry(newFrom, newTo, overwrite);
+async function diskUsage(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  operation?: OperationState
+): Promise<DiskUsage> {
+  const usage: DiskUsage = { size: 0, fileCount: 0, directoryCount: 0, lastModified: 0 };
+  await addDiskUsage(await getHandleAtPath(root, path), path, usage, operation);
+  return usage;
+}
+
+async function addDiskUsage(
+  handle: FileSystemHandle,
+  path: string,
+  usage: DiskUsage,
+  operation?: OperationState
+): Promise<void> {
+  throwIfCancelled(operation);
+
+  if (handle.kind === 'file') {
+    usage.fileCount++;
+    try {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      usage.size += file.size;
+      usage.lastModified = Math.max(usage.lastModified, file.lastModified);
+      if (operation) {
+        operation.progress.bytesProcessed += file.size;
       }
+    } catch {
+      // File may be locked, count it without a size
+    }
+    if (operation) {
+      operation.progress.filesProcessed++;
+      operation.progress.currentPath = path;
+    }
+    return;
+  }
+
+  for await (const [name, child] of (handle as FileSystemDirectoryHandle).entries()) {
+    if (child.kind === 'directory') {
+      usage.directoryCount++;
     }
+    await addDiskUsage(child, path === '/' ? `/${name}` : `${path}/${name}`, usage, operation);
   }
 }
 
-async function moveEntry(from: string, to: string, _overwrite = false): Promise<void> {
-  // Move is implemented as copy + delete since OPFS doesn't have native move
-  await copyEntry(from, to, _overwrite);
-  await deleteEntry(from, true);
+// Bytes read per step while hashing, files up to this size are digested natively in one go
+const HASH_CHUNK_SIZE = 8 * 1024 * 1024;
+
+async function hashFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  operation?: OperationState
+): Promise<HashResult> {
+  const handle = await getFileHandle(root, path);
+  const file = await handle.getFile();
+  if (operation) {
+    operation.progress.currentPath = path;
+  }
+
+  let sha256: string;
+  if (file.size <= HASH_CHUNK_SIZE) {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    sha256 = toHex(new Uint8Array(digest));
+    if (operation) {
+      operation.progress.bytesProcessed += file.size;
+    }
+  } else {
+    const hash = new Sha256();
+    for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+      throwIfCancelled(operation);
+      const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+      hash.update(new Uint8Array(chunk));
+      if (operation) {
+        operation.progress.bytesProcessed += chunk.byteLength;
+      }
+    }
+    sha256 = toHex(hash.digest());
+  }
+
+  if (operation) {
+    operation.progress.filesProcessed++;
+  }
+  return { sha256, size: file.size };
 }
 
-// Main RPC handler
-export async function handleOPFSRpc(command: RPCCommand, params: OPFSParams): Promise<RPCResponse> {
+// Compress or decompress a file into another one, removing the partial output if anything fails
+async function gzipFile(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  mode: 'gzip' | 'gunzip',
+  overwrite = false,
+  operation?: OperationState
+): Promise<GzipResult> {
+  const file = await (await getFileHandle(root, from)).getFile();
+  const target = await prepareDestination(root, from, to, overwrite, 'copy');
+  if (operation) {
+    operation.progress.currentPath = from;
+  }
+
+  // Progress counts the bytes read from the source
+  const counter = new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+    transform(chunk, controller) {
+      if (operation) {
+        operation.progress.bytesProcessed += chunk.byteLength;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+  const reader = file
+    .stream()
+    .pipeThrough(counter)
+    .pipeThrough(mode === 'gzip' ? new CompressionStream('gzip') : new DecompressionStream('gzip'))
+    .getReader();
+
+  const writable = await (await getFileHandle(root, target, true)).createWritable();
   try {
-    let result: unknown;
+    for (;;) {
+      throwIfCancelled(operation);
+      const { done, value } = await reader.read().catch((e: unknown) => {
+        // DecompressionStream errors the stream on corrupt or non-gzip input
+        throw mode === 'gunzip'
+          ? fsError('INVALID_DATA', `"${getBasename(from)}" is not valid gzip data`)
+          : e;
+      });
+      if (done) break;
+      await writable.write(value);
+    }
+    await writable.close();
+  } catch (e) {
+    await reader.cancel().catch(() => {
+      // Already errored
+    });
+    await writable.abort();
+    await deleteEntry(root, target).catch(() => {
+      // Nothing was written yet
+    });
+    throw e;
+  }
 
-    switch (command) {
-      case 'opfs.isAvailable':
-        result = await isAvailable();
-        break;
-      case 'opfs.estimate':
-        result = await estimate();
-        break;
-      case 'fs.list':
-        result = await list(
-          params.path as string,
-          (params.depth as number) || 1,
-          params.includeFiles !== false,
-          params.includeDirs !== false
-        );
-        break;
-      case 'fs.stat':
-        result = await stat(params.path as string);
-        break;
-      case 'fs.readText':
-        result = await readText(params.path as string, params.maxBytes as number | undefined);
-        break;
-      case 'fs.writeText':
-        await writeText(params.path as string, params.text as string);
-        result = null;
-        break;
-      case 'fs.readBase64':
-        result = await readBase64(params.path as string, params.maxBytes as number | undefined);
-        break;
-      case 'fs.writeBase64':
-        await writeBase64(params.path as string, params.base64 as string);
-        result = null;
-        break;
-      case 'fs.mkdir':
-        await mkdir(params.path as string);
-        result = null;
-        break;
-      case 'fs.createFile':
-        await createFile(params.path as string);
-        result = null;
-        break;
-      case 'fs.delete':
-        await deleteEntry(params.path as string, params.recursive as boolean);
-        result = null;
-        break;
-      case 'fs.copy':
-        await copyEntry(params.from as string, params.to as string, params.overwrite as boolean);
-        result = null;
-        break;
-      case 'fs.move':
-        await moveEntry(params.from as string, params.to as string, params.overwrite as boolean);
-        result = null;
-        break;
-      default:
-        return {
-          ok: false,
-          error: {
-            code: 'UNKNOWN_COMMAND',
-            message: `Unknown command: ${command}`,
-          },
-        };
+  if (target !== to) {
+    await swapInPlace(root, target, to, operation).catch(async (e: unknown) => {
+      await deleteEntry(root, target).catch(() => {
+        // Already gone
+      });
+      throw e;
+    });
+  }
+
+  if (operation) {
+    operation.progress.filesProcessed++;
+  }
+  return { size: (await (await getFileHandle(root, to)).getFile()).size };
+}
+
+// FileSystemHandle.move() is not in the TypeScript DOM lib yet
+type MovableHandle = FileSystemHandle & {
+  move?: (...args: [string] | [FileSystemDirectoryHandle, string]) => Promise<void>;
+};
+
+// Returns false when the browser can't move this handle natively
+async function nativeMove(
+  handle: FileSystemHandle,
+  from: string,
+  to: string,
+  root: FileSystemDirectoryHandle
+): Promise<boolean> {
+  const movable = handle as MovableHandle;
+  if (typeof movable.move !== 'function') {
+    return false;
+  }
+
+  const destName = getBasename(to);
+
+  try {
+    if (getParentPath(from) === getParentPath(to)) {
+      await movable.move(destName);
+    } else {
+      const destParent = await getDirectoryHandle(root, getParentPath(to));
+      await movable.move(destParent, destName);
+    }
+    return true;
+  } catch (e) {
+    // Older implementations only support moving files
+    // DOMException is not an Error subclass in every environment
+    if (e instanceof TypeError || (e instanceof DOMException && e.name === 'NotSupportedError')) {
+      return false;
     }
+    throw e;
+  }
+}
 
-    return { ok: true, data: result };
+async function entryExists(root: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+  try {
+    await getHandleAtPath(root, path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the destination of a copy, move or gzip and resolve to the path to write to
+ * An existing destination is only replaced once the new item is complete: the new item goes to
+ * a hidden sibling first and swapInPlace() puts it where it belongs
+ */
+async function prepareDestination(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  overwrite: boolean,
+  mode: 'copy' | 'move'
+): Promise<string> {
+  if (to.startsWith(`${from}/`) || (mode === 'move' && from === to)) {
+    throw fsError('INVALID_MODIFICATION', 'Cannot copy or move an item into itself');
+  }
+
+  // Copying an item onto itself is a name clash, resolved like any other
+  if (!(await entryExists(root, to))) {
+    return to;
+  }
+
+  if (!overwrite) {
+    throw fsError('EEXIST', `"${getBasename(to)}" already exists`);
+  }
+
+  const parent = getParentPath(to);
+  const tempName = `.${getBasename(to)}.${Date.now().toString(36)}.tmp`;
+  return parent === '/' ? `/${tempName}` : `${parent}/${tempName}`;
+}
+
+// Replace `to` with the complete item at `temp`
+async function swapInPlace(
+  root: FileSystemDirectoryHandle,
+  temp: string,
+  to: string,
+  operation?: OperationState
+): Promise<void> {
+  await deleteEntry(root, to, true);
+
+  const tempHandle = await getHandleAtPath(root, temp);
+  if (!(await nativeMove(tempHandle, temp, to, root))) {
+    await copyWithRollback(root, temp, to, operation);
+    await deleteEntry(root, temp, true);
+  }
+}
+
+// Copy, removing a partially written destination if anything fails
+async function copyWithRollback(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  operation?: OperationState
+): Promise<void> {
+  try {
+    await copyEntry(root, from, to, operation);
   } catch (e) {
-    const error = e instanceof Error ? e : new Error(String(e));
-    let code = 'UNKNOWN_ERROR';
+    await deleteEntry(root, to, true).catch(() => {
+      // Nothing was written yet
+    });
+    throw e;
+  }
+}
+
+async function copyOrMoveEntry(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  mode: 'copy' | 'move',
+  overwrite = false,
+  operation?: OperationState
+): Promise<void> {
+  throwIfCancelled(operation);
 
-    if (error.name === 'NotFoundError') {
-      code = 'NOT_FOUND';
-    } else if (error.name === 'NotAllowedError') {
-      code = 'NOT_ALLOWED';
-    } else if (error.name === 'InvalidModificationError') {
-      code = 'INVALID_MODIFICATION';
-    } else if (error.name === 'NoModificationAllowedError') {
-      code = 'LOCKED';
-    } else if (error.name === 'TypeMismatchError') {
-      code = 'TYPE_MISMATCH';
+  const sourceHandle = await getHandleAtPath(root, from);
+  const target = await prepareDestination(root, from, to, overwrite, mode);
+  if (from === to) {
+    // Replacing an item with itself
+    return;
+  }
+
+  // Handles that can't be moved natively are copied, the source is deleted at the end
+  const movedNatively = mode === 'move' && (await nativeMove(sourceHandle, from, target, root));
+  if (!movedNatively) {
+    await copyWithRollback(root, from, target, operation);
+  }
+
+  if (target !== to) {
+    try {
+      await swapInPlace(root, target, to, operation);
+    } catch (e) {
+      // Put a moved source back, or drop the new copy
+      if (movedNatively) {
+        await nativeMove(await getHandleAtPath(root, target), target, from, root).catch(() => {
+          // Left at the temporary name
+        });
+      } else {
+        await deleteEntry(root, target, true).catch(() => {
+          // Already gone
+        });
+      }
+      throw e;
     }
+  }
 
-    return {
-      ok: false,
-      error: {
-        code,
-        message: error.message,
-        details: error.stack,
-      },
-    };
+  if (mode === 'move' && !movedNatively) {
+    await deleteEntry(root, from, true);
+  }
+}
+
+// Send partial results of a running command to the panel that made the request
+async function streamData(operation: OperationState, data: unknown): Promise<void> {
+  if (!operation.requestId) return;
+
+  const message: RPCStreamMessage = {
+    type: 'OPFS_RPC_STREAM',
+    requestId: operation.requestId,
+    data,
+  };
+  try {
+    await chrome.runtime.sendMessage(message);
+  } catch {
+    // Panel closed or extension reloaded, nobody wants the rest
+    operation.cancelled = true;
+  }
+}
+
+const SEARCH_DEFAULTS = {
+  maxFileSize: 5 * 1024 * 1024,
+  contextLines: 1,
+  maxResults: 1000,
+};
+
+// Matches are sent in batches of this many, or whatever is found within the interval
+const SEARCH_FLUSH_SIZE = 50;
+const SEARCH_FLUSH_INTERVAL = 200;
+
+// Long lines (minified code) are cut down to a window around the first hit
+const SEARCH_MAX_LINE_LENGTH = 500;
+
+function createSearchPattern({ query, regex, caseSensitive }: SearchParams): RegExp {
+  if (!query) {
+    throw fsError('INVALID_PATTERN', 'Search query is empty');
+  }
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (e) {
+    throw fsError('INVALID_PATTERN', e instanceof Error ? e.message : String(e));
+  }
+}
+
+function clipLine(line: string, ranges: [number, number][]): Pick<SearchMatch, 'text' | 'ranges'> {
+  if (line.length <= SEARCH_MAX_LINE_LENGTH) {
+    return { text: line, ranges };
+  }
+  const start = Math.max(0, ranges[0][0] - 100);
+  const end = start + SEARCH_MAX_LINE_LENGTH;
+  return {
+    text: line.slice(start, end),
+    ranges: ranges
+      .filter(([from]) => from < end)
+      .map(([from, to]) => [from - start, Math.min(to, end) - start]),
+  };
+}
+
+function searchText(
+  text: string,
+  path: string,
+  pattern: RegExp,
+  contextLines: number,
+  limit: number
+): SearchMatch[] {
+  const lines = text.split(/\r?\n/);
+  const matches: SearchMatch[] = [];
+
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const ranges: [number, number][] = [];
+    for (const match of lines[i].matchAll(pattern)) {
+      // Zero-width hits (e.g. "^") would match every line
+      if (match[0].length > 0) {
+        ranges.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+      }
+    }
+    if (ranges.length === 0) continue;
+
+    matches.push({
+      path,
+      line: i + 1,
+      ...clipLine(lines[i], ranges),
+      before: lines
+        .slice(Math.max(0, i - contextLines), i)
+        .map((context) => context.slice(0, SEARCH_MAX_LINE_LENGTH)),
+      after: lines
+        .slice(i + 1, i + 1 + contextLines)
+        .map((context) => context.slice(0, SEARCH_MAX_LINE_LENGTH)),
+    });
+  }
+
+  return matches;
+}
+
+// Grep file contents below params.path, streaming matching lines as they are found
+async function search(
+  root: FileSystemDirectoryHandle,
+  params: SearchParams,
+  operation: OperationState
+): Promise<SearchSummary> {
+  const pattern = createSearchPattern(params);
+  const {
+    path,
+    include = [],
+    exclude = [],
+    maxFileSize = SEARCH_DEFAULTS.maxFileSize,
+    contextLines = SEARCH_DEFAULTS.contextLines,
+    maxResults = SEARCH_DEFAULTS.maxResults,
+  } = params;
+  const summary: SearchSummary = {
+    filesSearched: 0,
+    filesMatched: 0,
+    matchCount: 0,
+    truncated: false,
+  };
+
+  let pending: SearchMatch[] = [];
+  let lastFlush = Date.now();
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    lastFlush = Date.now();
+    await streamData(operation, batch);
+  };
+
+  const visit = async (dir: FileSystemDirectoryHandle, dirPath: string): Promise<void> => {
+    for await (const [name, handle] of dir.entries()) {
+      throwIfCancelled(operation);
+      if (summary.truncated) return;
+
+      const entryPath = dirPath === '/' ? `/${name}` : `${dirPath}/${name}`;
+      const relativePath = entryPath.slice(path === '/' ? 1 : path.length + 1);
+      if (exclude.length > 0 && matchesGlob(relativePath, exclude)) continue;
+
+      if (handle.kind === 'directory') {
+        await visit(handle as FileSystemDirectoryHandle, entryPath);
+        continue;
+      }
+      if (include.length > 0 && !matchesGlob(relativePath, include)) continue;
+
+      let file: File;
+      try {
+        file = await (handle as FileSystemFileHandle).getFile();
+      } catch {
+        // File may be locked
+        continue;
+      }
+      if (file.size > maxFileSize) continue;
+
+      operation.progress.currentPath = entryPath;
+      const text = await file.text();
+      summary.filesSearched++;
+      operation.progress.filesProcessed++;
+      operation.progress.bytesProcessed += file.size;
+
+      // Binary files are not worth showing line by line
+      if (text.includes('\0')) continue;
+
+      const matches = searchText(
+        text,
+        entryPath,
+        pattern,
+        contextLines,
+        maxResults - summary.matchCount
+      );
+      if (matches.length > 0) {
+        summary.filesMatched++;
+        summary.matchCount += matches.length;
+        pending.push(...matches);
+        summary.truncated = summary.matchCount >= maxResults;
+      }
+
+      if (pending.length >= SEARCH_FLUSH_SIZE || Date.now() - lastFlush >= SEARCH_FLUSH_INTERVAL) {
+        await flush();
+      }
+    }
+  };
+
+  await visit(await getDirectoryHandle(root, path), path);
+  await flush();
+  return summary;
+}
+
+// FileSystemObserver is not in the TypeScript DOM lib yet
+interface FileSystemChangeRecord {
+  // Relative to the observed directory
+  relativePathComponents: string[];
+  type: 'appeared' | 'disappeared' | 'modified' | 'moved' | 'unknown' | 'errored';
+}
+
+interface FileSystemObserver {
+  observe(handle: FileSystemHandle, options?: { recursive?: boolean }): Promise<void>;
+  disconnect(): void;
+}
+
+type FileSystemObserverConstructor = new (
+  callback: (records: FileSystemChangeRecord[]) => void
+) => FileSystemObserver;
+
+// watchId -> stops the watch
+const watches: Record<string, () => void> = {};
+let watchCount = 0;
+
+// What a watch remembers of a child of the watched directory
+interface WatchedChild {
+  kind: FileKind;
+  // "<size>:<lastModified>" of files, only kept when polling
+  stamp?: string;
+}
+
+async function getStamp(handle: FileSystemHandle): Promise<string | undefined> {
+  if (handle.kind !== 'file') return undefined;
+  try {
+    const file = await (handle as FileSystemFileHandle).getFile();
+    return `${file.size}:${file.lastModified}`;
+  } catch {
+    // File may be locked
+    return undefined;
+  }
+}
+
+/**
+ * Report changes to the children of a directory to the extension
+ * Each check lists names and kinds only. Files are stat'ed when they were added or changed:
+ * FileSystemObserver records say which ones changed, polling has to compare sizes and mtimes of
+ * all files. Events carry the metadata of added and modified entries, not the whole listing
+ */
+async function watch(root: FileSystemDirectoryHandle, path: string): Promise<WatchResult> {
+  const dir = await getDirectoryHandle(root, path);
+  const watchId = `watch-${Date.now()}-${++watchCount}`;
+  const childPath = (name: string) => (path === '/' ? `/${name}` : `${path}/${name}`);
+
+  let polling = true;
+  let snapshot = new Map<string, WatchedChild>();
+  // Until the first snapshot is taken, changes meanwhile are checked after it
+  let checking = true;
+  let pending = false;
+  // Names observer records reported as changed since the last check, null for all of them
+  let changedNames: Set<string> | null = new Set();
+  let stopSource = () => {};
+
+  const stop = () => {
+    if (!watches[watchId]) return;
+    delete watches[watchId];
+    stopSource();
+  };
+  watches[watchId] = stop;
+
+  const send = (changes: WatchChange[], entries: FSEntry[]) => {
+    const message: WatchEventMessage = { type: 'OPFS_WATCH_EVENT', watchId, changes, entries };
+    try {
+      chrome.runtime.sendMessage(message).catch(() => {
+        // Panel closed between the change and the message
+      });
+    } catch {
+      // Extension reloaded, nobody is listening anymore
+      stop();
+    }
+  };
+
+  const readChildren = async (
+    current: FileSystemDirectoryHandle
+  ): Promise<Map<string, [FileSystemHandle, WatchedChild]>> => {
+    const children = new Map<string, [FileSystemHandle, WatchedChild]>();
+    for await (const [name, handle] of current.entries()) {
+      const stamp = polling ? await getStamp(handle) : undefined;
+      children.set(name, [handle, { kind: handle.kind, stamp }]);
+    }
+    return children;
+  };
+
+  const compare = async () => {
+    let children: Map<string, [FileSystemHandle, WatchedChild]>;
+    try {
+      children = await readChildren(await getDirectoryHandle(root, path));
+    } catch {
+      // The watched directory itself is gone
+      send([{ type: 'removed', path, kind: 'directory' }], []);
+      stop();
+      return;
+    }
+
+    const reported = changedNames;
+    changedNames = new Set();
+    const changes: WatchChange[] = [];
+    const entries: FSEntry[] = [];
+
+    for (const [name, [handle, child]] of children) {
+      const entryPath = childPath(name);
+      const old = snapshot.get(entryPath);
+      let type: WatchChangeType;
+      if (!old) {
+        type = 'added';
+      } else if (
+        old.kind !== child.kind ||
+        old.stamp !== child.stamp ||
+        !reported ||
+        reported.has(name)
+      ) {
+        type = 'modified';
+      } else {
+        continue;
+      }
+
+      changes.push({ type, path: entryPath, kind: child.kind });
+      entries.push(await toEntry(name, handle, entryPath, false));
+    }
+
+    const next = new Map([...children].map(([name, [, child]]) => [childPath(name), child]));
+    for (const [entryPath, old] of snapshot) {
+      if (!next.has(entryPath)) {
+        changes.push({ type: 'removed', path: entryPath, kind: old.kind });
+      }
+    }
+    snapshot = next;
+
+    if (changes.length > 0 && watches[watchId]) {
+      send(changes, entries);
+    }
+  };
+
+  const check = async () => {
+    if (checking) {
+      pending = true;
+      return;
+    }
+    checking = true;
+
+    try {
+      do {
+        pending = false;
+        await compare();
+      } while (pending && watches[watchId]);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const Observer = (globalThis as { FileSystemObserver?: FileSystemObserverConstructor })
+    .FileSystemObserver;
+
+  if (Observer) {
+    try {
+      const observer = new Observer((records) => {
+        for (const record of records) {
+          const [name] = record.relativePathComponents;
+          if (record.type === 'unknown' || record.type === 'errored') {
+            // Events were dropped, anything may have changed
+            changedNames = null;
+          } else if (name) {
+            changedNames?.add(name);
+          }
+        }
+        void check();
+      });
+      await observer.observe(dir);
+      stopSource = () => observer.disconnect();
+      polling = false;
+    } catch {
+      // Observing OPFS handles is not supported everywhere, fall back to polling
+    }
+  }
+
+  snapshot = new Map(
+    [...(await readChildren(dir))].map(([name, [, child]]) => [childPath(name), child])
+  );
+  checking = false;
+  if (pending) void check();
+
+  if (polling) {
+    const timer = setInterval(() => void check(), WATCH_POLL_INTERVAL);
+    stopSource = () => clearInterval(timer);
+  }
+
+  // Unwatched while the observer was starting
+  if (!watches[watchId]) stopSource();
+
+  return { watchId, native: !polling };
+}
+
+function unwatch(watchId: string): boolean {
+  const stop = watches[watchId];
+  if (!stop) return false;
+  stop();
+  return true;
+}
+
+function getProgress(requestId: string): RPCProgress | null {
+  return operations[requestId]?.progress ?? null;
+}
+
+function cancelOperation(requestId: string): boolean {
+  const operation = operations[requestId];
+  if (!operation) return false;
+  operation.cancelled = true;
+  return true;
+}
+
+function toErrorResponse(e: unknown): RPCErrorResponse {
+  // DOMException is not an Error subclass in every environment
+  const error = e instanceof Error || e instanceof DOMException ? e : new Error(String(e));
+
+  return {
+    ok: false,
+    error: {
+      code: getErrorCode(error),
+      message: error.message,
+      details: error.stack,
+    },
+  };
+}
+
+async function runCommand(
+  command: RPCCommand,
+  params: OPFSParams,
+  operation: OperationState
+): Promise<unknown> {
+  let result: unknown;
+
+  switch (command) {
+    case 'opfs.isAvailable':
+      result = await isAvailable();
+      break;
+    case 'opfs.estimate':
+      result = await estimate(params.bucket as string | undefined);
+      break;
+    case 'fs.batch':
+      result = await runBatch(params as unknown as BatchParams, operation);
+      break;
+    case 'op.progress':
+      result = getProgress(params.requestId as string);
+      break;
+    case 'op.cancel':
+      result = cancelOperation(params.requestId as string);
+      break;
+    case 'fs.unwatch':
+      result = unwatch(params.watchId as string);
+      break;
+    case 'buckets.list':
+      result = await listBuckets();
+      break;
+    case 'buckets.open':
+      result = await openBucket(params as unknown as BucketOpenParams);
+      break;
+    case 'buckets.delete':
+      await deleteBucket(params.name as string);
+      result = null;
+      break;
+    default:
+      if (!command.startsWith('fs.')) {
+        throw fsError('UNKNOWN_COMMAND', `Unknown command: ${command}`);
+      }
+      result = await runFSCommand(
+        command,
+        params,
+        await getRoot(params.bucket as string | undefined),
+        operation
+      );
   }
+
+  return result;
 }
 
-// Export for use in injected script
-export const opfsScript = `
-${getMimeType.toString()}
-${getHandleAtPath.toString()}
-${getDirectoryHandle.toString()}
-${getFileHandle.toString()}
-${getParentPath.toString()}
-${getBasename.toString()}
-${isAvailable.toString()}
-${estimate.toString()}
-${list.toString()}
-${stat.toString()}
-${readText.toString()}
-${writeText.toString()}
-${readBase64.toString()}
-${writeBase64.toString()}
-${mkdir.toString()}
-${createFile.toString()}
-${deleteEntry.toString()}
-${copyEntry.toString()}
-${moveEntry.toString()}
-${handleOPFSRpc.toString()}
-`;
+async function runFSCommand(
+  command: RPCCommand,
+  params: OPFSParams,
+  root: FileSystemDirectoryHandle,
+  operation: OperationState
+): Promise<unknown> {
+  let result: unknown;
+
+  switch (command) {
+    case 'fs.list':
+      if (params.limit !== undefined) {
+        result = await listPage(root, params as unknown as ListPageParams);
+        break;
+      }
+      result = await list(
+        root,
+        params.path as string,
+        (params.depth as number) || 1,
+        params.includeFiles !== false,
+        params.includeDirs !== false,
+        params.namesOnly === true
+      );
+      break;
+    case 'fs.stat':
+      result = await stat(root, params.path as string);
+      break;
+    case 'fs.statMany':
+      result = await statMany(root, params.paths as string[], operation);
+      break;
+    case 'fs.readText':
+      result = await readText(root, params.path as string, params.maxBytes as number | undefined);
+      break;
+    case 'fs.writeText':
+      await writeText(root, params.path as string, params.text as string);
+      result = null;
+      break;
+    case 'fs.readBase64':
+      result = await readBase64(root, params.path as string, params.maxBytes as number | undefined);
+      break;
+    case 'fs.writeBase64':
+      await writeBase64(root, params.path as string, params.base64 as string);
+      result = null;
+      break;
+    case 'fs.readRange':
+      result = await readRange(
+        root,
+        params.path as string,
+        params.offset as number,
+        params.length as number
+      );
+      break;
+    case 'fs.writeRange':
+      result = await writeRange(root, params as unknown as WriteRangeParams);
+      break;
+    case 'fs.abortWrite':
+      result = Boolean(writeSessions[params.session as string]);
+      expireWriteSession(params.session as string);
+      break;
+    case 'fs.watch':
+      result = await watch(root, params.path as string);
+      break;
+    case 'fs.mkdir':
+      await mkdir(root, params.path as string);
+      result = null;
+      break;
+    case 'fs.createFile':
+      await createFile(root, params.path as string);
+      result = null;
+      break;
+    case 'fs.delete':
+      await deleteEntry(root, params.path as string, params.recursive as boolean);
+      result = null;
+      break;
+    case 'fs.copy':
+      await copyOrMoveEntry(
+        root,
+        params.from as string,
+        params.to as string,
+        'copy',
+        params.overwrite as boolean,
+        operation
+      );
+      result = null;
+      break;
+    case 'fs.move':
+      await copyOrMoveEntry(
+        root,
+        params.from as string,
+        params.to as string,
+        'move',
+        params.overwrite as boolean,
+        operation
+      );
+      result = null;
+      break;
+    case 'fs.du':
+      result = await diskUsage(root, params.path as string, operation);
+      break;
+    case 'fs.hash':
+      result = await hashFile(root, params.path as string, operation);
+      break;
+    case 'fs.gzip':
+    case 'fs.gunzip':
+      result = await gzipFile(
+        root,
+        params.from as string,
+        params.to as string,
+        command === 'fs.gzip' ? 'gzip' : 'gunzip',
+        params.overwrite as boolean,
+        operation
+      );
+      break;
+    case 'fs.search':
+      result = await search(root, params as unknown as SearchParams, operation);
+      break;
+    default:
+      throw fsError('UNKNOWN_COMMAND', `Unknown command: ${command}`);
+  }
+
+  return result;
+}
+
+// Guard against callers that bypass the BatchableCommand type
+const UNBATCHABLE_COMMANDS: RPCCommand[] = [
+  'fs.batch',
+  'fs.search',
+  'fs.watch',
+  'fs.unwatch',
+  'op.progress',
+  'op.cancel',
+  'tab.frames',
+  'buckets.list',
+  'buckets.open',
+  'buckets.delete',
+];
+
+// Run sub-commands in order under one operation, so progress and cancel cover the whole batch
+async function runBatch(
+  { operations: batch, stopOnError = false, bucket }: BatchParams,
+  operation: OperationState
+): Promise<BatchResult> {
+  const results: RPCResponse[] = [];
+
+  for (const { command, params } of batch) {
+    throwIfCancelled(operation);
+
+    if (UNBATCHABLE_COMMANDS.includes(command)) {
+      throw fsError('UNKNOWN_COMMAND', `${command} cannot run inside fs.batch`);
+    }
+
+    const before = operation.progress.filesProcessed;
+    operation.progress.currentPath = (params.path ?? params.from) as string | undefined;
+
+    try {
+      const data = await runCommand(command, { bucket, ...params }, operation);
+      results.push({ ok: true, data });
+    } catch (e) {
+      const response = toErrorResponse(e);
+      if (response.error.code === 'CANCELLED') {
+        throw e;
+      }
+      results.push(response);
+      if (stopOnError) break;
+    } finally {
+      // Count items whose command doesn't report its own progress
+      if (operation.progress.filesProcessed === before) {
+        operation.progress.filesProcessed++;
+      }
+    }
+  }
+
+  return { results };
+}
+
+// Main RPC handler
+export async function handleOPFSRpc(
+  command: RPCCommand,
+  params: OPFSParams,
+  requestId?: string
+): Promise<RPCResponse> {
+  const operation: OperationState = {
+    progress: { filesProcessed: 0, bytesProcessed: 0 },
+    cancelled: false,
+    requestId,
+  };
+  if (requestId) {
+    operations[requestId] = operation;
+  }
+
+  try {
+    const result = await runCommand(command, params, operation);
+    return { ok: true, data: result };
+  } catch (e) {
+    return toErrorResponse(e);
+  } finally {
+    if (requestId) {
+      delete operations[requestId];
+    }
+  }
+}
@@ -9,8 +9,14 @@ import {
   FolderPlus,
   FilePlus,
   Download,
+  FileArchive,
+  Package,
+  PackageOpen,
   Link,
   Star,
+  FileCheck,
+  ShieldCheck,
+  FolderSync,
 } from 'lucide-react';
 import { SplitPane } from './components/SplitPane';
 import { Sidebar } from './components/Sidebar';
@@ -18,10 +24,20 @@ import { Toolbar } from './components/Toolbar';
 import { FileList, type FileListHandle } from './components/FileList';
 import { Preview } from './components/Preview';
 import { ToastProvider } from './components/Toast';
+import { OperationsTray } from './components/OperationsTray';
+import { FramePicker } from './components/FramePicker';
 import { ConfirmDialog, InputDialog, ConflictDialog } from './components/Dialog';
 import { ImageEditor } from './components/ImageEditor';
+import { StorageTreemap } from './components/StorageTreemap';
+import { ManifestReportDialog } from './components/ManifestReport';
+import { DuplicateFinder } from './components/DuplicateFinder';
+import { ArchiveBrowser } from './components/ArchiveBrowser';
+import { SyncDialog } from './components/SyncDialog';
 import { useFileSystemStore, usePersistedStore, useToastStore } from './store';
-import { opfsApi } from './utils/rpc';
+import { useDirectoryWatch, useContentSearch } from './hooks';
+import { opfsApi, isCancelledError, getRPCErrorCode, getBatchItemError } from './utils/rpc';
+import { startOperationTracker, type OperationTracker } from './utils/operations';
+import { getErrorMessage } from './utils/errors';
 import {
   join,
   basename,
@@ -30,17 +46,47 @@ import {
   isChildOf,
   flattenEntries,
 } from './utils/path';
-import { arrayBufferToBase64, createObjectUrlFromBase64 } from '../shared/utils/base64';
-import type { FSEntry, ConflictResolution } from '../shared/types';
+import { writeFiles } from './utils/transfer';
+import { getPickedItems, importItems, type UploadItem } from './utils/upload';
+import { createZipArchive, extractZipArchive, isBrowsableArchive } from './utils/archive';
+import { isGzipFile, getGzipTarget } from './utils/gzip';
+import { formatFileSize } from './utils/file';
+import { describeFilters } from './utils/filters';
+import {
+  MANIFEST_FILENAME,
+  generateManifest,
+  verifyManifest,
+  type ManifestReport,
+} from './utils/manifest';
+import { listEntriesPage, hydrateEntries } from './utils/listing';
+import { createObjectUrlFromBase64 } from '../shared/utils/base64';
+import { TOP_FRAME_ID } from '../shared/rpc/messages';
+import type {
+  FSEntry,
+  FileKind,
+  ConflictResolution,
+  BatchOperation,
+  GzipResult,
+} from '../shared/types';
 import styles from './App.module.css';
 
 function App() {
   const {
+    frames,
+    setFrames,
+    selectedFrameId,
+    setSelectedFrameId,
+    currentBucket,
+    setBuckets,
+    setCurrentBucket,
     currentPath,
     setCurrentPath,
     entries,
-    setEntries,
+    setDirectory,
+    cacheTree,
+    invalidateDirectories,
     selectedPaths,
+    setSelectedPaths,
     clearSelection,
     setLoading,
     setError,
@@ -50,13 +96,18 @@ function App() {
     clipboard,
     setClipboard,
     setPreviewPath,
+    setPreviewLine,
+    searchQuery,
     searchGlobal,
+    searchFilters,
+    searchContent,
     allEntries,
     setAllEntries,
+    clearDiskUsage,
     setLoadingGlobal,
   } = useFileSystemStore();
 
-  const { addFavorite, addRecent, theme } = usePersistedStore();
+  const { addFavorite, addRecent, addSmartFolder, theme } = usePersistedStore();
   const { addToast } = useToastStore();
 
   // Context menu state
@@ -67,6 +118,9 @@ function App() {
   const [showRenameDialog, setShowRenameDialog] = useState(false);
   const [showNewFolderDialog, setShowNewFolderDialog] = useState(false);
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
+  const [showNewBucketDialog, setShowNewBucketDialog] = useState(false);
+  const [bucketToDelete, setBucketToDelete] = useState<string | null>(null);
+  const [showSaveSmartFolderDialog, setShowSaveSmartFolderDialog] = useState(false);
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [conflictFilename, setConflictFilename] = useState('');
   const conflictResolverRef = useRef<((resolution: ConflictResolution) => void) | null>(null);
@@ -74,8 +128,25 @@ function App() {
   // Image editor state
   const [imageEditorPath, setImageEditorPath] = useState<string | null>(null);
 
+  // Storage map state
+  const [showStorageMap, setShowStorageMap] = useState(false);
+
+  // Duplicate finder state
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  // ZIP or tar open in the archive browser
+  const [archivePath, setArchivePath] = useState<string | null>(null);
+
+  // Local folder sync state
+  const [syncPath, setSyncPath] = useState<string | null>(null);
+
+  // Result of the last manifest verification
+  const [manifestReport, setManifestReport] = useState<ManifestReport | null>(null);
+
   // File input ref for import
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
 
   // FileList ref for focus management
   const fileListRef = useRef<FileListHandle>(null);
@@ -91,24 +162,115 @@ function App() {
     }
   }, [theme]);
 
-  // Check OPFS availability
-  useEffect(() => {
-    async function checkOPFS() {
-      try {
-        const result = await opfsApi.isAvailable();
-        setOPFSAvailable(result.available, result.reason);
+  const loadFrames = useCallback(async () => {
+    try {
+      const result = await opfsApi.listFrames();
+      setFrames(result);
 
-        if (result.available) {
-          const estimate = await opfsApi.estimate();
-          setStorageEstimate(estimate);
-          loadDirectory('/');
-        }
+      // The frame went away (navigation or removed iframe), fall back to the top frame
+      if (!result.some((f) => f.frameId === selectedFrameId)) {
+        setSelectedFrameId(TOP_FRAME_ID);
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Failed to list frames',
+        message: getErrorMessage(error),
+      });
+    }
+  }, [selectedFrameId, setFrames, setSelectedFrameId, addToast]);
+
+  const loadBuckets = useCallback(async () => {
+    try {
+      const result = await opfsApi.listBuckets();
+      setBuckets(result);
+
+      // Deleted elsewhere (another tab or the page itself)
+      if (currentBucket !== null && !result.some((b) => b.name === currentBucket)) {
+        setCurrentBucket(null);
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Failed to list storage buckets',
+        message: getErrorMessage(error),
+      });
+    }
+  }, [currentBucket, setBuckets, setCurrentBucket, addToast]);
+
+  // Save the current name query, scope and filters under a name in the sidebar
+  const handleSaveSmartFolder = useCallback(
+    (name: string) => {
+      addSmartFolder({
+        id: `smart-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        name,
+        query: searchQuery,
+        global: searchGlobal,
+        filters: searchFilters,
+      });
+      addToast({
+        type: 'success',
+        title: 'Smart folder saved',
+        message: name,
+      });
+    },
+    [searchQuery, searchGlobal, searchFilters, addSmartFolder, addToast]
+  );
+
+  const handleNewBucket = useCallback(
+    async (name: string) => {
+      try {
+        await opfsApi.openBucket({ name });
+        addToast({
+          type: 'success',
+          title: 'Bucket created',
+          message: name,
+        });
+        await loadBuckets();
+        setCurrentBucket(name);
       } catch (error) {
-        setOPFSAvailable(false, error instanceof Error ? error.message : 'Unknown error');
+        addToast({
+          type: 'error',
+          title: 'Failed to create bucket',
+          message: getErrorMessage(error),
+        });
       }
+    },
+    [loadBuckets, setCurrentBucket, addToast]
+  );
+
+  const confirmDeleteBucket = useCallback(async () => {
+    if (bucketToDelete === null) return;
+
+    try {
+      await opfsApi.deleteBucket({ name: bucketToDelete });
+      addToast({
+        type: 'success',
+        title: 'Bucket deleted',
+        message: bucketToDelete,
+      });
+      if (currentBucket === bucketToDelete) {
+        setCurrentBucket(null);
+      }
+      loadBuckets();
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Failed to delete bucket',
+        message: getErrorMessage(error),
+      });
     }
-    checkOPFS();
-  }, []);
+  }, [bucketToDelete, currentBucket, setCurrentBucket, loadBuckets, addToast]);
+
+  // Refresh the frame list on load and whenever the inspected page navigates
+  useEffect(() => {
+    loadFrames();
+
+    const onNavigated = chrome.devtools?.network?.onNavigated;
+    const handleNavigated = () => loadFrames();
+    onNavigated?.addListener(handleNavigated);
+    return () => onNavigated?.removeListener(handleNavigated);
+  }, [loadFrames]);
 
   const loadDirectory = useCallback(
     async (path: string) => {
@@ -116,11 +278,14 @@ function App() {
       setError(null);
 
       try {
-        const result = await opfsApi.list({ path, depth: 1 });
-        setEntries(result);
+        const page = await listEntriesPage(path);
+        setDirectory(path, page.entries, page.cursor);
         setCurrentPath(path);
         clearSelection();
         setPreviewPath(null);
+        hydrateEntries(page.entries).catch(() => {
+          // Rows stay without size and date
+        });
 
         // Update storage estimate
         const estimate = await opfsApi.estimate();
@@ -130,7 +295,7 @@ function App() {
         addToast({
           type: 'error',
           title: 'Failed to load directory',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setLoading(false);
@@ -139,7 +304,7 @@ function App() {
     [
       setLoading,
       setError,
-      setEntries,
+      setDirectory,
       setCurrentPath,
       clearSelection,
       setPreviewPath,
@@ -148,36 +313,109 @@ function App() {
     ]
   );
 
+  // Check OPFS availability of the selected frame and root
+  useEffect(() => {
+    // Paths copied or cached so far belong to the previous root
+    setClipboard(null);
+    setAllEntries([]);
+    clearDiskUsage();
+    setPreviewPath(null);
+
+    async function checkOPFS() {
+      try {
+        const result = await opfsApi.isAvailable();
+        setOPFSAvailable(result.available, result.reason);
+
+        if (result.available) {
+          const estimate = await opfsApi.estimate();
+          setStorageEstimate(estimate);
+          loadDirectory('/');
+          loadBuckets();
+        }
+      } catch (error) {
+        setOPFSAvailable(false, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    checkOPFS();
+  }, [
+    selectedFrameId,
+    currentBucket,
+    setClipboard,
+    setAllEntries,
+    clearDiskUsage,
+    setPreviewPath,
+    setOPFSAvailable,
+    setStorageEstimate,
+    loadDirectory,
+    loadBuckets,
+  ]);
+
   const handleRefresh = useCallback(() => {
+    // Any cached folder may have changed, the tree lists its open folders again
+    invalidateDirectories();
     loadDirectory(currentPath);
     // Clear global cache so it will be reloaded on next global search
     setAllEntries([]);
-  }, [currentPath, loadDirectory, setAllEntries]);
-
-  // Load all entries for global search
+    // Every mutation ends here, folder sizes may have changed anywhere
+    clearDiskUsage();
+  }, [currentPath, invalidateDirectories, loadDirectory, setAllEntries, clearDiskUsage]);
+
+  // Follow changes the page makes to the open folder
+  useDirectoryWatch((path) => {
+    addToast({ type: 'info', title: 'Folder was removed', message: path });
+    loadDirectory(dirname(path));
+  });
+
+  // Load all entries for global search, names first and metadata filled in behind
+  const globalScanRef = useRef<AbortController | null>(null);
   const loadAllEntries = useCallback(async () => {
+    globalScanRef.current?.abort();
+    const scan = new AbortController();
+    globalScanRef.current = scan;
+
     setLoadingGlobal(true);
     try {
-      const result = await opfsApi.list({ path: '/', depth: 999 });
+      const result = await opfsApi.list({ path: '/', depth: 999, namesOnly: true });
       const flattened = flattenEntries(result);
+      // Every folder is listed now, the tree opens them without asking again
+      cacheTree('/', result);
       setAllEntries(flattened);
+      setLoadingGlobal(false);
+      await hydrateEntries(flattened, scan.signal);
     } catch (error) {
-      addToast({
-        type: 'error',
-        title: 'Failed to load all files',
-        message: error instanceof Error ? error.message : String(error),
-      });
+      if (!scan.signal.aborted && !isCancelledError(error)) {
+        addToast({
+          type: 'error',
+          title: 'Failed to load all files',
+          message: getErrorMessage(error),
+        });
+      }
     } finally {
-      setLoadingGlobal(false);
+      if (globalScanRef.current === scan) {
+        globalScanRef.current = null;
+        setLoadingGlobal(false);
+      }
     }
-  }, [setAllEntries, setLoadingGlobal, addToast]);
+  }, [cacheTree, setAllEntries, setLoadingGlobal, addToast]);
 
-  // Load all entries when searchGlobal becomes true
+  // Load all entries when searchGlobal becomes true, content search lists files in the page
   useEffect(() => {
-    if (searchGlobal && allEntries.length === 0) {
+    if (searchGlobal && !searchContent && allEntries.length === 0) {
       loadAllEntries();
     }
-  }, [searchGlobal, allEntries.length, loadAllEntries]);
+  }, [searchGlobal, searchContent, allEntries.length, loadAllEntries]);
+
+  const { runSearch } = useContentSearch();
+
+  // Search results stay open, the file is only selected and shown in the preview
+  const handleOpenSearchMatch = useCallback(
+    (path: string, line: number) => {
+      setSelectedPaths(new Set([path]));
+      setPreviewPath(path);
+      setPreviewLine(line);
+    },
+    [setSelectedPaths, setPreviewPath, setPreviewLine]
+  );
 
   const handleDoubleClick = useCallback(
     async (entry: FSEntry) => {
@@ -191,6 +429,8 @@ function App() {
         });
         // Focus the FileList after navigation
         fileListRef.current?.focus();
+      } else if (isBrowsableArchive(entry.name)) {
+        setArchivePath(entry.path);
       } else {
         // Open in preview
         setPreviewPath(entry.path);
@@ -205,6 +445,39 @@ function App() {
     [loadDirectory, setPreviewPath, addRecent]
   );
 
+  // Folders open directly, files are selected and previewed in their folder
+  const handleOpenFromStorageMap = useCallback(
+    async (path: string, kind: FileKind) => {
+      setShowStorageMap(false);
+      if (kind === 'directory') {
+        await loadDirectory(path);
+        return;
+      }
+      await loadDirectory(dirname(path));
+      setSelectedPaths(new Set([path]));
+      setPreviewPath(path);
+    },
+    [loadDirectory, setSelectedPaths, setPreviewPath]
+  );
+
+  const handleOpenDuplicate = useCallback(
+    (path: string) => {
+      setShowDuplicates(false);
+      handleOpenFromStorageMap(path, 'file');
+    },
+    [handleOpenFromStorageMap]
+  );
+
+  // Copies picked in the duplicate finder go through the regular delete confirmation
+  const handleDeleteDuplicates = useCallback(
+    (paths: string[]) => {
+      setShowDuplicates(false);
+      setSelectedPaths(new Set(paths));
+      setShowDeleteDialog(true);
+    },
+    [setSelectedPaths]
+  );
+
   const handleContextMenu = useCallback((e: React.MouseEvent, entry?: FSEntry) => {
     e.preventDefault();
     setContextMenuEntry(entry || null);
@@ -219,23 +492,49 @@ function App() {
 
   const confirmDelete = useCallback(async () => {
     const pathsToDelete = Array.from(selectedPaths);
+    const tracker = startOperationTracker(`Deleting ${pathsToDelete.length} item(s)`);
 
-    for (const path of pathsToDelete) {
-      try {
-        await opfsApi.delete({ path, recursive: true });
-        addToast({
-          type: 'success',
-          title: 'Deleted',
-          message: basename(path),
-        });
-      } catch (error) {
+    try {
+      const { results } = await opfsApi.batch(
+        {
+          operations: pathsToDelete.map((path) => ({
+            command: 'fs.delete',
+            params: { path, recursive: true },
+          })),
+        },
+        tracker.requestOptions
+      );
+
+      let deleted = 0;
+      results.forEach((result, i) => {
+        const error = getBatchItemError(result);
+        if (!error) {
+          deleted++;
+          return;
+        }
         addToast({
           type: 'error',
           title: 'Failed to delete',
-          message: error instanceof Error ? error.message : String(error),
-          details: `Path: ${path}`,
+          message: getErrorMessage(error),
+          details: `Path: ${pathsToDelete[i]}`,
+        });
+      });
+
+      if (deleted > 0) {
+        addToast({
+          type: 'success',
+          title: 'Deleted',
+          message: pathsToDelete.length === 1 ? basename(pathsToDelete[0]) : `${deleted} item(s)`,
         });
       }
+    } catch (error) {
+      addToast(
+        isCancelledError(error)
+          ? { type: 'info', title: 'Delete cancelled' }
+          : { type: 'error', title: 'Failed to delete', message: getErrorMessage(error) }
+      );
+    } finally {
+      tracker.finish();
     }
 
     handleRefresh();
@@ -263,7 +562,7 @@ function App() {
         addToast({
           type: 'error',
           title: 'Failed to rename',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       }
     },
@@ -271,28 +570,49 @@ function App() {
   );
 
   const handleDuplicate = useCallback(async () => {
-    const pathToDuplicate = Array.from(selectedPaths)[0];
-    if (!pathToDuplicate) return;
+    const pathsToDuplicate = Array.from(selectedPaths);
+    if (pathsToDuplicate.length === 0) return;
 
-    const parentPath = dirname(pathToDuplicate);
-    const name = basename(pathToDuplicate);
     const existingNames = new Set(entries.map((e) => e.name));
-    const newName = generateUniqueName(name, existingNames);
-    const newPath = join(parentPath, newName);
+    const copies = pathsToDuplicate.map((from) => {
+      const newName = generateUniqueName(basename(from), existingNames);
+      existingNames.add(newName);
+      return { from, to: join(dirname(from), newName) };
+    });
 
     try {
-      await opfsApi.copy({ from: pathToDuplicate, to: newPath });
-      addToast({
-        type: 'success',
-        title: 'Duplicated',
-        message: newName,
+      const { results } = await opfsApi.batch({
+        operations: copies.map((params) => ({ command: 'fs.copy', params })),
+      });
+
+      let duplicated = 0;
+      results.forEach((result, i) => {
+        const error = getBatchItemError(result);
+        if (!error) {
+          duplicated++;
+          return;
+        }
+        addToast({
+          type: 'error',
+          title: 'Failed to duplicate',
+          message: getErrorMessage(error),
+          details: `Path: ${copies[i].from}`,
+        });
       });
+
+      if (duplicated > 0) {
+        addToast({
+          type: 'success',
+          title: 'Duplicated',
+          message: copies.length === 1 ? basename(copies[0].to) : `${duplicated} item(s)`,
+        });
+      }
       handleRefresh();
     } catch (error) {
       addToast({
         type: 'error',
         title: 'Failed to duplicate',
-        message: error instanceof Error ? error.message : String(error),
+        message: getErrorMessage(error),
       });
     }
   }, [selectedPaths, entries, handleRefresh, addToast]);
@@ -310,73 +630,146 @@ function App() {
     });
   }, [selectedPaths, setClipboard, addToast]);
 
+  // Ask the user how to resolve a name clash
+  const resolveConflict = useCallback((name: string) => {
+    setConflictFilename(name);
+    return new Promise<ConflictResolution>((resolve) => {
+      conflictResolverRef.current = resolve;
+      setShowConflictDialog(true);
+    });
+  }, []);
+
+  // Copy or move entries into a folder in one batch, sending EEXIST through the conflict dialog
+  // Resolves to how many items were copied or moved and the ones that still failed
+  const transferEntries = useCallback(
+    async (
+      operation: 'copy' | 'move',
+      sourcePaths: string[],
+      targetPath: string,
+      tracker: OperationTracker
+    ) => {
+      const command = operation === 'copy' ? 'fs.copy' : 'fs.move';
+      const failures: { path: string; error: Error }[] = [];
+      let done = 0;
+
+      const { results } = await opfsApi.batch(
+        {
+          operations: sourcePaths.map((from) => ({
+            command,
+            params: { from, to: join(targetPath, basename(from)) },
+          })),
+        },
+        tracker.requestOptions
+      );
+      tracker.itemDone();
+
+      const retries: BatchOperation[] = [];
+      const retrySources: string[] = [];
+      let siblingNames: Set<string> | null = null;
+
+      for (const [i, result] of results.entries()) {
+        const from = sourcePaths[i];
+        const error = getBatchItemError(result);
+        if (!error) {
+          done++;
+          continue;
+        }
+
+        if (getRPCErrorCode(error) !== 'EEXIST') {
+          failures.push({ path: from, error });
+          continue;
+        }
+
+        const name = basename(from);
+        const resolution = await resolveConflict(name);
+        if (resolution === 'skip') continue;
+
+        let to = join(targetPath, name);
+        if (resolution === 'keep-both') {
+          siblingNames ??= new Set((await opfsApi.list({ path: targetPath })).map((e) => e.name));
+          const newName = generateUniqueName(name, siblingNames, '');
+          siblingNames.add(newName);
+          to = join(targetPath, newName);
+        }
+
+        retries.push({ command, params: { from, to, overwrite: resolution === 'replace' } });
+        retrySources.push(from);
+      }
+
+      if (retries.length > 0) {
+        const retried = await opfsApi.batch({ operations: retries }, tracker.requestOptions);
+        tracker.itemDone();
+        retried.results.forEach((result, i) => {
+          const error = getBatchItemError(result);
+          if (error) {
+            failures.push({ path: retrySources[i], error });
+          } else {
+            done++;
+          }
+        });
+      }
+
+      return { done, failures };
+    },
+    [resolveConflict]
+  );
+
   const handlePaste = useCallback(async () => {
     if (!clipboard || clipboard.paths.length === 0) return;
 
     const targetPath = contextMenuEntry?.kind === 'directory' ? contextMenuEntry.path : currentPath;
 
-    for (const sourcePath of clipboard.paths) {
-      // Prevent pasting into itself or its children
+    // Prevent pasting into itself or its children
+    const sourcePaths = clipboard.paths.filter((sourcePath) => {
       if (isChildOf(targetPath, sourcePath) || targetPath === sourcePath) {
         addToast({
           type: 'error',
           title: 'Cannot paste',
           message: 'Cannot paste a folder into itself',
         });
-        continue;
+        return false;
       }
+      return true;
+    });
+    if (sourcePaths.length === 0) return;
 
-      const name = basename(sourcePath);
-      const destPath = join(targetPath, name);
+    const tracker = startOperationTracker(`Pasting ${sourcePaths.length} item(s)`);
+    let cancelled = false;
+    let transferred = 0;
 
-      // Check for conflicts
-      const existingEntry = entries.find((e) => e.name === name);
-      if (existingEntry) {
-        // Show conflict dialog
-        setConflictFilename(name);
-        const resolution = await new Promise<ConflictResolution>((resolve) => {
-          conflictResolverRef.current = resolve;
-          setShowConflictDialog(true);
+    try {
+      const { done, failures } = await transferEntries('copy', sourcePaths, targetPath, tracker);
+      transferred = done;
+      for (const { path, error } of failures) {
+        addToast({
+          type: 'error',
+          title: 'Failed to paste',
+          message: getErrorMessage(error),
+          details: `Path: ${path}`,
         });
-
-        if (resolution === 'skip') continue;
-        if (resolution === 'keep-both') {
-          const existingNames = new Set(entries.map((e) => e.name));
-          const newName = generateUniqueName(name, existingNames, '');
-          const newDestPath = join(targetPath, newName);
-          try {
-            await opfsApi.copy({ from: sourcePath, to: newDestPath });
-          } catch (error) {
-            addToast({
-              type: 'error',
-              title: 'Failed to paste',
-              message: error instanceof Error ? error.message : String(error),
-            });
-          }
-          continue;
-        }
-        // resolution === 'replace' - overwrite
       }
-
-      try {
-        await opfsApi.copy({ from: sourcePath, to: destPath, overwrite: true });
-      } catch (error) {
+    } catch (error) {
+      if (isCancelledError(error)) {
+        cancelled = true;
+      } else {
         addToast({
           type: 'error',
           title: 'Failed to paste',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       }
+    } finally {
+      tracker.finish();
     }
 
-    addToast({
-      type: 'success',
-      title: 'Pasted',
-      message: `${clipboard.paths.length} item(s)`,
-    });
+    if (cancelled) {
+      addToast({ type: 'info', title: 'Paste cancelled' });
+    } else if (transferred > 0) {
+      addToast({ type: 'success', title: 'Pasted', message: `${transferred} item(s)` });
+    }
 
     handleRefresh();
-  }, [clipboard, contextMenuEntry, currentPath, entries, handleRefresh, addToast]);
+  }, [clipboard, contextMenuEntry, currentPath, transferEntries, handleRefresh, addToast]);
 
   const handleCopyPath = useCallback(() => {
     const path = Array.from(selectedPaths)[0];
@@ -391,9 +784,45 @@ function App() {
     });
   }, [selectedPaths, addToast]);
 
+  // Folders and multi-selections are packed into one ZIP
+  const handleExportZip = useCallback(
+    async (paths: string[]) => {
+      const name = `${paths.length === 1 ? basename(paths[0]) : basename(currentPath) || 'opfs'}.zip`;
+      const tracker = startOperationTracker(`Zipping ${paths.length} item(s)`);
+      try {
+        const blob = await createZipArchive(paths, tracker);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+        addToast({
+          type: 'success',
+          title: 'Exported',
+          message: name,
+        });
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Export cancelled' }
+            : { type: 'error', title: 'Failed to export', message: getErrorMessage(error) }
+        );
+      } finally {
+        tracker.finish();
+      }
+    },
+    [currentPath, addToast]
+  );
+
   const handleExport = useCallback(
     async (path: string) => {
       try {
+        if ((await opfsApi.stat({ path })).kind === 'directory') {
+          await handleExportZip([path]);
+          return;
+        }
         const result = await opfsApi.readBase64({ path });
         const url = createObjectUrlFromBase64(result.base64, result.mimeType);
         const link = document.createElement('a');
@@ -411,10 +840,112 @@ function App() {
         addToast({
           type: 'error',
           title: 'Failed to export',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       }
     },
+    [handleExportZip, addToast]
+  );
+
+  // Compress or decompress a file next to itself, asking before replacing an existing one
+  const handleGzip = useCallback(
+    async (path: string, mode: 'gzip' | 'gunzip') => {
+      const tracker = startOperationTracker(
+        `${mode === 'gzip' ? 'Compressing' : 'Decompressing'} ${basename(path)}`
+      );
+      let to = getGzipTarget(path, mode);
+      const run = (overwrite = false) =>
+        opfsApi[mode]({ from: path, to, overwrite }, tracker.requestOptions);
+
+      try {
+        let result: GzipResult;
+        try {
+          result = await run();
+        } catch (error) {
+          if (getRPCErrorCode(error) !== 'EEXIST') throw error;
+
+          const resolution = await resolveConflict(basename(to));
+          if (resolution === 'skip') return;
+          if (resolution === 'keep-both') {
+            const folder = dirname(to);
+            const names = new Set(
+              (await opfsApi.list({ path: folder, namesOnly: true })).map((entry) => entry.name)
+            );
+            to = join(folder, generateUniqueName(basename(to), names, ''));
+          }
+          result = await run(resolution === 'replace');
+        }
+
+        addToast({
+          type: 'success',
+          title: mode === 'gzip' ? 'Compressed' : 'Decompressed',
+          message: `${basename(to)} (${formatFileSize(result.size)})`,
+        });
+        handleRefresh();
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? {
+                type: 'info',
+                title: mode === 'gzip' ? 'Compression cancelled' : 'Decompression cancelled',
+              }
+            : {
+                type: 'error',
+                title: mode === 'gzip' ? 'Failed to compress' : 'Failed to decompress',
+                message: getErrorMessage(error),
+              }
+        );
+      } finally {
+        tracker.finish();
+      }
+    },
+    [resolveConflict, handleRefresh, addToast]
+  );
+
+  const handleGenerateManifest = useCallback(
+    async (folder: string) => {
+      const tracker = startOperationTracker(`Hashing ${basename(folder) || 'OPFS'}`);
+      try {
+        const manifest = await generateManifest(folder, tracker.requestOptions);
+        addToast({
+          type: 'success',
+          title: 'Manifest written',
+          message: `${Object.keys(manifest.files).length} file(s) in ${join(folder, MANIFEST_FILENAME)}`,
+        });
+        handleRefresh();
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Manifest cancelled' }
+            : {
+                type: 'error',
+                title: 'Failed to generate manifest',
+                message: getErrorMessage(error),
+              }
+        );
+      } finally {
+        tracker.finish();
+      }
+    },
+    [handleRefresh, addToast]
+  );
+
+  // Verify the folder a manifest is in against it
+  const handleVerifyManifest = useCallback(
+    async (manifestPath: string) => {
+      const tracker = startOperationTracker(`Verifying ${basename(manifestPath)}`);
+      try {
+        setManifestReport(await verifyManifest(manifestPath, tracker.requestOptions));
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Verification cancelled' }
+            : { type: 'error', title: 'Failed to verify manifest', message: getErrorMessage(error) }
+        );
+      } finally {
+        tracker.finish();
+      }
+    },
     [addToast]
   );
 
@@ -434,7 +965,7 @@ function App() {
         addToast({
           type: 'error',
           title: 'Failed to create folder',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       }
     },
@@ -457,7 +988,7 @@ function App() {
         addToast({
           type: 'error',
           title: 'Failed to create file',
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       }
     },
@@ -468,91 +999,218 @@ function App() {
     fileInputRef.current?.click();
   }, []);
 
+  const handleImportFolder = useCallback(() => {
+    folderInputRef.current?.click();
+  }, []);
+
+  // Write files and folders from the OS into a folder, asking about name clashes
+  const handleImportItems = useCallback(
+    async (items: UploadItem[], targetPath: string) => {
+      const fileCount = items.filter((item) => item.file).length;
+      const tracker = startOperationTracker(`Importing ${fileCount} file(s)`);
+      try {
+        const { imported, failures } = await importItems(
+          items,
+          targetPath,
+          resolveConflict,
+          tracker
+        );
+        for (const { path, error } of failures) {
+          addToast({
+            type: 'error',
+            title: 'Failed to import',
+            message: getErrorMessage(error),
+            details: `Path: ${path}`,
+          });
+        }
+        if (imported > 0) {
+          addToast({ type: 'success', title: 'Imported', message: `${imported} item(s)` });
+        }
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Import cancelled' }
+            : { type: 'error', title: 'Failed to import', message: getErrorMessage(error) }
+        );
+      } finally {
+        tracker.finish();
+      }
+
+      handleRefresh();
+    },
+    [resolveConflict, handleRefresh, addToast]
+  );
+
+  // Shared by the file and folder pickers
   const handleFileInputChange = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = Array.from(e.target.files || []);
+      e.target.value = '';
       if (files.length === 0) return;
 
-      await importFiles(files, currentPath);
-      e.target.value = '';
+      await handleImportItems(getPickedItems(files), currentPath);
     },
-    [currentPath]
+    [currentPath, handleImportItems]
   );
 
-  const importFiles = useCallback(
-    async (files: File[], targetPath: string) => {
-      for (const file of files) {
-        const destPath = join(targetPath, file.name);
+  const handleImportZip = useCallback(() => {
+    zipInputRef.current?.click();
+  }, []);
 
-        try {
-          const data = await file.arrayBuffer();
-          const base64 = arrayBufferToBase64(data);
-          await opfsApi.writeBase64({ path: destPath, base64 });
-        } catch (error) {
+  // Unpack a picked archive into the current folder
+  const handleZipInputChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const tracker = startOperationTracker(`Extracting ${file.name}`);
+      try {
+        const { extracted, failures } = await extractZipArchive(
+          file,
+          currentPath,
+          resolveConflict,
+          tracker
+        );
+        for (const { path, error } of failures) {
           addToast({
             type: 'error',
-            title: 'Failed to import',
-            message: error instanceof Error ? error.message : String(error),
+            title: 'Failed to extract',
+            message: getErrorMessage(error),
+            details: `Path: ${path}`,
           });
         }
+        addToast(
+          failures.length === 0
+            ? { type: 'success', title: 'Extracted', message: file.name }
+            : {
+                type: 'error',
+                title: `Extracted ${extracted} of ${extracted + failures.length} item(s)`,
+                message: file.name,
+              }
+        );
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Extraction cancelled' }
+            : { type: 'error', title: 'Failed to extract', message: getErrorMessage(error) }
+        );
+      } finally {
+        tracker.finish();
       }
 
-      addToast({
-        type: 'success',
-        title: 'Imported',
-        message: `${files.length} file(s)`,
-      });
-
       handleRefresh();
     },
-    [handleRefresh, addToast]
+    [currentPath, resolveConflict, handleRefresh, addToast]
+  );
+
+  // Write a file from the archive browser next to the archive
+  const handleExtractArchiveEntry = useCallback(
+    async (name: string, blob: Blob) => {
+      if (!archivePath) return;
+      const folder = dirname(archivePath);
+
+      try {
+        const names = new Set(
+          (await opfsApi.list({ path: folder, namesOnly: true })).map((entry) => entry.name)
+        );
+        let target = name;
+        if (names.has(name)) {
+          const resolution = await resolveConflict(name);
+          if (resolution === 'skip') return;
+          if (resolution === 'keep-both') target = generateUniqueName(name, names, '');
+        }
+
+        const tracker = startOperationTracker(`Extracting ${target}`);
+        try {
+          const [failure] = await writeFiles([{ path: join(folder, target), blob }], tracker);
+          if (failure) throw failure.error;
+        } finally {
+          tracker.finish();
+        }
+        addToast({ type: 'success', title: 'Extracted', message: join(folder, target) });
+        handleRefresh();
+      } catch (error) {
+        addToast(
+          isCancelledError(error)
+            ? { type: 'info', title: 'Extraction cancelled' }
+            : { type: 'error', title: 'Failed to extract', message: getErrorMessage(error) }
+        );
+      }
+    },
+    [archivePath, resolveConflict, handleRefresh, addToast]
   );
 
   const handleDrop = useCallback(
-    (files: File[], targetPath: string) => {
-      importFiles(files, targetPath);
+    async (pending: Promise<UploadItem[]>, targetPath: string) => {
+      let items: UploadItem[];
+      try {
+        items = await pending;
+      } catch (error) {
+        addToast({ type: 'error', title: 'Failed to import', message: getErrorMessage(error) });
+        return;
+      }
+      if (items.length > 0) {
+        await handleImportItems(items, targetPath);
+      }
     },
-    [importFiles]
+    [handleImportItems, addToast]
   );
 
   const handleMove = useCallback(
     async (sourcePaths: string[], targetPath: string) => {
-      for (const sourcePath of sourcePaths) {
-        // Prevent moving into itself or its children
+      // Prevent moving into itself or its children
+      const pathsToMove = sourcePaths.filter((sourcePath) => {
         if (isChildOf(targetPath, sourcePath) || targetPath === sourcePath) {
           addToast({
             type: 'error',
             title: 'Cannot move',
             message: 'Cannot move a folder into itself',
           });
-          continue;
+          return false;
         }
+        return dirname(sourcePath) !== targetPath;
+      });
+      if (pathsToMove.length === 0) return;
 
-        const name = basename(sourcePath);
-        const destPath = join(targetPath, name);
-
-        if (sourcePath === destPath) continue;
+      const tracker = startOperationTracker(`Moving ${pathsToMove.length} item(s)`);
+      let cancelled = false;
+      let transferred = 0;
 
-        try {
-          await opfsApi.move({ from: sourcePath, to: destPath });
-        } catch (error) {
+      try {
+        const { done, failures } = await transferEntries('move', pathsToMove, targetPath, tracker);
+        transferred = done;
+        for (const { path, error } of failures) {
+          addToast({
+            type: 'error',
+            title: 'Failed to move',
+            message: getErrorMessage(error),
+            details: `Path: ${path}`,
+          });
+        }
+      } catch (error) {
+        if (isCancelledError(error)) {
+          cancelled = true;
+        } else {
           addToast({
             type: 'error',
             title: 'Failed to move',
-            message: error instanceof Error ? error.message : String(error),
+            message: getErrorMessage(error),
           });
         }
+      } finally {
+        tracker.finish();
       }
 
-      addToast({
-        type: 'success',
-        title: 'Moved',
-        message: `${sourcePaths.length} item(s)`,
-      });
+      if (cancelled) {
+        addToast({ type: 'info', title: 'Move cancelled' });
+      } else if (transferred > 0) {
+        addToast({ type: 'success', title: 'Moved', message: `${transferred} item(s)` });
+      }
 
       handleRefresh();
     },
-    [handleRefresh, addToast]
+    [transferEntries, handleRefresh, addToast]
   );
 
   const handleAddToFavorites = useCallback(() => {
@@ -607,6 +1265,12 @@ function App() {
           <p className={styles.hint}>
             Make sure you're inspecting a page served over HTTPS or localhost.
           </p>
+          {frames.length > 1 && (
+            <div className={styles.framePicker}>
+              <p>This page has embedded frames, one of them may have its own OPFS:</p>
+              <FramePicker onOpen={loadFrames} />
+            </div>
+          )}
         </div>
       </ToastProvider>
     );
@@ -634,18 +1298,47 @@ function App() {
           style={{ display: 'none' }}
           onChange={handleFileInputChange}
         />
+        <input
+          ref={folderInputRef}
+          type="file"
+          // Not in React's input attributes, picks a folder with everything below it
+          {...{ webkitdirectory: '' }}
+          style={{ display: 'none' }}
+          onChange={handleFileInputChange}
+        />
+        <input
+          ref={zipInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          style={{ display: 'none' }}
+          onChange={handleZipInputChange}
+        />
 
         <ContextMenuPrimitive.Root>
           <ContextMenuPrimitive.Trigger asChild>
             <div className={styles.mainContent}>
               <SplitPane defaultSizes={[15, 55, 30]} minSizes={[150, 300, 200]}>
-                <Sidebar onNavigate={loadDirectory} onMove={handleMove} />
+                <Sidebar
+                  key={`${selectedFrameId}:${currentBucket ?? ''}`}
+                  onNavigate={loadDirectory}
+                  onMove={handleMove}
+                  onNewBucket={() => setShowNewBucketDialog(true)}
+                  onDeleteBucket={setBucketToDelete}
+                  onShowStorageMap={() => setShowStorageMap(true)}
+                  onShowDuplicates={() => setShowDuplicates(true)}
+                />
                 <div className={styles.centerPane}>
                   <Toolbar
                     onRefresh={handleRefresh}
                     onNewFolder={() => setShowNewFolderDialog(true)}
                     onNewFile={() => setShowNewFileDialog(true)}
                     onImport={handleImport}
+                    onImportFolder={handleImportFolder}
+                    onImportZip={handleImportZip}
+                    onSyncFolder={() => setSyncPath(currentPath)}
+                    onRefreshFrames={loadFrames}
+                    onContentSearch={runSearch}
+                    onSaveSmartFolder={() => setShowSaveSmartFolderDialog(true)}
                   />
                   <FileList
                     ref={fileListRef}
@@ -653,7 +1346,10 @@ function App() {
                     onContextMenu={handleContextMenu}
                     onDrop={handleDrop}
                     onMove={handleMove}
+                    onContentSearch={runSearch}
+                    onOpenMatch={handleOpenSearchMatch}
                   />
+                  <OperationsTray />
                 </div>
                 <Preview
                   onDelete={handleDelete}
@@ -724,13 +1420,49 @@ function App() {
                     <Link size={14} />
                     <span>Copy Path</span>
                   </ContextMenuPrimitive.Item>
-                  <ContextMenuPrimitive.Item
-                    className={styles.contextMenuItem}
-                    onClick={() => handleExport(contextMenuEntry.path)}
-                  >
-                    <Download size={14} />
-                    <span>Export</span>
-                  </ContextMenuPrimitive.Item>
+                  {contextMenuEntry.kind === 'directory' || selectedPaths.size > 1 ? (
+                    <ContextMenuPrimitive.Item
+                      className={styles.contextMenuItem}
+                      onClick={() =>
+                        handleExportZip(
+                          selectedPaths.size > 1
+                            ? Array.from(selectedPaths)
+                            : [contextMenuEntry.path]
+                        )
+                      }
+                    >
+                      <FileArchive size={14} />
+                      <span>
+                        Export as ZIP{selectedPaths.size > 1 ? ` (${selectedPaths.size})` : ''}
+                      </span>
+                    </ContextMenuPrimitive.Item>
+                  ) : (
+                    <ContextMenuPrimitive.Item
+                      className={styles.contextMenuItem}
+                      onClick={() => handleExport(contextMenuEntry.path)}
+                    >
+                      <Download size={14} />
+                      <span>Export</span>
+                    </ContextMenuPrimitive.Item>
+                  )}
+                  {contextMenuEntry.kind === 'file' &&
+                    (isGzipFile(contextMenuEntry.name) ? (
+                      <ContextMenuPrimitive.Item
+                        className={styles.contextMenuItem}
+                        onClick={() => handleGzip(contextMenuEntry.path, 'gunzip')}
+                      >
+                        <PackageOpen size={14} />
+                        <span>Decompress (gunzip)</span>
+                      </ContextMenuPrimitive.Item>
+                    ) : (
+                      <ContextMenuPrimitive.Item
+                        className={styles.contextMenuItem}
+                        onClick={() => handleGzip(contextMenuEntry.path, 'gzip')}
+                      >
+                        <Package size={14} />
+                        <span>Compress (gzip)</span>
+                      </ContextMenuPrimitive.Item>
+                    ))}
                   {contextMenuEntry.kind === 'directory' && (
                     <ContextMenuPrimitive.Item
                       className={styles.contextMenuItem}
@@ -740,6 +1472,48 @@ function App() {
                       <span>Add to Favorites</span>
                     </ContextMenuPrimitive.Item>
                   )}
+                  {contextMenuEntry.kind === 'directory' && (
+                    <>
+                      <ContextMenuPrimitive.Separator className={styles.contextMenuSeparator} />
+                      <ContextMenuPrimitive.Item
+                        className={styles.contextMenuItem}
+                        onClick={() => handleGenerateManifest(contextMenuEntry.path)}
+                      >
+                        <FileCheck size={14} />
+                        <span>Generate Manifest</span>
+                      </ContextMenuPrimitive.Item>
+                      <ContextMenuPrimitive.Item
+                        className={styles.contextMenuItem}
+                        onClick={() =>
+                          handleVerifyManifest(join(contextMenuEntry.path, MANIFEST_FILENAME))
+                        }
+                      >
+                        <ShieldCheck size={14} />
+                        <span>Verify Against Manifest</span>
+                      </ContextMenuPrimitive.Item>
+                      <ContextMenuPrimitive.Item
+                        className={styles.contextMenuItem}
+                        onClick={() => setSyncPath(contextMenuEntry.path)}
+                      >
+                        <FolderSync size={14} />
+                        <span>Sync with Local Folder...</span>
+                      </ContextMenuPrimitive.Item>
+                    </>
+                  )}
+                  {/* Any JSON file can be a manifest, e.g. one shipped with the downloads */}
+                  {contextMenuEntry.kind === 'file' &&
+                    contextMenuEntry.name.toLowerCase().endsWith('.json') && (
+                      <>
+                        <ContextMenuPrimitive.Separator className={styles.contextMenuSeparator} />
+                        <ContextMenuPrimitive.Item
+                          className={styles.contextMenuItem}
+                          onClick={() => handleVerifyManifest(contextMenuEntry.path)}
+                        >
+                          <ShieldCheck size={14} />
+                          <span>Verify Folder Against This Manifest</span>
+                        </ContextMenuPrimitive.Item>
+                      </>
+                    )}
                 </>
               )}
               {!contextMenuEntry && (
@@ -817,6 +1591,36 @@ function App() {
           onConfirm={handleNewFile}
         />
 
+        <InputDialog
+          open={showNewBucketDialog}
+          onOpenChange={setShowNewBucketDialog}
+          title="New Storage Bucket"
+          label="Bucket name (lowercase letters, digits, - and _)"
+          placeholder="my-bucket"
+          confirmLabel="Create"
+          onConfirm={handleNewBucket}
+        />
+
+        <InputDialog
+          open={showSaveSmartFolderDialog}
+          onOpenChange={setShowSaveSmartFolderDialog}
+          title="Save Smart Folder"
+          label="Name"
+          defaultValue={searchQuery || describeFilters(searchFilters)}
+          confirmLabel="Save"
+          onConfirm={handleSaveSmartFolder}
+        />
+
+        <ConfirmDialog
+          open={bucketToDelete !== null}
+          onOpenChange={(open) => !open && setBucketToDelete(null)}
+          title="Delete Storage Bucket"
+          message={`Are you sure you want to delete the bucket "${bucketToDelete}" and everything in it? This action cannot be undone.`}
+          confirmLabel="Delete"
+          onConfirm={confirmDeleteBucket}
+          danger
+        />
+
         <ConflictDialog
           open={showConflictDialog}
           onOpenChange={setShowConflictDialog}
@@ -826,6 +1630,36 @@ function App() {
           onSkip={() => conflictResolverRef.current?.('skip')}
         />
 
+        <ManifestReportDialog
+          report={manifestReport}
+          onOpenChange={(open) => !open && setManifestReport(null)}
+        />
+
+        <StorageTreemap
+          open={showStorageMap}
+          onOpenChange={setShowStorageMap}
+          onOpenPath={handleOpenFromStorageMap}
+        />
+
+        <DuplicateFinder
+          open={showDuplicates}
+          onOpenChange={setShowDuplicates}
+          onOpenPath={handleOpenDuplicate}
+          onDelete={handleDeleteDuplicates}
+        />
+
+        <ArchiveBrowser
+          path={archivePath}
+          onOpenChange={(open) => !open && setArchivePath(null)}
+          onExtract={handleExtractArchiveEntry}
+        />
+
+        <SyncDialog
+          path={syncPath}
+          onOpenChange={(open) => !open && setSyncPath(null)}
+          onSynced={handleRefresh}
+        />
+
         {imageEditorPath && (
           <ImageEditor
             open={!!imageEditorPath}
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Folder, File, ChevronRight, FolderOutput, Lock } from 'lucide-react';
+import { getErrorMessage } from '../../utils/errors';
+import { formatFileSize, formatDate, isTextFile, isImageFile } from '../../utils/file';
+import { basename, extname, getBreadcrumbs } from '../../utils/path';
+import {
+  openArchive,
+  listArchiveFolder,
+  type ArchiveEntry,
+  type ArchiveReader,
+} from '../../utils/archive';
+import { uint8ArrayToBase64 } from '../../../shared/utils/base64';
+import { TextEditor } from '../TextEditor';
+import { ImagePreview, HexViewer } from '../Preview';
+import styles from './ArchiveBrowser.module.css';
+
+// Same limits as the regular preview
+const TEXT_PREVIEW_SIZE = 2 * 1024 * 1024;
+const IMAGE_PREVIEW_SIZE = 10 * 1024 * 1024;
+const HEX_PREVIEW_SIZE = 1024;
+
+type EntryPreview =
+  | { type: 'text'; text: string; truncated: boolean }
+  | { type: 'image'; base64: string; mimeType: string }
+  | { type: 'hex'; base64: string }
+  | { type: 'message'; message: string };
+
+interface ArchiveBrowserProps {
+  // The archive to browse, null when closed
+  path: string | null;
+  onOpenChange: (open: boolean) => void;
+  // Writes a file of the archive next to it
+  onExtract: (name: string, blob: Blob) => void;
+}
+
+export function ArchiveBrowser({ path, onOpenChange, onExtract }: ArchiveBrowserProps) {
+  const [reader, setReader] = useState<ArchiveReader | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [folder, setFolder] = useState('/');
+  const [selected, setSelected] = useState<ArchiveEntry | null>(null);
+  const [preview, setPreview] = useState<EntryPreview | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  // Only the index is read when the archive is opened
+  useEffect(() => {
+    setReader(null);
+    setError(null);
+    setFolder('/');
+    setSelected(null);
+    if (!path) return;
+
+    let cancelled = false;
+    openArchive(path)
+      .then((opened) => !cancelled && setReader(opened))
+      .catch((err) => !cancelled && setError(getErrorMessage(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!reader || !selected) return;
+
+    const name = basename(selected.path);
+    const limit = isImageFile(name) ? IMAGE_PREVIEW_SIZE : TEXT_PREVIEW_SIZE;
+    if (selected.size > limit) {
+      setPreview({ type: 'message', message: 'Too large to preview. Extract it to view it.' });
+      return;
+    }
+
+    let cancelled = false;
+    reader
+      .read(selected)
+      .then((data) => {
+        if (cancelled) return;
+        if (isTextFile(name)) {
+          setPreview({
+            type: 'text',
+            text: new TextDecoder().decode(data.subarray(0, TEXT_PREVIEW_SIZE)),
+            truncated: data.length > TEXT_PREVIEW_SIZE,
+          });
+        } else if (isImageFile(name)) {
+          const ext = extname(name).slice(1).toLowerCase();
+          setPreview({
+            type: 'image',
+            base64: uint8ArrayToBase64(data),
+            mimeType: ext === 'svg' ? 'image/svg+xml' : `image/${ext}`,
+          });
+        } else {
+          setPreview({
+            type: 'hex',
+            base64: uint8ArrayToBase64(data.subarray(0, HEX_PREVIEW_SIZE)),
+          });
+        }
+      })
+      .catch((err) => !cancelled && setPreview({ type: 'message', message: getErrorMessage(err) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [reader, selected]);
+
+  const children = useMemo(
+    () => (reader ? listArchiveFolder(reader.entries, folder) : []),
+    [reader, folder]
+  );
+
+  const breadcrumbs = useMemo(
+    () =>
+      getBreadcrumbs(folder).map((crumb, i) =>
+        i === 0 ? { ...crumb, name: basename(path ?? '') } : crumb
+      ),
+    [folder, path]
+  );
+
+  const handleExtract = async () => {
+    if (!reader || !selected) return;
+    setIsExtracting(true);
+    try {
+      const data = await reader.read(selected);
+      onExtract(basename(selected.path), new Blob([data]));
+    } catch (err) {
+      setPreview({ type: 'message', message: getErrorMessage(err) });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={path !== null} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <Dialog.Title className={styles.title}>{basename(path ?? '')}</Dialog.Title>
+            <div className={styles.headerActions}>
+              {reader && <span className={styles.total}>{reader.entries.length} entries</span>}
+              <Dialog.Close asChild>
+                <button className={styles.iconButton}>
+                  <X size={18} />
+                </button>
+              </Dialog.Close>
+            </div>
+          </div>
+          <Dialog.Description className={styles.description}>
+            Read-only. Files can be previewed and extracted next to the archive.
+          </Dialog.Description>
+
+          <nav className={styles.breadcrumbs}>
+            {breadcrumbs.map((crumb, i) => (
+              <span key={crumb.path} className={styles.crumb}>
+                {i > 0 && <ChevronRight size={12} />}
+                <button
+                  onClick={() => {
+                    setFolder(crumb.path);
+                    setSelected(null);
+                  }}
+                >
+                  {crumb.name}
+                </button>
+              </span>
+            ))}
+          </nav>
+
+          <div className={styles.body}>
+            {error ? (
+              <div className={styles.message}>{error}</div>
+            ) : !reader ? (
+              <div className={styles.message}>Reading archive...</div>
+            ) : (
+              <>
+                <div className={styles.list}>
+                  {children.length === 0 && <div className={styles.message}>Empty folder</div>}
+                  {children.map((child) => (
+                    <button
+                      key={child.path}
+                      className={`${styles.row} ${selected?.path === child.path ? styles.selected : ''}`}
+                      onClick={() => {
+                        if (child.kind === 'directory') {
+                          setFolder(child.path);
+                          setSelected(null);
+                        } else {
+                          setSelected(
+                            reader.entries.find((entry) => entry.path === child.path) ?? null
+                          );
+                        }
+                      }}
+                      title={child.path}
+                    >
+                      {child.kind === 'directory' ? (
+                        <Folder size={16} className={styles.folderIcon} />
+                      ) : (
+                        <File size={16} className={styles.fileIcon} />
+                      )}
+                      <span className={styles.name}>{child.name}</span>
+                      {child.kind === 'file' && (
+                        <span className={styles.size}>{formatFileSize(child.size ?? 0)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+
+                <div className={styles.preview}>
+                  {!selected ? (
+                    <div className={styles.message}>Select a file to preview it</div>
+                  ) : (
+                    <>
+                      <div className={styles.previewHeader}>
+                        <div className={styles.previewInfo}>
+                          <span className={styles.name}>{basename(selected.path)}</span>
+                          <span className={styles.meta}>
+                            {formatFileSize(selected.size)}
+                            {selected.compressedSize !== undefined &&
+                              ` (${formatFileSize(selected.compressedSize)} compressed)`}
+                            {' · '}
+                            {formatDate(selected.lastModified)}
+                          </span>
+                        </div>
+                        <button
+                          className={styles.extractButton}
+                          onClick={handleExtract}
+                          disabled={isExtracting || selected.encrypted}
+                          title="Extract next to the archive"
+                        >
+                          {selected.encrypted ? <Lock size={14} /> : <FolderOutput size={14} />}
+                          <span>{isExtracting ? 'Extracting...' : 'Extract'}</span>
+                        </button>
+                      </div>
+                      <div className={styles.previewContent}>
+                        {!preview ? (
+                          <div className={styles.message}>Loading...</div>
+                        ) : preview.type === 'text' ? (
+                          <>
+                            {preview.truncated && (
+                              <div className={styles.warning}>Showing first 2MB only.</div>
+                            )}
+                            <TextEditor
+                              content={preview.text}
+                              filename={basename(selected.path)}
+                              readOnly
+                            />
+                          </>
+                        ) : preview.type === 'image' ? (
+                          <ImagePreview base64={preview.base64} mimeType={preview.mimeType} />
+                        ) : preview.type === 'hex' ? (
+                          <HexViewer base64={preview.base64} />
+                        ) : (
+                          <div className={styles.message}>{preview.message}</div>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
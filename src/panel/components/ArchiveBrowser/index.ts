@@ -0,0 +1 @@
+export { ArchiveBrowser } from './ArchiveBrowser';
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, RefreshCw, Trash2 } from 'lucide-react';
+import { useFileSystemStore } from '../../store';
+import { isCancelledError } from '../../utils/rpc';
+import { startOperationTracker } from '../../utils/operations';
+import { getErrorMessage } from '../../utils/errors';
+import { formatFileSize } from '../../utils/file';
+import { findDuplicates, type DuplicateGroup } from '../../utils/duplicates';
+import styles from './DuplicateFinder.module.css';
+
+interface DuplicateFinderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenPath: (path: string) => void;
+  // Hands the copies to the regular delete flow
+  onDelete: (paths: string[]) => void;
+}
+
+export function DuplicateFinder({
+  open,
+  onOpenChange,
+  onOpenPath,
+  onDelete,
+}: DuplicateFinderProps) {
+  const { currentBucket } = useFileSystemStore();
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scanCount, setScanCount] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Scan every time the finder is opened or refreshed, closing it stops the scan
+  useEffect(() => {
+    if (!open) return;
+
+    const tracker = startOperationTracker('Finding duplicates');
+    let cancelled = false;
+    setGroups(null);
+    setIsLoading(true);
+    setError(null);
+
+    findDuplicates(tracker.requestOptions)
+      .then((found) => {
+        if (cancelled) return;
+        setGroups(found);
+        // Keep the first copy of each group
+        setSelected(new Set(found.flatMap((group) => group.paths.slice(1))));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(isCancelledError(err) ? 'Scan cancelled' : getErrorMessage(err));
+        }
+      })
+      .finally(() => {
+        tracker.finish();
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      tracker.cancel();
+    };
+  }, [open, scanCount]);
+
+  const totalWasted = useMemo(
+    () => groups?.reduce((sum, group) => sum + group.wasted, 0) ?? 0,
+    [groups]
+  );
+
+  const selectedSize = useMemo(
+    () =>
+      groups?.reduce(
+        (sum, group) => sum + group.paths.filter((path) => selected.has(path)).length * group.size,
+        0
+      ) ?? 0,
+    [groups, selected]
+  );
+
+  const toggle = (path: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <Dialog.Title className={styles.title}>
+              Duplicate Files{currentBucket ? ` - ${currentBucket}` : ''}
+            </Dialog.Title>
+            <div className={styles.headerActions}>
+              {groups && groups.length > 0 && (
+                <span className={styles.total}>{formatFileSize(totalWasted)} wasted</span>
+              )}
+              <button
+                className={`${styles.iconButton} ${isLoading ? styles.spinning : ''}`}
+                onClick={() => setScanCount((count) => count + 1)}
+                disabled={isLoading}
+                title="Scan again"
+              >
+                <RefreshCw size={14} />
+              </button>
+              <Dialog.Close asChild>
+                <button className={styles.iconButton}>
+                  <X size={18} />
+                </button>
+              </Dialog.Close>
+            </div>
+          </div>
+          <Dialog.Description className={styles.description}>
+            Files with the same content, found by size and SHA-256. Checked copies can be deleted.
+          </Dialog.Description>
+
+          <div className={styles.body}>
+            {error ? (
+              <div className={styles.message}>{error}</div>
+            ) : !groups ? (
+              <div className={styles.message}>Scanning...</div>
+            ) : groups.length === 0 ? (
+              <div className={styles.message}>No duplicate files</div>
+            ) : (
+              groups.map((group) => (
+                <div key={`${group.size}:${group.sha256}`} className={styles.group}>
+                  <div className={styles.groupHeader}>
+                    <span>
+                      {group.paths.length} copies of {formatFileSize(group.size)}
+                    </span>
+                    <span className={styles.wasted}>{formatFileSize(group.wasted)} wasted</span>
+                  </div>
+                  {group.paths.map((path) => (
+                    <label key={path} className={styles.copy}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(path)}
+                        onChange={() => toggle(path)}
+                      />
+                      <button
+                        className={styles.path}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onOpenPath(path);
+                        }}
+                        title={path}
+                      >
+                        {path}
+                      </button>
+                    </label>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+
+          {groups && groups.length > 0 && (
+            <div className={styles.footer}>
+              <button
+                className={styles.deleteButton}
+                onClick={() => onDelete([...selected])}
+                disabled={selected.size === 0}
+              >
+                <Trash2 size={14} />
+                <span>
+                  Delete {selected.size} checked ({formatFileSize(selectedSize)})
+                </span>
+              </button>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1 @@
+export { DuplicateFinder } from './DuplicateFinder';
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import React, { useCallback, useEffect, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import {
   Folder,
@@ -13,17 +13,34 @@ import {
   FileQuestion,
 } from 'lucide-react';
 import { useFileSystemStore, usePersistedStore } from '../../store';
+import { useDiskUsage } from '../../hooks';
 import { getAssetUrl } from '../../utils/assets';
-import { formatFileSize, formatDate, getKindLabel, getFileCategory } from '../../utils/file';
+import {
+  formatFileSize,
+  formatItemCount,
+  formatDate,
+  getKindLabel,
+  getFileCategory,
+} from '../../utils/file';
 import { dirname } from '../../utils/path';
-import type { FSEntry, SortConfig } from '../../../shared/types';
+import { loadMoreEntries } from '../../utils/listing';
+import { createEntryFilter, hasActiveFilters, type SearchFilters } from '../../utils/filters';
+import { getDroppedItems, type UploadItem } from '../../utils/upload';
+import { SearchResults } from './SearchResults';
+import type { DiskUsage, FSEntry, SortConfig } from '../../../shared/types';
 import styles from './FileList.module.css';
 
+// Next page is requested when the end of the loaded entries is this close (px)
+const LOAD_MORE_THRESHOLD = 400;
+
 interface FileListProps {
   onDoubleClick: (entry: FSEntry) => void;
   onContextMenu: (e: React.MouseEvent, entry?: FSEntry) => void;
-  onDrop: (files: File[], targetPath: string) => void;
+  // Files and folders dropped from the OS
+  onDrop: (items: Promise<UploadItem[]>, targetPath: string) => void;
   onMove: (sourcePaths: string[], targetPath: string) => void;
+  onContentSearch: () => void;
+  onOpenMatch: (path: string, line: number) => void;
 }
 
 function getFileIcon(entry: FSEntry) {
@@ -69,7 +86,16 @@ function getGridIcon(
   return <img src={fileIconUrl} alt="" className={styles.gridIconImage} />;
 }
 
-function sortEntries(entries: FSEntry[], config: SortConfig): FSEntry[] {
+// Folders use their recursive size once it is known
+function getEntrySize(entry: FSEntry, diskUsage: Record<string, DiskUsage>): number {
+  return (entry.kind === 'directory' ? diskUsage[entry.path]?.size : entry.size) || 0;
+}
+
+function sortEntries(
+  entries: FSEntry[],
+  config: SortConfig,
+  diskUsage: Record<string, DiskUsage>
+): FSEntry[] {
   return [...entries].sort((a, b) => {
     // Directories always come first
     if (a.kind !== b.kind) {
@@ -83,7 +109,7 @@ function sortEntries(entries: FSEntry[], config: SortConfig): FSEntry[] {
         comparison = a.name.localeCompare(b.name);
         break;
       case 'size':
-        comparison = (a.size || 0) - (b.size || 0);
+        comparison = getEntrySize(a, diskUsage) - getEntrySize(b, diskUsage);
         break;
       case 'modified':
         comparison = (a.lastModified || 0) - (b.lastModified || 0);
@@ -99,10 +125,13 @@ function sortEntries(entries: FSEntry[], config: SortConfig): FSEntry[] {
   });
 }
 
-function filterEntries(entries: FSEntry[], query: string): FSEntry[] {
-  if (!query) return entries;
+function filterEntries(entries: FSEntry[], query: string, filters: SearchFilters): FSEntry[] {
+  if (!query && !hasActiveFilters(filters)) return entries;
   const lowerQuery = query.toLowerCase();
-  return entries.filter((entry) => entry.name.toLowerCase().includes(lowerQuery));
+  const matchesFilters = createEntryFilter(filters);
+  return entries.filter(
+    (entry) => entry.name.toLowerCase().includes(lowerQuery) && matchesFilters(entry)
+  );
 }
 
 export interface FileListHandle {
@@ -110,7 +139,7 @@ export interface FileListHandle {
 }
 
 export const FileList = forwardRef<FileListHandle, FileListProps>(function FileList(
-  { onDoubleClick, onContextMenu, onDrop, onMove },
+  { onDoubleClick, onContextMenu, onDrop, onMove, onContentSearch, onOpenMatch },
   ref
 ) {
   const {
@@ -126,8 +155,14 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
     sortConfig,
     searchQuery,
     searchGlobal,
+    searchFilters,
+    searchContent,
     allEntries,
     currentPath,
+    changedPaths,
+    diskUsage,
+    listCursor,
+    isLoadingMore,
   } = useFileSystemStore();
   const { useClownMode } = usePersistedStore();
   const emptyIconUrl = useMemo(() => getAssetUrl('images/empty.png'), []);
@@ -154,11 +189,22 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
 
   const processedEntries = useMemo(() => {
     const source = searchGlobal ? allEntries : entries;
-    const filtered = filterEntries(source, searchQuery);
-    const sorted = sortEntries(filtered, sortConfig);
+    const filtered = filterEntries(source, searchQuery, searchFilters);
+    const sorted = sortEntries(filtered, sortConfig, diskUsage);
     // Limit to 100 entries for performance when doing global search
     return searchGlobal ? sorted.slice(0, 100) : sorted;
-  }, [entries, allEntries, searchQuery, sortConfig, searchGlobal]);
+  }, [entries, allEntries, searchQuery, searchFilters, sortConfig, searchGlobal, diskUsage]);
+
+  // Folder sizes, in name order so the result doesn't depend on the sort
+  const folderPaths = useMemo(
+    () =>
+      (searchGlobal ? [] : entries)
+        .filter((entry) => entry.kind === 'directory')
+        .map((entry) => entry.path)
+        .sort(),
+    [entries, searchGlobal]
+  );
+  useDiskUsage(folderPaths);
 
   const rowVirtualizer = useVirtualizer({
     count: processedEntries.length,
@@ -167,6 +213,40 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
     overscan: 5,
   });
 
+  // Page in more of a huge directory as the end of what is loaded scrolls into view
+  const loadMoreIfNearEnd = useCallback(
+    (element: HTMLElement | null) => {
+      if (!listCursor || searchGlobal || searchContent) return;
+      // No element: the empty state is shown, everything loaded so far is filtered out
+      if (element) {
+        const remaining = element.scrollHeight - element.scrollTop - element.clientHeight;
+        if (remaining >= LOAD_MORE_THRESHOLD) return;
+      }
+      loadMoreEntries();
+    },
+    [listCursor, searchGlobal, searchContent]
+  );
+
+  // Also when a page does not fill the view, e.g. while a filter hides most rows
+  useEffect(() => {
+    if (!isLoadingMore) {
+      loadMoreIfNearEnd(viewMode === 'grid' ? containerRef.current : parentRef.current);
+    }
+  }, [processedEntries, isLoadingMore, viewMode, loadMoreIfNearEnd]);
+
+  const renderSize = (entry: FSEntry) => {
+    if (entry.kind === 'file') {
+      return entry.size !== undefined ? formatFileSize(entry.size) : '--';
+    }
+    const usage = diskUsage[entry.path];
+    if (!usage) return '--';
+    return (
+      <span title={formatItemCount(usage.fileCount, usage.directoryCount)}>
+        {formatFileSize(usage.size)}
+      </span>
+    );
+  };
+
   const handleClick = useCallback(
     (e: React.MouseEvent, entry: FSEntry) => {
       if (e.metaKey || e.ctrlKey) {
@@ -273,9 +353,8 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
         return;
       }
 
-      const files = Array.from(e.dataTransfer.files);
-      if (files.length > 0) {
-        onDrop(files, targetEntry.path);
+      if (e.dataTransfer.types.includes('Files')) {
+        onDrop(getDroppedItems(e.dataTransfer), targetEntry.path);
       }
     },
     [onMove, onDrop]
@@ -292,14 +371,17 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
         return;
       }
 
-      const files = Array.from(e.dataTransfer.files);
-      if (files.length > 0) {
-        onDrop(files, currentPath);
+      if (e.dataTransfer.types.includes('Files')) {
+        onDrop(getDroppedItems(e.dataTransfer), currentPath);
       }
     },
     [onMove, onDrop, currentPath]
   );
 
+  if (searchContent) {
+    return <SearchResults onSearch={onContentSearch} onOpenMatch={onOpenMatch} />;
+  }
+
   if (processedEntries.length === 0) {
     return (
       <div
@@ -314,7 +396,9 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
           <FileQuestion size={48} className={styles.emptyIcon} />
         )}
         <p className={styles.emptyText}>
-          {searchQuery ? 'No matching files' : 'This folder is empty'}
+          {searchQuery || hasActiveFilters(searchFilters)
+            ? 'No matching files'
+            : 'This folder is empty'}
         </p>
         <p className={styles.emptyHint}>Drop files here to import</p>
       </div>
@@ -326,6 +410,7 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
       <div
         ref={containerRef}
         className={styles.gridContainer}
+        onScroll={(e) => loadMoreIfNearEnd(e.currentTarget)}
         onContextMenu={(e) => onContextMenu(e)}
         onDragOver={handleDragOver}
         onDrop={handleDropOnContainer}
@@ -335,7 +420,7 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
         {processedEntries.map((entry) => (
           <div
             key={entry.path}
-            className={`${styles.gridItem} ${selectedPaths.has(entry.path) ? styles.selected : ''}`}
+            className={`${styles.gridItem} ${selectedPaths.has(entry.path) ? styles.selected : ''} ${changedPaths.has(entry.path) ? styles.changed : ''}`}
             onClick={(e) => handleClick(e, entry)}
             onDoubleClick={() => onDoubleClick(entry)}
             onContextMenu={(e) => {
@@ -365,6 +450,7 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
     <div
       className={styles.listContainer}
       ref={parentRef}
+      onScroll={(e) => loadMoreIfNearEnd(e.currentTarget)}
       onContextMenu={(e) => onContextMenu(e)}
       onDragOver={handleDragOver}
       onDrop={handleDropOnContainer}
@@ -386,7 +472,7 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
           return (
             <div
               key={entry.path}
-              className={`${styles.listRow} ${selectedPaths.has(entry.path) ? styles.selected : ''}`}
+              className={`${styles.listRow} ${selectedPaths.has(entry.path) ? styles.selected : ''} ${changedPaths.has(entry.path) ? styles.changed : ''}`}
               style={{
                 position: 'absolute',
                 top: 0,
@@ -419,11 +505,7 @@ export const FileList = forwardRef<FileListHandle, FileListProps>(function FileL
               <span className={styles.colKind}>
                 {getKindLabel(entry.name, entry.kind === 'directory')}
               </span>
-              <span className={styles.colSize}>
-                {entry.kind === 'file' && entry.size !== undefined
-                  ? formatFileSize(entry.size)
-                  : '--'}
-              </span>
+              <span className={styles.colSize}>{renderSize(entry)}</span>
               <span className={styles.colDate}>
                 {entry.lastModified ? formatDate(entry.lastModified) : '--'}
               </span>
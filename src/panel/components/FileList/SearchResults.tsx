@@ -0,0 +1,183 @@
+import { useMemo, type KeyboardEvent, type ReactNode } from 'react';
+import { FileText, Regex, CaseSensitive } from 'lucide-react';
+import { useFileSystemStore } from '../../store';
+import { basename, dirname } from '../../utils/path';
+import type { SearchMatch } from '../../../shared/types';
+import styles from './SearchResults.module.css';
+
+interface SearchResultsProps {
+  onSearch: () => void;
+  onOpenMatch: (path: string, line: number) => void;
+}
+
+interface ResultLine {
+  line: number;
+  text: string;
+  match?: SearchMatch;
+}
+
+interface ResultGroup {
+  path: string;
+  matches: SearchMatch[];
+  lines: ResultLine[];
+}
+
+// Matches of one file with their context, lines shared by neighbouring matches shown once
+function getResultLines(matches: SearchMatch[]): ResultLine[] {
+  const lines = new Map<number, ResultLine>();
+
+  for (const match of matches) {
+    match.before.forEach((text, i) => {
+      const line = match.line - match.before.length + i;
+      if (!lines.has(line)) lines.set(line, { line, text });
+    });
+    lines.set(match.line, { line: match.line, text: match.text, match });
+    match.after.forEach((text, i) => {
+      const line = match.line + 1 + i;
+      if (!lines.has(line)) lines.set(line, { line, text });
+    });
+  }
+
+  return [...lines.values()].sort((a, b) => a.line - b.line);
+}
+
+function renderHighlighted(text: string, ranges: [number, number][]) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([from, to], i) => {
+    if (from > last) parts.push(text.slice(last, from));
+    parts.push(<mark key={i}>{text.slice(from, to)}</mark>);
+    last = to;
+  });
+  parts.push(text.slice(last));
+  return parts;
+}
+
+export function SearchResults({ onSearch, onOpenMatch }: SearchResultsProps) {
+  const {
+    searchQuery,
+    searchMatches,
+    searchSummary,
+    isSearchingContent,
+    contentSearchOptions,
+    setContentSearchOptions,
+  } = useFileSystemStore();
+
+  const groups = useMemo(() => {
+    const byPath = new Map<string, SearchMatch[]>();
+    for (const match of searchMatches) {
+      byPath.set(match.path, [...(byPath.get(match.path) ?? []), match]);
+    }
+    return [...byPath].map(
+      ([path, matches]): ResultGroup => ({
+        path,
+        matches,
+        lines: getResultLines(matches),
+      })
+    );
+  }, [searchMatches]);
+
+  const toggleOption = (option: 'regex' | 'caseSensitive') => {
+    setContentSearchOptions({ [option]: !contentSearchOptions[option] });
+    if (searchQuery) onSearch();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') onSearch();
+  };
+
+  const status = isSearchingContent
+    ? `Searching... ${searchMatches.length} matches so far`
+    : searchSummary
+      ? `${searchSummary.matchCount} matches in ${searchSummary.filesMatched} of ${searchSummary.filesSearched} files` +
+        (searchSummary.truncated ? ' (stopped at the result limit)' : '')
+      : 'Type a query and press Enter';
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.options}>
+        <button
+          className={`${styles.optionToggle} ${contentSearchOptions.regex ? styles.active : ''}`}
+          onClick={() => toggleOption('regex')}
+          title="Use regular expression"
+        >
+          <Regex size={14} />
+        </button>
+        <button
+          className={`${styles.optionToggle} ${contentSearchOptions.caseSensitive ? styles.active : ''}`}
+          onClick={() => toggleOption('caseSensitive')}
+          title="Match case"
+        >
+          <CaseSensitive size={14} />
+        </button>
+        <input
+          type="text"
+          className={styles.optionInput}
+          placeholder="Files to include (e.g. *.json, logs/**)"
+          value={contentSearchOptions.include}
+          onChange={(e) => setContentSearchOptions({ include: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        <input
+          type="text"
+          className={styles.optionInput}
+          placeholder="Files to exclude"
+          value={contentSearchOptions.exclude}
+          onChange={(e) => setContentSearchOptions({ exclude: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        <label className={styles.sizeLabel} title="Larger files are skipped">
+          Max
+          <input
+            type="number"
+            className={styles.sizeInput}
+            min={1}
+            value={contentSearchOptions.maxFileSize}
+            onChange={(e) =>
+              setContentSearchOptions({ maxFileSize: Math.max(1, Number(e.target.value) || 1) })
+            }
+            onKeyDown={handleKeyDown}
+          />
+          MB
+        </label>
+      </div>
+      <div className={styles.status}>{status}</div>
+
+      <div className={styles.results}>
+        {groups.length === 0 && searchSummary && !isSearchingContent && (
+          <p className={styles.empty}>No matches</p>
+        )}
+        {groups.map((group) => (
+          <div key={group.path} className={styles.group}>
+            <button
+              className={styles.groupHeader}
+              onClick={() => onOpenMatch(group.path, group.matches[0].line)}
+              title={group.path}
+            >
+              <FileText size={14} className={styles.fileIcon} />
+              <span className={styles.fileName}>{basename(group.path)}</span>
+              <span className={styles.filePath}>{dirname(group.path)}</span>
+              <span className={styles.matchCount}>{group.matches.length}</span>
+            </button>
+            {group.lines.map((line, i) => (
+              <div key={line.line}>
+                {i > 0 && line.line > group.lines[i - 1].line + 1 && (
+                  <div className={styles.gap}>⋯</div>
+                )}
+                <button
+                  className={`${styles.line} ${line.match ? styles.matchLine : ''}`}
+                  onClick={() => onOpenMatch(group.path, line.line)}
+                >
+                  <span className={styles.lineNumber}>{line.line}</span>
+                  <span className={styles.lineText}>
+                    {line.match ? renderHighlighted(line.text, line.match.ranges) : line.text}
+                  </span>
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
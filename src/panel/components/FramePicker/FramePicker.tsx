@@ -0,0 +1,59 @@
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { AppWindow, Check, ChevronDown } from 'lucide-react';
+import { useFileSystemStore } from '../../store';
+import { TOP_FRAME_ID } from '../../../shared/rpc/messages';
+import type { FrameInfo } from '../../../shared/types';
+import styles from './FramePicker.module.css';
+
+interface FramePickerProps {
+  onOpen: () => void;
+}
+
+function getFrameLabel(frame: FrameInfo): string {
+  return frame.frameId === TOP_FRAME_ID ? 'Top frame' : `Frame ${frame.frameId}`;
+}
+
+export function FramePicker({ onOpen }: FramePickerProps) {
+  const { frames, selectedFrameId, setSelectedFrameId } = useFileSystemStore();
+
+  const selectedFrame = frames.find((f) => f.frameId === selectedFrameId);
+  const isTopFrame = selectedFrameId === TOP_FRAME_ID;
+
+  return (
+    <DropdownMenu.Root onOpenChange={(open) => open && onOpen()}>
+      <DropdownMenu.Trigger asChild>
+        <button
+          className={styles.trigger}
+          title={selectedFrame ? selectedFrame.url : 'Choose which frame to inspect'}
+        >
+          <AppWindow size={14} />
+          <span className={styles.origin}>{selectedFrame?.origin ?? 'Top frame'}</span>
+          {!isTopFrame && <span className={styles.badge}>iframe</span>}
+          <ChevronDown size={12} />
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content className={styles.content} sideOffset={5} align="start">
+          <DropdownMenu.Label className={styles.label}>Inspect frame</DropdownMenu.Label>
+          {frames.map((frame) => (
+            <DropdownMenu.Item
+              key={frame.frameId}
+              className={styles.item}
+              onClick={() => setSelectedFrameId(frame.frameId)}
+            >
+              <span className={styles.check}>
+                {frame.frameId === selectedFrameId && <Check size={14} />}
+              </span>
+              <span className={styles.itemText}>
+                <span className={styles.itemOrigin}>{frame.origin}</span>
+                <span className={styles.itemDetails}>
+                  {getFrameLabel(frame)} · {frame.url}
+                </span>
+              </span>
+            </DropdownMenu.Item>
+          ))}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
@@ -0,0 +1 @@
+export { FramePicker } from './FramePicker';
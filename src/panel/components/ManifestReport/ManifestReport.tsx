@@ -0,0 +1,57 @@
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Dialog } from '../Dialog';
+import type { ManifestReport } from '../../utils/manifest';
+import styles from './ManifestReport.module.css';
+
+interface ManifestReportDialogProps {
+  report: ManifestReport | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SECTIONS = [
+  { key: 'changed', title: 'Changed' },
+  { key: 'missing', title: 'Missing' },
+  { key: 'extra', title: 'Not in manifest' },
+] as const;
+
+export function ManifestReportDialog({ report, onOpenChange }: ManifestReportDialogProps) {
+  if (!report) return null;
+
+  const problems = report.changed.length + report.missing.length + report.extra.length;
+
+  return (
+    <Dialog
+      open
+      onOpenChange={onOpenChange}
+      title="Manifest Verification"
+      description={report.folder}
+    >
+      <div className={`${styles.summary} ${problems === 0 ? styles.ok : styles.failed}`}>
+        {problems === 0 ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+        <span>
+          {problems === 0
+            ? `All ${report.matched} files match`
+            : `${report.matched} match, ${report.changed.length} changed, ${report.missing.length} missing, ${report.extra.length} not in manifest`}
+        </span>
+      </div>
+
+      <div className={styles.sections}>
+        {SECTIONS.map(
+          ({ key, title }) =>
+            report[key].length > 0 && (
+              <div key={key} className={styles.section}>
+                <div className={styles.sectionTitle}>
+                  {title} ({report[key].length})
+                </div>
+                {report[key].map((path) => (
+                  <div key={path} className={styles.path} title={path}>
+                    {path}
+                  </div>
+                ))}
+              </div>
+            )
+        )}
+      </div>
+    </Dialog>
+  );
+}
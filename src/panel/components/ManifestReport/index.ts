@@ -0,0 +1 @@
+export { ManifestReportDialog } from './ManifestReport';
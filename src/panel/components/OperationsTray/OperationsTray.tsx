@@ -0,0 +1,50 @@
+import { X } from 'lucide-react';
+import { useOperationsStore } from '../../store';
+import { formatFileSize } from '../../utils/file';
+import type { Operation } from '../../../shared/types';
+import styles from './OperationsTray.module.css';
+
+function OperationItem({ operation }: { operation: Operation }) {
+  const { cancelOperation } = useOperationsStore();
+  const { progress, cancelling } = operation;
+
+  return (
+    <div className={styles.operation}>
+      <div className={styles.spinner} />
+      <div className={styles.content}>
+        <div className={styles.title}>
+          {operation.title}
+          {cancelling && <span className={styles.cancelling}> — cancelling…</span>}
+        </div>
+        <div className={styles.details}>
+          {progress
+            ? `${progress.filesProcessed} file(s) · ${formatFileSize(progress.bytesProcessed)}`
+            : 'Starting…'}
+          {progress?.currentPath && <span className={styles.path}>{progress.currentPath}</span>}
+        </div>
+      </div>
+      <button
+        className={styles.cancelButton}
+        onClick={() => cancelOperation(operation.id)}
+        disabled={cancelling}
+        title="Cancel"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
+
+export function OperationsTray() {
+  const { operations } = useOperationsStore();
+
+  if (operations.length === 0) return null;
+
+  return (
+    <div className={styles.tray}>
+      {operations.map((operation) => (
+        <OperationItem key={operation.id} operation={operation} />
+      ))}
+    </div>
+  );
+}
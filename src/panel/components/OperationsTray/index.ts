@@ -0,0 +1 @@
+export { OperationsTray } from './OperationsTray';
@@ -0,0 +1,93 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Copy, Hash } from 'lucide-react';
+import { useToastStore } from '../../store';
+import { opfsApi, isCancelledError } from '../../utils/rpc';
+import { getErrorMessage } from '../../utils/errors';
+import styles from './FileHash.module.css';
+
+// Larger files are only hashed on request
+const AUTO_HASH_MAX_SIZE = 32 * 1024 * 1024;
+
+interface FileHashProps {
+  path: string;
+  size: number;
+  // Changes when the file was modified, so the hash is computed again
+  lastModified: number;
+}
+
+export function FileHash({ path, size, lastModified }: FileHashProps) {
+  const { addToast } = useToastStore();
+  const [hash, setHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isHashing, setHashing] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const calculate = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setHash(null);
+    setError(null);
+    setHashing(true);
+
+    opfsApi
+      .hash({ path }, { signal: controller.signal })
+      .then((result) => {
+        if (controllerRef.current === controller) setHash(result.sha256);
+      })
+      .catch((e) => {
+        if (controllerRef.current === controller && !isCancelledError(e)) {
+          setError(getErrorMessage(e));
+        }
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setHashing(false);
+        }
+      });
+  }, [path]);
+
+  // Small files are hashed right away, any running hash stops when the preview moves on
+  useEffect(() => {
+    setHash(null);
+    setError(null);
+    setHashing(false);
+    if (size <= AUTO_HASH_MAX_SIZE) calculate();
+
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [calculate, size, lastModified]);
+
+  const handleCopy = () => {
+    if (!hash) return;
+    navigator.clipboard.writeText(hash);
+    addToast({ type: 'info', title: 'SHA-256 copied', message: hash });
+  };
+
+  return (
+    <div className={styles.hash}>
+      <span className={styles.label}>SHA-256</span>
+      {hash ? (
+        <div className={styles.row}>
+          <code className={styles.value}>{hash}</code>
+          <button className={styles.button} onClick={handleCopy} title="Copy SHA-256">
+            <Copy size={12} />
+          </button>
+        </div>
+      ) : isHashing ? (
+        <span className={styles.status}>Calculating…</span>
+      ) : (
+        <div className={styles.row}>
+          {error && <span className={styles.error}>{error}</span>}
+          <button className={styles.button} onClick={calculate} title="Calculate SHA-256">
+            <Hash size={12} />
+            <span>{error ? 'Retry' : 'Calculate'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,20 +13,25 @@ import {
   HelpCircle,
 } from 'lucide-react';
 import { useFileSystemStore, useToastStore, usePersistedStore } from '../../store';
+import { useDiskUsage } from '../../hooks';
 import { opfsApi } from '../../utils/rpc';
 import { getAssetUrl } from '../../utils/assets';
 import {
   formatFileSize,
+  formatItemCount,
   formatDate,
   getKindLabel,
   isTextFile,
   isImageFile,
   isEditableImage,
+  getGzipContentName,
 } from '../../utils/file';
+import { readGunzipped } from '../../utils/gzip';
 import { basename, extname } from '../../utils/path';
 import { TextEditor } from '../TextEditor';
 import { ImagePreview } from './ImagePreview';
 import { HexViewer } from './HexViewer';
+import { FileHash } from './FileHash';
 import type { FSStats, ReadTextResult, ReadBase64Result } from '../../../shared/types';
 import styles from './Preview.module.css';
 
@@ -37,7 +42,16 @@ interface PreviewProps {
 }
 
 export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps) {
-  const { previewPath, editingPath, setEditingPath, isDirty, setDirty } = useFileSystemStore();
+  const {
+    previewPath,
+    previewLine,
+    editingPath,
+    setEditingPath,
+    isDirty,
+    setDirty,
+    changedPaths,
+    diskUsage,
+  } = useFileSystemStore();
   const { addToast } = useToastStore();
   const { useClownMode } = usePersistedStore();
   const folderIconUrl = useMemo(() => getAssetUrl('images/folder.png'), []);
@@ -50,6 +64,10 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
   const [isLoading, setIsLoading] = useState(false);
   const [editedContent, setEditedContent] = useState<string>('');
 
+  const isDirectory = stats?.kind === 'directory';
+  const folderUsage = previewPath && isDirectory ? diskUsage[previewPath] : undefined;
+  useDiskUsage(previewPath && isDirectory ? [previewPath] : []);
+
   const loadPreview = useCallback(async () => {
     if (!previewPath) {
       setStats(null);
@@ -74,8 +92,13 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
       }
 
       const name = basename(previewPath);
+      const gzipContentName = getGzipContentName(name);
 
-      if (isTextFile(name)) {
+      if (gzipContentName && isTextFile(gzipContentName)) {
+        // Only the compressed bytes are transferred, the preview is read-only
+        const { data, truncated } = await readGunzipped(previewPath, 2 * 1024 * 1024);
+        setTextContent({ text: new TextDecoder().decode(data), truncated });
+      } else if (isTextFile(name)) {
         const text = await opfsApi.readText({ path: previewPath, maxBytes: 2 * 1024 * 1024 });
         setTextContent(text);
         if (editingPath === previewPath) {
@@ -109,6 +132,13 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
     loadPreview();
   }, [loadPreview]);
 
+  // Reload when the page changes the previewed item, unless that would discard unsaved edits
+  useEffect(() => {
+    if (previewPath && changedPaths.has(previewPath) && !isDirty) {
+      loadPreview();
+    }
+  }, [changedPaths, previewPath, isDirty, loadPreview]);
+
   const handleStartEdit = useCallback(() => {
     if (previewPath && textContent) {
       setEditingPath(previewPath);
@@ -198,6 +228,8 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
   const ext = extname(previewPath).slice(1).toLowerCase();
   const canEdit = isTextFile(name) && stats?.kind === 'file';
   const canEditImage = isEditableImage(name);
+  // Gzipped text is highlighted as its content
+  const contentName = getGzipContentName(name) ?? name;
 
   return (
     <div className={styles.preview}>
@@ -240,18 +272,46 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
             <span className={styles.statValue}>{formatFileSize(stats.size)}</span>
           </div>
         )}
-        {stats?.lastModified && (
+        {isDirectory && (
+          <>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Size</span>
+              <span className={styles.statValue}>
+                {folderUsage ? formatFileSize(folderUsage.size) : 'Calculating…'}
+              </span>
+            </div>
+            {folderUsage && (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Contains</span>
+                <span className={styles.statValue}>
+                  {formatItemCount(folderUsage.fileCount, folderUsage.directoryCount)}
+                </span>
+              </div>
+            )}
+          </>
+        )}
+        {/* Folders have no modification time of their own, use their newest file */}
+        {!isDirectory && stats?.lastModified && (
           <div className={styles.stat}>
             <span className={styles.statLabel}>Modified</span>
             <span className={styles.statValue}>{formatDate(stats.lastModified)}</span>
           </div>
         )}
+        {folderUsage && folderUsage.lastModified > 0 && (
+          <div className={styles.stat}>
+            <span className={styles.statLabel}>Modified</span>
+            <span className={styles.statValue}>{formatDate(folderUsage.lastModified)}</span>
+          </div>
+        )}
         {stats?.mimeType && (
           <div className={styles.stat}>
             <span className={styles.statLabel}>MIME</span>
             <span className={styles.statValue}>{stats.mimeType}</span>
           </div>
         )}
+        {stats?.kind === 'file' && (
+          <FileHash path={previewPath} size={stats.size} lastModified={stats.lastModified} />
+        )}
       </div>
 
       {/* Actions */}
@@ -295,7 +355,7 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
         )}
         <button className={styles.actionButton} onClick={() => onExport(previewPath)}>
           <Download size={14} />
-          <span>Export</span>
+          <span>{isDirectory ? 'Export as ZIP' : 'Export'}</span>
         </button>
         <button
           className={`${styles.actionButton} ${styles.danger}`}
@@ -314,6 +374,7 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
             filename={name}
             onChange={handleContentChange}
             onSave={handleSave}
+            line={previewLine}
           />
         )}
         {!isEditing && textContent && (
@@ -321,7 +382,12 @@ export function Preview({ onDelete, onExport, onOpenImageEditor }: PreviewProps)
             {textContent.truncated && (
               <div className={styles.warning}>File is large. Showing first 2MB only.</div>
             )}
-            <TextEditor content={textContent.text} filename={name} readOnly />
+            <TextEditor
+              content={textContent.text}
+              filename={contentName}
+              line={previewLine}
+              readOnly
+            />
           </>
         )}
         {imageContent && (
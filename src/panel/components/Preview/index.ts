@@ -1,3 +1,4 @@
 export { Preview } from './Preview';
 export { ImagePreview } from './ImagePreview';
 export { HexViewer } from './HexViewer';
+export { FileHash } from './FileHash';
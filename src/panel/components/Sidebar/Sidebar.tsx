@@ -1,14 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
-import { HardDrive, Folder, FolderOpen, ChevronRight, ChevronDown } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  HardDrive,
+  Database,
+  Folder,
+  FolderOpen,
+  ChevronRight,
+  ChevronDown,
+  Plus,
+  Trash2,
+  LayoutGrid,
+  Files,
+  ListFilter,
+} from 'lucide-react';
 import { useFileSystemStore, usePersistedStore } from '../../store';
-import { opfsApi } from '../../utils/rpc';
+import { cacheDirectory } from '../../utils/listing';
+import { dirname } from '../../utils/path';
 import { formatFileSize } from '../../utils/file';
+import { describeFilters, type SmartFolder } from '../../utils/filters';
 import type { FSEntry } from '../../../shared/types';
 import styles from './Sidebar.module.css';
 
 interface SidebarProps {
   onNavigate: (path: string) => void;
   onMove: (sourcePaths: string[], targetPath: string) => void;
+  onNewBucket: () => void;
+  onDeleteBucket: (name: string) => void;
+  onShowStorageMap: () => void;
+  onShowDuplicates: () => void;
 }
 
 interface TreeNode {
@@ -116,45 +134,50 @@ function FolderTreeItem({
   );
 }
 
-export function Sidebar({ onNavigate, onMove }: SidebarProps) {
-  const { currentPath, storageEstimate } = useFileSystemStore();
-  const { useClownMode, setUseClownMode } = usePersistedStore();
+export function Sidebar({
+  onNavigate,
+  onMove,
+  onNewBucket,
+  onDeleteBucket,
+  onShowStorageMap,
+  onShowDuplicates,
+}: SidebarProps) {
+  const {
+    currentPath,
+    storageEstimate,
+    buckets,
+    currentBucket,
+    setCurrentBucket,
+    directories,
+    searchQuery,
+    searchGlobal,
+    searchFilters,
+    setSearchQuery,
+    setSearchGlobal,
+    setSearchFilters,
+    setSearchContent,
+  } = useFileSystemStore();
+  const { useClownMode, setUseClownMode, smartFolders, removeSmartFolder } = usePersistedStore();
   const [dragOverPath, setDragOverPath] = useState<string | null>(null);
-  const [treeData, setTreeData] = useState<TreeNode[]>([]);
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['/']));
 
   const usagePercent = storageEstimate ? (storageEstimate.usage / storageEstimate.quota) * 100 : 0;
 
-  // Load directory entries for a given path
-  const loadDirectory = useCallback(async (path: string): Promise<FSEntry[]> => {
-    try {
-      const result = await opfsApi.list({ path, depth: 1 });
-      // Filter to only directories and sort alphabetically
-      return result
+  // Folders come from the shared directory cache, expanded ones are listed when missing or stale
+  const treeData = useMemo(() => {
+    const buildNodes = (path: string): TreeNode[] | null => {
+      const cached = directories[path];
+      if (!cached) return null;
+      return cached.entries
         .filter((e) => e.kind === 'directory')
-        .sort((a, b) => a.name.localeCompare(b.name));
-    } catch {
-      return [];
-    }
-  }, []);
-
-  // Build tree node from entries
-  const buildTreeNodes = useCallback((entries: FSEntry[], expanded: Set<string>): TreeNode[] => {
-    return entries.map((entry) => ({
-      entry,
-      children: expanded.has(entry.path) ? null : null, // Will be loaded when expanded
-      isExpanded: expanded.has(entry.path),
-    }));
-  }, []);
-
-  // Load root level on mount
-  useEffect(() => {
-    async function loadRoot() {
-      const entries = await loadDirectory('/');
-      setTreeData(buildTreeNodes(entries, expandedPaths));
-    }
-    loadRoot();
-  }, []);
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((entry) => {
+          const isExpanded = expandedPaths.has(entry.path);
+          return { entry, isExpanded, children: isExpanded ? buildNodes(entry.path) : null };
+        });
+    };
+    return buildNodes('/') ?? [];
+  }, [directories, expandedPaths]);
 
   // Auto-expand path to current directory
   useEffect(() => {
@@ -178,43 +201,18 @@ export function Sidebar({ onNavigate, onMove }: SidebarProps) {
     });
   }, [currentPath]);
 
-  // Load children for expanded paths
+  // List the visible expanded folders the cache does not have, or has out of date.
+  // The open folder is listed by the file list
   useEffect(() => {
-    async function updateTreeWithExpanded() {
-      const updateNode = async (nodes: TreeNode[]): Promise<TreeNode[]> => {
-        const updated: TreeNode[] = [];
-        for (const node of nodes) {
-          const isExpanded = expandedPaths.has(node.entry.path);
-          let children = node.children;
-
-          if (isExpanded && children === null) {
-            // Need to load children
-            const entries = await loadDirectory(node.entry.path);
-            children = buildTreeNodes(entries, expandedPaths);
-          } else if (isExpanded && children) {
-            // Recursively update children
-            children = await updateNode(children);
-          } else if (!isExpanded) {
-            children = null;
-          }
-
-          updated.push({
-            ...node,
-            isExpanded,
-            children,
-          });
-        }
-        return updated;
-      };
-
-      const entries = await loadDirectory('/');
-      let newTree = buildTreeNodes(entries, expandedPaths);
-      newTree = await updateNode(newTree);
-      setTreeData(newTree);
+    const isVisible = (path: string): boolean =>
+      path === '/' || (expandedPaths.has(dirname(path)) && isVisible(dirname(path)));
+    for (const path of expandedPaths) {
+      const cached = directories[path];
+      if ((!cached || cached.stale) && path !== currentPath && isVisible(path)) {
+        cacheDirectory(path);
+      }
     }
-
-    updateTreeWithExpanded();
-  }, [expandedPaths, loadDirectory, buildTreeNodes]);
+  }, [directories, expandedPaths, currentPath]);
 
   const handleToggle = useCallback((path: string) => {
     setExpandedPaths((prev) => {
@@ -235,9 +233,17 @@ export function Sidebar({ onNavigate, onMove }: SidebarProps) {
     [onNavigate]
   );
 
-  const handleRootClick = useCallback(() => {
-    onNavigate('/');
-  }, [onNavigate]);
+  // Each root has its own tree; switching roots remounts the Sidebar and reloads it
+  const handleRootClick = useCallback(
+    (bucket: string | null) => {
+      if (bucket === currentBucket) {
+        onNavigate('/');
+      } else {
+        setCurrentBucket(bucket);
+      }
+    },
+    [currentBucket, onNavigate, setCurrentBucket]
+  );
 
   const handleRootDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -265,48 +271,147 @@ export function Sidebar({ onNavigate, onMove }: SidebarProps) {
     [onMove]
   );
 
+  const renderRoot = (bucket: string | null, icon: React.ReactNode, name: string) => {
+    const isActive = bucket === currentBucket;
+    const isSelected = isActive && currentPath === '/';
+
+    return (
+      <>
+        <div className={styles.rootRow}>
+          <button
+            className={`${styles.treeItem} ${styles.rootItem} ${isSelected ? styles.selected : ''} ${isActive && dragOverPath === '/' ? styles.dragOver : ''}`}
+            onClick={() => handleRootClick(bucket)}
+            // Moving between roots is not supported, only the active root accepts drops
+            {...(isActive && {
+              onDragEnter: handleRootDragEnter,
+              onDragLeave: handleRootDragLeave,
+              onDragOver: handleRootDragOver,
+              onDrop: handleRootDrop,
+            })}
+          >
+            {icon}
+            <span className={styles.itemName}>{name}</span>
+          </button>
+          {bucket !== null && (
+            <button
+              className={styles.rootAction}
+              onClick={() => onDeleteBucket(bucket)}
+              title="Delete bucket"
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+
+        {/* Folder tree */}
+        {isActive && (
+          <div className={styles.treeContent}>
+            {treeData.map((node) => (
+              <FolderTreeItem
+                key={node.entry.path}
+                node={node}
+                level={0}
+                currentPath={currentPath}
+                onToggle={handleToggle}
+                onSelect={handleSelect}
+                onMove={onMove}
+                dragOverPath={dragOverPath}
+                onDragHover={setDragOverPath}
+              />
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const activeBucket = buckets.find((b) => b.name === currentBucket);
+
+  // A smart folder is a saved search: opening it restores the query, scope and filters
+  const openSmartFolder = (folder: SmartFolder) => {
+    setSearchContent(false);
+    setSearchQuery(folder.query);
+    setSearchGlobal(folder.global);
+    setSearchFilters(folder.filters);
+  };
+
+  const isSmartFolderOpen = (folder: SmartFolder) =>
+    folder.query === searchQuery &&
+    folder.global === searchGlobal &&
+    JSON.stringify(folder.filters) === JSON.stringify(searchFilters);
+
   return (
     <div className={styles.sidebar}>
       <div className={styles.treeContainer}>
-        {/* Root item */}
-        <button
-          className={`${styles.treeItem} ${styles.rootItem} ${currentPath === '/' ? styles.selected : ''} ${dragOverPath === '/' ? styles.dragOver : ''}`}
-          onClick={handleRootClick}
-          onDragEnter={handleRootDragEnter}
-          onDragLeave={handleRootDragLeave}
-          onDragOver={handleRootDragOver}
-          onDrop={handleRootDrop}
-        >
-          <HardDrive size={16} />
-          <span className={styles.itemName}>OPFS</span>
-        </button>
-
-        {/* Folder tree */}
-        <div className={styles.treeContent}>
-          {treeData.map((node) => (
-            <FolderTreeItem
-              key={node.entry.path}
-              node={node}
-              level={0}
-              currentPath={currentPath}
-              onToggle={handleToggle}
-              onSelect={handleSelect}
-              onMove={onMove}
-              dragOverPath={dragOverPath}
-              onDragHover={setDragOverPath}
-            />
-          ))}
+        {/* Default OPFS root */}
+        {renderRoot(null, <HardDrive size={16} />, 'OPFS')}
+
+        {/* Storage Buckets, each its own root */}
+        <div className={styles.sectionHeader}>
+          <span>Storage Buckets</span>
+          <button className={styles.sectionAction} onClick={onNewBucket} title="New bucket">
+            <Plus size={14} />
+          </button>
         </div>
+        {buckets.map((bucket) => (
+          <div key={bucket.name}>
+            {renderRoot(bucket.name, <Database size={16} />, bucket.name)}
+          </div>
+        ))}
+
+        {/* Saved searches */}
+        {smartFolders.length > 0 && (
+          <>
+            <div className={styles.sectionHeader}>
+              <span>Smart Folders</span>
+            </div>
+            {smartFolders.map((folder) => (
+              <div key={folder.id} className={styles.rootRow}>
+                <button
+                  className={`${styles.treeItem} ${styles.smartFolder} ${isSmartFolderOpen(folder) ? styles.selected : ''}`}
+                  onClick={() => openSmartFolder(folder)}
+                  title={[folder.query, describeFilters(folder.filters)].filter(Boolean).join(', ')}
+                >
+                  <ListFilter size={16} />
+                  <span className={styles.itemName}>{folder.name}</span>
+                </button>
+                <button
+                  className={styles.rootAction}
+                  onClick={() => removeSmartFolder(folder.id)}
+                  title="Remove smart folder"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </>
+        )}
       </div>
 
       <div className={styles.storageSection}>
         <div className={styles.storageHeader}>
-          <span>Storage</span>
-          {storageEstimate && (
-            <span className={styles.storageText}>
-              {formatFileSize(storageEstimate.usage)} of {formatFileSize(storageEstimate.quota)}
-            </span>
-          )}
+          <span>{activeBucket ? activeBucket.name : 'Storage'}</span>
+          <span className={styles.storageMeta}>
+            {storageEstimate && (
+              <span className={styles.storageText}>
+                {formatFileSize(storageEstimate.usage)} of {formatFileSize(storageEstimate.quota)}
+              </span>
+            )}
+            <button
+              className={styles.sectionAction}
+              onClick={onShowStorageMap}
+              title="Show what uses the space"
+            >
+              <LayoutGrid size={12} />
+            </button>
+            <button
+              className={styles.sectionAction}
+              onClick={onShowDuplicates}
+              title="Find duplicate files"
+            >
+              <Files size={12} />
+            </button>
+          </span>
         </div>
         <div className={styles.storageBar}>
           <div
@@ -314,6 +419,19 @@ export function Sidebar({ onNavigate, onMove }: SidebarProps) {
             style={{ width: `${Math.min(usagePercent, 100)}%` }}
           />
         </div>
+        {activeBucket && (
+          <div className={styles.bucketInfo}>
+            <span>{activeBucket.persisted ? 'Persisted' : 'Best-effort'}</span>
+            <span>·</span>
+            <span>{activeBucket.durability === 'strict' ? 'Strict' : 'Relaxed'} durability</span>
+            {activeBucket.expires !== null && (
+              <>
+                <span>·</span>
+                <span>Expires {new Date(activeBucket.expires).toLocaleDateString()}</span>
+              </>
+            )}
+          </div>
+        )}
         <label className={styles.iconToggle}>
           <input
             type="checkbox"
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, RefreshCw } from 'lucide-react';
+import { useFileSystemStore } from '../../store';
+import { opfsApi } from '../../utils/rpc';
+import { getErrorMessage } from '../../utils/errors';
+import { formatFileSize } from '../../utils/file';
+import { buildSizeTree, layoutTreemap, type SizeNode } from '../../utils/treemap';
+import type { FileKind } from '../../../shared/types';
+import styles from './StorageTreemap.module.css';
+
+interface StorageTreemapProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenPath: (path: string, kind: FileKind) => void;
+}
+
+interface HoverState {
+  node: SizeNode;
+  x: number;
+  y: number;
+}
+
+// Blocks smaller than this get no label
+const MIN_LABEL_WIDTH = 40;
+const MIN_LABEL_HEIGHT = 14;
+
+// Each top-level item gets its own hue, deeper levels get lighter
+function getBlockColor(hue: number, depth: number, kind: FileKind): string {
+  const lightness = Math.min(40 + depth * 10, 80);
+  return kind === 'directory'
+    ? `hsl(${hue} 45% ${lightness}% / 0.35)`
+    : `hsl(${hue} 55% ${lightness}%)`;
+}
+
+export function StorageTreemap({ open, onOpenChange, onOpenPath }: StorageTreemapProps) {
+  const { currentBucket } = useFileSystemStore();
+  const [tree, setTree] = useState<SizeNode | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scanCount, setScanCount] = useState(0);
+  const [mapElement, setMapElement] = useState<HTMLDivElement | null>(null);
+  const [mapSize, setMapSize] = useState({ width: 0, height: 0 });
+  const [hovered, setHovered] = useState<HoverState | null>(null);
+
+  // Scan the whole tree every time the map is opened or refreshed
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    opfsApi
+      .list({ path: '/', depth: 999 })
+      .then((entries) => {
+        if (!cancelled) setTree(buildSizeTree(entries));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, scanCount]);
+
+  // The map fills the dialog, lay it out again when the dialog is resized
+  useEffect(() => {
+    if (!mapElement) return;
+
+    const measure = () =>
+      setMapSize({ width: mapElement.clientWidth, height: mapElement.clientHeight });
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(mapElement);
+    return () => observer.disconnect();
+  }, [mapElement]);
+
+  const rects = useMemo(
+    () => (tree && mapSize.width > 0 ? layoutTreemap(tree, mapSize.width, mapSize.height) : []),
+    [tree, mapSize]
+  );
+
+  const hues = useMemo(() => {
+    const map = new Map<string, number>();
+    tree?.children.forEach((child, index) => map.set(child.path, (index * 137.5) % 360));
+    return map;
+  }, [tree]);
+
+  const getHue = (path: string) => hues.get('/' + path.split('/')[1]) ?? 0;
+
+  const percentOf = (node: SizeNode) =>
+    tree && tree.size > 0 ? ((node.size / tree.size) * 100).toFixed(1) : '0';
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <Dialog.Title className={styles.title}>
+              Storage Map{currentBucket ? ` - ${currentBucket}` : ''}
+            </Dialog.Title>
+            <div className={styles.headerActions}>
+              {tree && <span className={styles.total}>{formatFileSize(tree.size)} in files</span>}
+              <button
+                className={`${styles.iconButton} ${isLoading ? styles.spinning : ''}`}
+                onClick={() => setScanCount((count) => count + 1)}
+                disabled={isLoading}
+                title="Scan again"
+              >
+                <RefreshCw size={14} />
+              </button>
+              <Dialog.Close asChild>
+                <button className={styles.iconButton}>
+                  <X size={18} />
+                </button>
+              </Dialog.Close>
+            </div>
+          </div>
+          <Dialog.Description className={styles.description}>
+            Click a block to open it. Folders show their contents where there is room.
+          </Dialog.Description>
+
+          <div className={styles.body}>
+            {error ? (
+              <div className={styles.message}>{error}</div>
+            ) : !tree ? (
+              <div className={styles.message}>Scanning...</div>
+            ) : tree.size === 0 ? (
+              <div className={styles.message}>No files take up space yet</div>
+            ) : (
+              <div ref={setMapElement} className={styles.map} onMouseLeave={() => setHovered(null)}>
+                {rects.map((rect) => (
+                  <button
+                    key={rect.node.path}
+                    className={`${styles.block} ${rect.node.kind === 'directory' ? styles.folder : ''}`}
+                    style={{
+                      left: rect.x,
+                      top: rect.y,
+                      width: rect.width,
+                      height: rect.height,
+                      backgroundColor: getBlockColor(
+                        getHue(rect.node.path),
+                        rect.depth,
+                        rect.node.kind
+                      ),
+                    }}
+                    onMouseMove={(e) => {
+                      const bounds = mapElement?.getBoundingClientRect();
+                      setHovered({
+                        node: rect.node,
+                        x: e.clientX - (bounds?.left ?? 0),
+                        y: e.clientY - (bounds?.top ?? 0),
+                      });
+                    }}
+                    onClick={() => onOpenPath(rect.node.path, rect.node.kind)}
+                  >
+                    {rect.width >= MIN_LABEL_WIDTH && rect.height >= MIN_LABEL_HEIGHT && (
+                      <span className={styles.label}>{rect.node.name}</span>
+                    )}
+                  </button>
+                ))}
+
+                {hovered && (
+                  <div
+                    className={styles.tooltip}
+                    style={{
+                      left: Math.min(hovered.x + 12, Math.max(mapSize.width - 240, 0)),
+                      top: Math.min(hovered.y + 12, Math.max(mapSize.height - 56, 0)),
+                    }}
+                  >
+                    <div className={styles.tooltipPath}>{hovered.node.path}</div>
+                    <div className={styles.tooltipSize}>
+                      {formatFileSize(hovered.node.size)} · {percentOf(hovered.node)}% of total
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1 @@
+export { StorageTreemap } from './StorageTreemap';
@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, FolderSync, Upload, Download, Unlink } from 'lucide-react';
+import { useFileSystemStore, useToastStore } from '../../store';
+import { isCancelledError } from '../../utils/rpc';
+import { startOperationTracker } from '../../utils/operations';
+import { getErrorMessage } from '../../utils/errors';
+import { basename } from '../../utils/path';
+import {
+  applySync,
+  createSyncPlan,
+  deletePairing,
+  ensurePermission,
+  getPairing,
+  savePairing,
+  type SyncCompareMode,
+  type SyncDirection,
+  type SyncPairing,
+  type SyncPlan,
+} from '../../utils/sync';
+import type { ConflictResolution } from '../../../shared/types';
+import styles from './SyncDialog.module.css';
+
+interface SyncDialogProps {
+  // The OPFS folder to sync, null when closed
+  path: string | null;
+  onOpenChange: (open: boolean) => void;
+  // OPFS content changed
+  onSynced: () => void;
+}
+
+const SECTIONS = [
+  { key: 'added', title: 'Added' },
+  { key: 'changed', title: 'Changed' },
+  { key: 'deleted', title: 'Only in target' },
+] as const;
+
+export function SyncDialog({ path, onOpenChange, onSynced }: SyncDialogProps) {
+  const { frames, selectedFrameId, currentBucket } = useFileSystemStore();
+  const { addToast } = useToastStore();
+  const origin = frames.find((frame) => frame.frameId === selectedFrameId)?.origin ?? null;
+
+  const [pairing, setPairing] = useState<SyncPairing | null>(null);
+  const [compareMode, setCompareMode] = useState<SyncCompareMode>('size');
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [resolution, setResolution] = useState<ConflictResolution>('replace');
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Pairings are remembered per origin, bucket and folder
+  useEffect(() => {
+    setPairing(null);
+    setPlan(null);
+    setStatus(null);
+    if (!path || !origin) return;
+
+    let cancelled = false;
+    getPairing(origin, currentBucket, path)
+      .then((found) => {
+        if (cancelled || !found) return;
+        setPairing(found);
+        setCompareMode(found.compareMode);
+      })
+      .catch((err) => !cancelled && setStatus(getErrorMessage(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [path, origin, currentBucket]);
+
+  const handleChooseFolder = async () => {
+    if (!path || !origin) return;
+    try {
+      const handle = await window.showDirectoryPicker({
+        id: 'opfs-finder-sync',
+        mode: 'readwrite',
+      });
+      const paired: SyncPairing = { origin, bucket: currentBucket, path, handle, compareMode };
+      await savePairing(paired);
+      setPairing(paired);
+      setPlan(null);
+      setStatus(null);
+    } catch (err) {
+      // Closing the picker rejects with an AbortError
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      setStatus(getErrorMessage(err));
+    }
+  };
+
+  const handleUnpair = async () => {
+    if (!pairing) return;
+    await deletePairing(pairing.origin, pairing.bucket, pairing.path).catch(() => {
+      // Already gone
+    });
+    setPairing(null);
+    setPlan(null);
+  };
+
+  const handleCompareModeChange = (mode: SyncCompareMode) => {
+    setCompareMode(mode);
+    setPlan(null);
+    if (pairing) {
+      const updated = { ...pairing, compareMode: mode };
+      setPairing(updated);
+      savePairing(updated).catch((err) => setStatus(getErrorMessage(err)));
+    }
+  };
+
+  const handlePreview = async (direction: SyncDirection) => {
+    if (!pairing) return;
+    const tracker = startOperationTracker(`Comparing with ${pairing.handle.name}`);
+    setIsBusy(true);
+    setPlan(null);
+    setStatus('Comparing...');
+    try {
+      await ensurePermission(pairing.handle);
+      setPlan(
+        await createSyncPlan(
+          direction,
+          pairing.handle,
+          pairing.path,
+          compareMode,
+          tracker.requestOptions
+        )
+      );
+      setStatus(null);
+    } catch (err) {
+      setStatus(isCancelledError(err) ? 'Comparison cancelled' : getErrorMessage(err));
+    } finally {
+      tracker.finish();
+      setIsBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pairing || !plan) return;
+    const title = plan.direction === 'push' ? 'Pushed' : 'Pulled';
+    const tracker = startOperationTracker(
+      plan.direction === 'push'
+        ? `Pushing ${pairing.handle.name} to ${basename(pairing.path) || 'OPFS'}`
+        : `Pulling ${basename(pairing.path) || 'OPFS'} to ${pairing.handle.name}`
+    );
+    setIsBusy(true);
+    try {
+      const failures = await applySync(
+        plan,
+        pairing.handle,
+        pairing.path,
+        { resolution, deleteMissing },
+        tracker
+      );
+      for (const { path: failedPath, error } of failures) {
+        addToast({
+          type: 'error',
+          title: 'Failed to sync',
+          message: getErrorMessage(error),
+          details: `Path: ${failedPath}`,
+        });
+      }
+      addToast({ type: 'success', title, message: pairing.handle.name });
+      setPlan(null);
+    } catch (err) {
+      addToast(
+        isCancelledError(err)
+          ? { type: 'info', title: 'Sync cancelled' }
+          : { type: 'error', title: 'Failed to sync', message: getErrorMessage(err) }
+      );
+    } finally {
+      tracker.finish();
+      setIsBusy(false);
+      onSynced();
+    }
+  };
+
+  const writeCount = plan
+    ? plan.added.length + (resolution === 'skip' ? 0 : plan.changed.length)
+    : 0;
+  const deleteCount = plan && deleteMissing ? plan.deleted.length : 0;
+  const source = plan?.direction === 'push' ? 'the local folder' : 'OPFS';
+
+  return (
+    <Dialog.Root open={path !== null} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <Dialog.Title className={styles.title}>Sync with Local Folder</Dialog.Title>
+            <Dialog.Close asChild>
+              <button className={styles.iconButton}>
+                <X size={18} />
+              </button>
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className={styles.description}>
+            Push copies the local folder into {path}, pull copies {path} into the local folder.
+            Nothing changes until the preview is applied.
+          </Dialog.Description>
+
+          <div className={styles.settings}>
+            <div className={styles.row}>
+              <span className={styles.label}>Local folder</span>
+              <span className={styles.folder}>
+                <FolderSync size={14} />
+                {pairing ? pairing.handle.name : 'Not paired'}
+              </span>
+              <button
+                className={styles.button}
+                onClick={handleChooseFolder}
+                disabled={!origin || isBusy}
+              >
+                {pairing ? 'Change...' : 'Choose...'}
+              </button>
+              {pairing && (
+                <button
+                  className={styles.iconButton}
+                  onClick={handleUnpair}
+                  disabled={isBusy}
+                  title="Forget this pairing"
+                >
+                  <Unlink size={14} />
+                </button>
+              )}
+            </div>
+            <div className={styles.row}>
+              <span className={styles.label}>Compare by</span>
+              <select
+                className={styles.select}
+                value={compareMode}
+                onChange={(e) => handleCompareModeChange(e.target.value as SyncCompareMode)}
+                disabled={isBusy}
+              >
+                <option value="size">Size</option>
+                <option value="mtime">Size and modification time</option>
+                <option value="hash">Size and SHA-256</option>
+              </select>
+              <div className={styles.directions}>
+                <button
+                  className={styles.button}
+                  onClick={() => handlePreview('push')}
+                  disabled={!pairing || isBusy}
+                >
+                  <Upload size={14} />
+                  <span>Preview Push</span>
+                </button>
+                <button
+                  className={styles.button}
+                  onClick={() => handlePreview('pull')}
+                  disabled={!pairing || isBusy}
+                >
+                  <Download size={14} />
+                  <span>Preview Pull</span>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className={styles.body}>
+            {!origin ? (
+              <div className={styles.message}>
+                The origin of the inspected page is not known yet
+              </div>
+            ) : status ? (
+              <div className={styles.message}>{status}</div>
+            ) : !plan ? (
+              <div className={styles.message}>
+                {pairing ? 'Preview a push or pull to see what changes' : 'Choose a local folder'}
+              </div>
+            ) : (
+              <>
+                <div className={styles.summary}>
+                  {plan.added.length} added, {plan.changed.length} changed, {plan.deleted.length}{' '}
+                  only in target, {plan.unchanged.length} unchanged
+                </div>
+                {SECTIONS.map(
+                  ({ key, title }) =>
+                    plan[key].length > 0 && (
+                      <div key={key} className={styles.section}>
+                        <div className={styles.sectionTitle}>
+                          {title} ({plan[key].length})
+                        </div>
+                        {plan[key].map((file) => (
+                          <div key={file} className={styles.path} title={file}>
+                            {file}
+                          </div>
+                        ))}
+                      </div>
+                    )
+                )}
+              </>
+            )}
+          </div>
+
+          {plan && (
+            <div className={styles.footer}>
+              <label className={styles.option}>
+                Changed files
+                <select
+                  className={styles.select}
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value as ConflictResolution)}
+                  disabled={isBusy}
+                >
+                  <option value="replace">Replace</option>
+                  <option value="keep-both">Keep both</option>
+                  <option value="skip">Skip</option>
+                </select>
+              </label>
+              <label className={styles.option}>
+                <input
+                  type="checkbox"
+                  checked={deleteMissing}
+                  onChange={(e) => setDeleteMissing(e.target.checked)}
+                  disabled={isBusy || plan.deleted.length === 0}
+                />
+                Delete files not in {source}
+              </label>
+              <button
+                className={styles.applyButton}
+                onClick={handleApply}
+                disabled={isBusy || writeCount + deleteCount === 0}
+              >
+                {plan.direction === 'push' ? <Upload size={14} /> : <Download size={14} />}
+                <span>
+                  {plan.direction === 'push' ? 'Push' : 'Pull'} {writeCount} file(s)
+                  {deleteCount > 0 && `, delete ${deleteCount}`}
+                </span>
+              </button>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
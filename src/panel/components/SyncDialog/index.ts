@@ -0,0 +1 @@
+export { SyncDialog } from './SyncDialog';
@@ -35,6 +35,8 @@ interface TextEditorProps {
   onChange?: (content: string) => void;
   onSave?: () => void;
   readOnly?: boolean;
+  // 1-based line to put the cursor on and scroll into view
+  line?: number | null;
 }
 
 const themeCompartment = new Compartment();
@@ -100,6 +102,7 @@ export function TextEditor({
   onChange,
   onSave,
   readOnly = false,
+  line,
 }: TextEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<EditorView | null>(null);
@@ -199,6 +202,18 @@ export function TextEditor({
     }
   }, [readOnly]);
 
+  // Jump to a line, e.g. the one a search match was found on
+  useEffect(() => {
+    const view = editorRef.current;
+    if (!view || !line) return;
+
+    const { from } = view.state.doc.line(Math.min(line, view.state.doc.lines));
+    view.dispatch({
+      selection: { anchor: from },
+      effects: EditorView.scrollIntoView(from, { y: 'center' }),
+    });
+  }, [line]);
+
   // Update language when filename changes
   useEffect(() => {
     if (editorRef.current) {
@@ -0,0 +1,162 @@
+import { Regex, X, BookmarkPlus } from 'lucide-react';
+import { useFileSystemStore } from '../../store';
+import { parseFileSize, type FileCategory } from '../../utils/file';
+import { hasActiveFilters, isValidRegex, type ModifiedPreset } from '../../utils/filters';
+import type { FileKind } from '../../../shared/types';
+import styles from './FilterBar.module.css';
+
+interface FilterBarProps {
+  onSaveSmartFolder: () => void;
+}
+
+const CATEGORIES: FileCategory[] = [
+  'image',
+  'text',
+  'code',
+  'video',
+  'audio',
+  'document',
+  'archive',
+  'other',
+];
+
+const MODIFIED_OPTIONS: Record<ModifiedPreset, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Past 7 days',
+  month: 'Past 30 days',
+  custom: 'Between...',
+};
+
+export function FilterBar({ onSaveSmartFolder }: FilterBarProps) {
+  const {
+    searchQuery,
+    searchFilters: filters,
+    setSearchFilters,
+    resetSearchFilters,
+  } = useFileSystemStore();
+
+  const isNameInvalid = filters.nameRegex && !!filters.name && !isValidRegex(filters.name);
+  const isSizeInvalid = (value: string) => value.trim() !== '' && parseFileSize(value) === null;
+
+  const toggleCategory = (category: FileCategory) => {
+    setSearchFilters({
+      categories: filters.categories.includes(category)
+        ? filters.categories.filter((c) => c !== category)
+        : [...filters.categories, category],
+    });
+  };
+
+  return (
+    <div className={styles.filterBar}>
+      <div className={styles.field}>
+        <input
+          type="text"
+          className={`${styles.input} ${styles.nameInput} ${isNameInvalid ? styles.invalid : ''}`}
+          placeholder={filters.nameRegex ? 'Name regex' : 'Name glob, e.g. *.json'}
+          value={filters.name}
+          onChange={(e) => setSearchFilters({ name: e.target.value })}
+        />
+        <button
+          className={`${styles.toggle} ${filters.nameRegex ? styles.active : ''}`}
+          onClick={() => setSearchFilters({ nameRegex: !filters.nameRegex })}
+          title="Use regular expression"
+        >
+          <Regex size={14} />
+        </button>
+      </div>
+
+      <select
+        className={styles.select}
+        value={filters.kind}
+        onChange={(e) => setSearchFilters({ kind: e.target.value as FileKind | 'any' })}
+      >
+        <option value="any">Files & folders</option>
+        <option value="file">Files</option>
+        <option value="directory">Folders</option>
+      </select>
+
+      <div className={styles.categories}>
+        {CATEGORIES.map((category) => (
+          <button
+            key={category}
+            className={`${styles.chip} ${filters.categories.includes(category) ? styles.active : ''}`}
+            onClick={() => toggleCategory(category)}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.field}>
+        <input
+          type="text"
+          className={`${styles.input} ${styles.sizeInput} ${isSizeInvalid(filters.minSize) ? styles.invalid : ''}`}
+          placeholder="Min size"
+          title="e.g. 500KB or 1.5MB"
+          value={filters.minSize}
+          onChange={(e) => setSearchFilters({ minSize: e.target.value })}
+        />
+        <span className={styles.separator}>–</span>
+        <input
+          type="text"
+          className={`${styles.input} ${styles.sizeInput} ${isSizeInvalid(filters.maxSize) ? styles.invalid : ''}`}
+          placeholder="Max size"
+          title="e.g. 500KB or 1.5MB"
+          value={filters.maxSize}
+          onChange={(e) => setSearchFilters({ maxSize: e.target.value })}
+        />
+      </div>
+
+      <div className={styles.field}>
+        <select
+          className={styles.select}
+          value={filters.modified}
+          onChange={(e) => setSearchFilters({ modified: e.target.value as ModifiedPreset })}
+        >
+          {(Object.keys(MODIFIED_OPTIONS) as ModifiedPreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {MODIFIED_OPTIONS[preset]}
+            </option>
+          ))}
+        </select>
+        {filters.modified === 'custom' && (
+          <>
+            <input
+              type="date"
+              className={styles.input}
+              value={filters.modifiedFrom}
+              onChange={(e) => setSearchFilters({ modifiedFrom: e.target.value })}
+            />
+            <span className={styles.separator}>–</span>
+            <input
+              type="date"
+              className={styles.input}
+              value={filters.modifiedTo}
+              onChange={(e) => setSearchFilters({ modifiedTo: e.target.value })}
+            />
+          </>
+        )}
+      </div>
+
+      <div className={styles.actions}>
+        <button
+          className={styles.actionButton}
+          onClick={onSaveSmartFolder}
+          disabled={!searchQuery && !hasActiveFilters(filters)}
+          title="Save as smart folder"
+        >
+          <BookmarkPlus size={14} />
+        </button>
+        <button
+          className={styles.actionButton}
+          onClick={resetSearchFilters}
+          disabled={!hasActiveFilters(filters)}
+          title="Clear filters"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
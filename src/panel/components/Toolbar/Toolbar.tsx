@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import {
   Search,
@@ -6,14 +7,22 @@ import {
   FolderPlus,
   FilePlus,
   Upload,
+  FolderUp,
+  FolderSync,
+  FileArchive,
   List,
   Grid,
   ArrowUpDown,
   ChevronDown,
   Globe,
   FolderSearch,
+  FileSearch,
+  ListFilter,
 } from 'lucide-react';
+import { FramePicker } from '../FramePicker';
+import { FilterBar } from './FilterBar';
 import { useFileSystemStore } from '../../store';
+import { hasActiveFilters } from '../../utils/filters';
 import type { SortField } from '../../../shared/types';
 import styles from './Toolbar.module.css';
 
@@ -22,9 +31,27 @@ interface ToolbarProps {
   onNewFolder: () => void;
   onNewFile: () => void;
   onImport: () => void;
+  onImportFolder: () => void;
+  onImportZip: () => void;
+  // Sync the current folder with one on disk
+  onSyncFolder: () => void;
+  onRefreshFrames: () => void;
+  onContentSearch: () => void;
+  onSaveSmartFolder: () => void;
 }
 
-export function Toolbar({ onRefresh, onNewFolder, onNewFile, onImport }: ToolbarProps) {
+export function Toolbar({
+  onRefresh,
+  onNewFolder,
+  onNewFile,
+  onImport,
+  onImportFolder,
+  onImportZip,
+  onSyncFolder,
+  onRefreshFrames,
+  onContentSearch,
+  onSaveSmartFolder,
+}: ToolbarProps) {
   const {
     viewMode,
     setViewMode,
@@ -34,9 +61,15 @@ export function Toolbar({ onRefresh, onNewFolder, onNewFile, onImport }: Toolbar
     setSearchQuery,
     searchGlobal,
     setSearchGlobal,
+    searchFilters,
+    searchContent,
+    setSearchContent,
+    isSearchingContent,
     isLoading,
     isLoadingGlobal,
   } = useFileSystemStore();
+  const [showFilters, setShowFilters] = useState(false);
+  const filtersActive = hasActiveFilters(searchFilters);
 
   const handleSortChange = (field: SortField) => {
     setSortConfig({
@@ -45,6 +78,14 @@ export function Toolbar({ onRefresh, onNewFolder, onNewFile, onImport }: Toolbar
     });
   };
 
+  const searchPlaceholder = searchContent
+    ? searchGlobal
+      ? 'Search contents of all files...'
+      : 'Search contents in folder...'
+    : searchGlobal
+      ? 'Search all files...'
+      : 'Search...';
+
   const sortLabels: Record<SortField, string> = {
     name: 'Name',
     size: 'Size',
@@ -53,111 +94,152 @@ export function Toolbar({ onRefresh, onNewFolder, onNewFile, onImport }: Toolbar
   };
 
   return (
-    <div className={styles.toolbar}>
-      {/* Search */}
-      <div className={styles.searchContainer}>
-        <Search size={14} className={styles.searchIcon} />
-        <input
-          type="text"
-          className={styles.searchInput}
-          placeholder={searchGlobal ? 'Search all files...' : 'Search...'}
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-        />
-        <button
-          className={`${styles.searchToggle} ${searchGlobal ? styles.active : ''} ${isLoadingGlobal ? styles.loading : ''}`}
-          onClick={() => setSearchGlobal(!searchGlobal)}
-          title={searchGlobal ? 'Search all files' : 'Search in current folder'}
-          disabled={isLoadingGlobal}
-        >
-          {searchGlobal ? <Globe size={14} /> : <FolderSearch size={14} />}
-        </button>
-      </div>
+    <>
+      <div className={styles.toolbar}>
+        {/* Inspected frame */}
+        <FramePicker onOpen={onRefreshFrames} />
 
-      {/* Actions */}
-      <div className={styles.actions}>
-        {/* Sort */}
-        <DropdownMenu.Root>
-          <DropdownMenu.Trigger asChild>
-            <button className={styles.iconButton} title="Sort">
-              <ArrowUpDown size={16} />
-              <ChevronDown size={12} />
-            </button>
-          </DropdownMenu.Trigger>
-          <DropdownMenu.Portal>
-            <DropdownMenu.Content className={styles.dropdownContent} sideOffset={5}>
-              {(Object.keys(sortLabels) as SortField[]).map((field) => (
-                <DropdownMenu.Item
-                  key={field}
-                  className={styles.dropdownItem}
-                  onClick={() => handleSortChange(field)}
-                >
-                  <span>{sortLabels[field]}</span>
-                  {sortConfig.field === field && (
-                    <span className={styles.sortIndicator}>
-                      {sortConfig.direction === 'asc' ? '↑' : '↓'}
-                    </span>
-                  )}
-                </DropdownMenu.Item>
-              ))}
-            </DropdownMenu.Content>
-          </DropdownMenu.Portal>
-        </DropdownMenu.Root>
-
-        {/* View Mode */}
-        <div className={styles.viewToggle}>
+        {/* Search */}
+        <div className={styles.searchContainer}>
+          <Search size={14} className={styles.searchIcon} />
+          <input
+            type="text"
+            className={styles.searchInput}
+            placeholder={searchPlaceholder}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              // Content search reads every file, so it only runs on Enter
+              if (e.key === 'Enter' && searchContent) onContentSearch();
+            }}
+          />
           <button
-            className={`${styles.viewButton} ${viewMode === 'list' ? styles.active : ''}`}
-            onClick={() => setViewMode('list')}
-            title="List view"
+            className={`${styles.searchToggle} ${styles.contentToggle} ${searchContent ? styles.active : ''} ${isSearchingContent ? styles.loading : ''}`}
+            onClick={() => setSearchContent(!searchContent)}
+            title={searchContent ? 'Search file contents' : 'Search file names'}
           >
-            <List size={16} />
+            <FileSearch size={14} />
           </button>
           <button
-            className={`${styles.viewButton} ${viewMode === 'grid' ? styles.active : ''}`}
-            onClick={() => setViewMode('grid')}
-            title="Grid view"
+            className={`${styles.searchToggle} ${searchGlobal ? styles.active : ''} ${isLoadingGlobal ? styles.loading : ''}`}
+            onClick={() => setSearchGlobal(!searchGlobal)}
+            title={searchGlobal ? 'Search all files' : 'Search in current folder'}
+            disabled={isLoadingGlobal}
           >
-            <Grid size={16} />
+            {searchGlobal ? <Globe size={14} /> : <FolderSearch size={14} />}
           </button>
         </div>
 
-        {/* Refresh */}
+        {/* Filters */}
         <button
-          className={`${styles.iconButton} ${isLoading ? styles.spinning : ''}`}
-          onClick={onRefresh}
-          title="Refresh"
+          className={`${styles.iconButton} ${showFilters || filtersActive ? styles.activeButton : ''}`}
+          onClick={() => setShowFilters(!showFilters)}
+          disabled={searchContent}
+          title={filtersActive ? 'Filters (active)' : 'Filters'}
         >
-          <RefreshCw size={16} />
+          <ListFilter size={16} />
+          {filtersActive && <span className={styles.filterDot} />}
         </button>
 
-        {/* New */}
-        <DropdownMenu.Root>
-          <DropdownMenu.Trigger asChild>
-            <button className={styles.iconButton} title="New">
-              <Plus size={16} />
-              <ChevronDown size={12} />
+        {/* Actions */}
+        <div className={styles.actions}>
+          {/* Sort */}
+          <DropdownMenu.Root>
+            <DropdownMenu.Trigger asChild>
+              <button className={styles.iconButton} title="Sort">
+                <ArrowUpDown size={16} />
+                <ChevronDown size={12} />
+              </button>
+            </DropdownMenu.Trigger>
+            <DropdownMenu.Portal>
+              <DropdownMenu.Content className={styles.dropdownContent} sideOffset={5}>
+                {(Object.keys(sortLabels) as SortField[]).map((field) => (
+                  <DropdownMenu.Item
+                    key={field}
+                    className={styles.dropdownItem}
+                    onClick={() => handleSortChange(field)}
+                  >
+                    <span>{sortLabels[field]}</span>
+                    {sortConfig.field === field && (
+                      <span className={styles.sortIndicator}>
+                        {sortConfig.direction === 'asc' ? '↑' : '↓'}
+                      </span>
+                    )}
+                  </DropdownMenu.Item>
+                ))}
+              </DropdownMenu.Content>
+            </DropdownMenu.Portal>
+          </DropdownMenu.Root>
+
+          {/* View Mode */}
+          <div className={styles.viewToggle}>
+            <button
+              className={`${styles.viewButton} ${viewMode === 'list' ? styles.active : ''}`}
+              onClick={() => setViewMode('list')}
+              title="List view"
+            >
+              <List size={16} />
             </button>
-          </DropdownMenu.Trigger>
-          <DropdownMenu.Portal>
-            <DropdownMenu.Content className={styles.dropdownContent} sideOffset={5}>
-              <DropdownMenu.Item className={styles.dropdownItem} onClick={onNewFolder}>
-                <FolderPlus size={16} />
-                <span>New Folder</span>
-              </DropdownMenu.Item>
-              <DropdownMenu.Item className={styles.dropdownItem} onClick={onNewFile}>
-                <FilePlus size={16} />
-                <span>New Text File</span>
-              </DropdownMenu.Item>
-              <DropdownMenu.Separator className={styles.dropdownSeparator} />
-              <DropdownMenu.Item className={styles.dropdownItem} onClick={onImport}>
-                <Upload size={16} />
-                <span>Import Files...</span>
-              </DropdownMenu.Item>
-            </DropdownMenu.Content>
-          </DropdownMenu.Portal>
-        </DropdownMenu.Root>
+            <button
+              className={`${styles.viewButton} ${viewMode === 'grid' ? styles.active : ''}`}
+              onClick={() => setViewMode('grid')}
+              title="Grid view"
+            >
+              <Grid size={16} />
+            </button>
+          </div>
+
+          {/* Refresh */}
+          <button
+            className={`${styles.iconButton} ${isLoading ? styles.spinning : ''}`}
+            onClick={onRefresh}
+            title="Refresh"
+          >
+            <RefreshCw size={16} />
+          </button>
+
+          {/* New */}
+          <DropdownMenu.Root>
+            <DropdownMenu.Trigger asChild>
+              <button className={styles.iconButton} title="New">
+                <Plus size={16} />
+                <ChevronDown size={12} />
+              </button>
+            </DropdownMenu.Trigger>
+            <DropdownMenu.Portal>
+              <DropdownMenu.Content className={styles.dropdownContent} sideOffset={5}>
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onNewFolder}>
+                  <FolderPlus size={16} />
+                  <span>New Folder</span>
+                </DropdownMenu.Item>
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onNewFile}>
+                  <FilePlus size={16} />
+                  <span>New Text File</span>
+                </DropdownMenu.Item>
+                <DropdownMenu.Separator className={styles.dropdownSeparator} />
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onImport}>
+                  <Upload size={16} />
+                  <span>Import Files...</span>
+                </DropdownMenu.Item>
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onImportFolder}>
+                  <FolderUp size={16} />
+                  <span>Import Folder...</span>
+                </DropdownMenu.Item>
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onImportZip}>
+                  <FileArchive size={16} />
+                  <span>Import ZIP and Extract Here...</span>
+                </DropdownMenu.Item>
+                <DropdownMenu.Separator className={styles.dropdownSeparator} />
+                <DropdownMenu.Item className={styles.dropdownItem} onClick={onSyncFolder}>
+                  <FolderSync size={16} />
+                  <span>Sync with Local Folder...</span>
+                </DropdownMenu.Item>
+              </DropdownMenu.Content>
+            </DropdownMenu.Portal>
+          </DropdownMenu.Root>
+        </div>
       </div>
-    </div>
+      {showFilters && !searchContent && <FilterBar onSaveSmartFolder={onSaveSmartFolder} />}
+    </>
   );
 }
@@ -1 +1,4 @@
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
+export { useDirectoryWatch } from './useDirectoryWatch';
+export { useDiskUsage } from './useDiskUsage';
+export { useContentSearch } from './useContentSearch';
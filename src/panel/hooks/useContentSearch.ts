@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useFileSystemStore, useToastStore } from '../store';
+import { opfsApi, isCancelledError } from '../utils/rpc';
+import { startOperationTracker, type OperationTracker } from '../utils/operations';
+import { getErrorMessage } from '../utils/errors';
+import { parseGlobList } from '../../shared/utils/glob';
+
+/**
+ * Run fs.search for the current query and collect the streamed matches in the store
+ * Only one search runs at a time, starting another one cancels the previous
+ */
+export function useContentSearch() {
+  const { searchContent, selectedFrameId, currentBucket } = useFileSystemStore();
+  const trackerRef = useRef<OperationTracker | null>(null);
+
+  const cancelSearch = useCallback(() => {
+    trackerRef.current?.cancel();
+    trackerRef.current = null;
+    useFileSystemStore.getState().setSearchingContent(false);
+  }, []);
+
+  const runSearch = useCallback(async () => {
+    const state = useFileSystemStore.getState();
+    const query = state.searchQuery;
+    const options = state.contentSearchOptions;
+
+    cancelSearch();
+    state.clearSearchMatches();
+    if (!query) return;
+
+    const tracker = startOperationTracker(`Searching for "${query}"`);
+    trackerRef.current = tracker;
+    state.setSearchingContent(true);
+
+    try {
+      const summary = await opfsApi.search(
+        {
+          path: state.searchGlobal ? '/' : state.currentPath,
+          query,
+          regex: options.regex,
+          caseSensitive: options.caseSensitive,
+          include: parseGlobList(options.include),
+          exclude: parseGlobList(options.exclude),
+          maxFileSize: options.maxFileSize * 1024 * 1024,
+        },
+        {
+          ...tracker.requestOptions,
+          onMatches: (matches) => {
+            if (trackerRef.current === tracker) {
+              useFileSystemStore.getState().appendSearchMatches(matches);
+            }
+          },
+        }
+      );
+      if (trackerRef.current === tracker) {
+        useFileSystemStore.getState().setSearchSummary(summary);
+      }
+    } catch (error) {
+      if (!isCancelledError(error)) {
+        useToastStore.getState().addToast({
+          type: 'error',
+          title: 'Search failed',
+          message: getErrorMessage(error),
+        });
+      }
+    } finally {
+      tracker.finish();
+      if (trackerRef.current === tracker) {
+        trackerRef.current = null;
+        useFileSystemStore.getState().setSearchingContent(false);
+      }
+    }
+  }, [cancelSearch]);
+
+  // Results belong to the root they were found in, and go away with the results mode
+  useEffect(() => {
+    cancelSearch();
+    useFileSystemStore.getState().clearSearchMatches();
+  }, [searchContent, selectedFrameId, currentBucket, cancelSearch]);
+
+  return { runSearch, cancelSearch };
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef } from 'react';
+import { useFileSystemStore } from '../store';
+import { opfsApi, onWatchEvent } from '../utils/rpc';
+import type { WatchEventMessage } from '../../shared/rpc/messages';
+
+// How long changed rows stay highlighted
+const CHANGE_HIGHLIGHT_DURATION = 1500;
+
+/**
+ * Watch the current directory of the inspected root and apply changes made by the page
+ * onDirectoryRemoved is called when the current directory itself disappears
+ */
+export function useDirectoryWatch(onDirectoryRemoved: (path: string) => void) {
+  const { currentPath, selectedFrameId, currentBucket, isOPFSAvailable } = useFileSystemStore();
+  const onDirectoryRemovedRef = useRef(onDirectoryRemoved);
+  onDirectoryRemovedRef.current = onDirectoryRemoved;
+
+  useEffect(() => {
+    if (!isOPFSAvailable) return;
+
+    let disposed = false;
+    let watchId: string | null = null;
+    let unsubscribe = () => {};
+    let highlightTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const applyChanges = ({ changes, entries }: WatchEventMessage) => {
+      const state = useFileSystemStore.getState();
+
+      if (changes.some((change) => change.type === 'removed' && change.path === currentPath)) {
+        onDirectoryRemovedRef.current(currentPath);
+        return;
+      }
+
+      const changedPaths = changes.map((change) => change.path);
+      state.invalidateDirectories(changedPaths);
+      // Only changed entries are sent, pages not loaded yet are still listed when scrolled to
+      state.applyDirectoryChanges(currentPath, changes, entries);
+      state.markChanged(changedPaths);
+      state.invalidateDiskUsage(changedPaths);
+      // The global search cache is rebuilt on the next global search
+      if (!state.searchGlobal) {
+        state.setAllEntries([]);
+      }
+
+      for (const change of changes) {
+        if (change.type !== 'removed') continue;
+        state.removeFromSelection(change.path);
+        if (state.previewPath === change.path) {
+          state.setPreviewPath(null);
+        }
+      }
+
+      clearTimeout(highlightTimer);
+      highlightTimer = setTimeout(() => state.clearChangedPaths(), CHANGE_HIGHLIGHT_DURATION);
+
+      opfsApi
+        .estimate()
+        .then((estimate) => state.setStorageEstimate(estimate))
+        .catch(() => {
+          // Keep the previous estimate
+        });
+    };
+
+    opfsApi
+      .watch({ path: currentPath })
+      .then((result) => {
+        if (disposed) {
+          opfsApi.unwatch({ watchId: result.watchId }).catch(() => {});
+          return;
+        }
+        watchId = result.watchId;
+        unsubscribe = onWatchEvent(result.watchId, applyChanges);
+      })
+      .catch(() => {
+        // Best effort, Refresh still picks up changes
+      });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      clearTimeout(highlightTimer);
+      if (watchId) {
+        opfsApi.unwatch({ watchId }).catch(() => {});
+      }
+    };
+  }, [currentPath, selectedFrameId, currentBucket, isOPFSAvailable]);
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { useFileSystemStore } from '../store';
+import { opfsApi } from '../utils/rpc';
+
+interface DiskUsageJob {
+  controller: AbortController;
+  pending: Set<string>;
+}
+
+/**
+ * Fill the folder size cache for the given paths, one fs.du at a time
+ * Paths that stop being requested are cancelled, results stay cached until invalidated
+ */
+export function useDiskUsage(paths: string[]) {
+  const { diskUsage } = useFileSystemStore();
+  const jobRef = useRef<DiskUsageJob | null>(null);
+
+  const pathsKey = paths.join('\n');
+  const missingKey = paths.filter((path) => !diskUsage[path]).join('\n');
+
+  useEffect(() => {
+    const requested = new Set(pathsKey ? pathsKey.split('\n') : []);
+    const missing = missingKey ? missingKey.split('\n') : [];
+    const job = jobRef.current;
+
+    // Every finished path shrinks the missing list, that alone is no reason to start over
+    if (
+      job &&
+      missing.every((path) => job.pending.has(path)) &&
+      [...job.pending].every((path) => requested.has(path))
+    ) {
+      return;
+    }
+
+    job?.controller.abort();
+    jobRef.current = null;
+    if (missing.length === 0) return;
+
+    const next: DiskUsageJob = { controller: new AbortController(), pending: new Set(missing) };
+    jobRef.current = next;
+
+    (async () => {
+      for (const path of missing) {
+        try {
+          const usage = await opfsApi.du({ path }, { signal: next.controller.signal });
+          next.pending.delete(path);
+          if (next.controller.signal.aborted) return;
+          useFileSystemStore.getState().setDiskUsage(path, usage);
+        } catch {
+          // Cancelled, or removed or locked meanwhile: leave the size unknown.
+          // The path stays pending so this job is not restarted just to fail again
+          if (next.controller.signal.aborted) return;
+        }
+      }
+      if (jobRef.current === next) {
+        jobRef.current = null;
+      }
+    })();
+  }, [pathsKey, missingKey]);
+
+  useEffect(() => () => jobRef.current?.controller.abort(), []);
+}
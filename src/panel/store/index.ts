@@ -10,12 +10,41 @@ import type {
   RecentItem,
   Toast,
   Theme,
+  Operation,
+  RPCProgress,
+  FrameInfo,
+  BucketInfo,
+  DiskUsage,
+  ContentSearchOptions,
+  SearchMatch,
+  SearchSummary,
+  WatchChange,
+  CachedDirectory,
 } from '../../shared/types';
+import { TOP_FRAME_ID } from '../../shared/rpc/messages';
+import { setActiveBucket, setInspectedFrameId } from '../utils/rpc';
+import { isChildOf, dirname } from '../utils/path';
+import { DEFAULT_SEARCH_FILTERS, type SearchFilters, type SmartFolder } from '../utils/filters';
 
 interface FileSystemState {
+  // Inspected frame
+  frames: FrameInfo[];
+  selectedFrameId: number;
+
+  // Storage Buckets of the inspected frame, null = default OPFS root
+  buckets: BucketInfo[];
+  currentBucket: string | null;
+
+  // Listed folders by path, shared by the folder tree, the file list and global search
+  directories: Record<string, CachedDirectory>;
+
   // Current state
   currentPath: string;
+  // Listing of the current directory, mirrored from directories
   entries: FSEntry[];
+  // Next page of the current directory, null when all of it is loaded
+  listCursor: string | null;
+  isLoadingMore: boolean;
   selectedPaths: Set<string>;
   lastSelectedPath: string | null;
   isLoading: boolean;
@@ -28,25 +57,51 @@ interface FileSystemState {
   allEntries: FSEntry[];
   isLoadingGlobal: boolean;
 
+  // Live change detection: entries changed outside the panel
+  changedPaths: Set<string>;
+
+  // Recursive folder sizes (fs.du) by path
+  diskUsage: Record<string, DiskUsage>;
+
   // View state
   viewMode: ViewMode;
   sortConfig: SortConfig;
   searchQuery: string;
   searchGlobal: boolean;
+  searchFilters: SearchFilters;
+
+  // Content search: matching lines replace the file list while searchContent is on
+  searchContent: boolean;
+  contentSearchOptions: ContentSearchOptions;
+  searchMatches: SearchMatch[];
+  searchSummary: SearchSummary | null;
+  isSearchingContent: boolean;
 
   // Clipboard
   clipboard: ClipboardData | null;
 
   // Preview state
   previewPath: string | null;
+  // Line to scroll the editor to, set when a search match is opened
+  previewLine: number | null;
 
   // Edit state
   editingPath: string | null;
   isDirty: boolean;
 
   // Actions
+  setFrames: (frames: FrameInfo[]) => void;
+  setSelectedFrameId: (frameId: number) => void;
+  setBuckets: (buckets: BucketInfo[]) => void;
+  setCurrentBucket: (bucket: string | null) => void;
   setCurrentPath: (path: string) => void;
-  setEntries: (entries: FSEntry[]) => void;
+  setDirectory: (path: string, entries: FSEntry[], cursor: string | null) => void;
+  appendDirectory: (path: string, entries: FSEntry[], cursor: string | null) => void;
+  applyDirectoryChanges: (path: string, changes: WatchChange[], entries: FSEntry[]) => void;
+  cacheTree: (path: string, entries: FSEntry[]) => void;
+  mergeEntries: (entries: FSEntry[]) => void;
+  invalidateDirectories: (paths?: string[]) => void;
+  setLoadingMore: (loading: boolean) => void;
   setSelectedPaths: (paths: Set<string>) => void;
   addToSelection: (path: string) => void;
   removeFromSelection: (path: string) => void;
@@ -62,18 +117,66 @@ interface FileSystemState {
   setSortConfig: (config: SortConfig) => void;
   setSearchQuery: (query: string) => void;
   setSearchGlobal: (global: boolean) => void;
+  setSearchFilters: (filters: Partial<SearchFilters>) => void;
+  resetSearchFilters: () => void;
+  setSearchContent: (content: boolean) => void;
+  setContentSearchOptions: (options: Partial<ContentSearchOptions>) => void;
+  appendSearchMatches: (matches: SearchMatch[]) => void;
+  setSearchSummary: (summary: SearchSummary | null) => void;
+  clearSearchMatches: () => void;
+  setSearchingContent: (searching: boolean) => void;
   setAllEntries: (entries: FSEntry[]) => void;
   setLoadingGlobal: (loading: boolean) => void;
+  markChanged: (paths: string[]) => void;
+  clearChangedPaths: () => void;
+  setDiskUsage: (path: string, usage: DiskUsage) => void;
+  invalidateDiskUsage: (paths: string[]) => void;
+  clearDiskUsage: () => void;
   setClipboard: (data: ClipboardData | null) => void;
   setPreviewPath: (path: string | null) => void;
+  setPreviewLine: (line: number | null) => void;
   setEditingPath: (path: string | null) => void;
   setDirty: (dirty: boolean) => void;
 }
 
+// The current folder is shown from its cached listing
+function currentListing(directories: Record<string, CachedDirectory>, path: string) {
+  const cached = directories[path];
+  return { entries: cached?.entries ?? [], listCursor: cached?.cursor ?? null };
+}
+
+// A folder listed again by name keeps the size and date of known entries until they are stat'ed
+function keepMetadata(previous: CachedDirectory | undefined, entries: FSEntry[]): FSEntry[] {
+  if (!previous) return entries;
+  const known = new Map(previous.entries.map((entry) => [entry.path, entry]));
+  return entries.map((entry) => {
+    const knownEntry = known.get(entry.path);
+    return knownEntry?.kind === entry.kind ? { ...knownEntry, ...entry } : entry;
+  });
+}
+
+// Nested children are cached under their own folder
+function withoutChildren(entry: FSEntry): FSEntry {
+  if (!entry.children) return entry;
+  const flat = { ...entry };
+  delete flat.children;
+  return flat;
+}
+
 export const useFileSystemStore = create<FileSystemState>()((set) => ({
   // Initial state
+  frames: [],
+  selectedFrameId: TOP_FRAME_ID,
+
+  buckets: [],
+  currentBucket: null,
+
+  directories: {},
+
   currentPath: '/',
   entries: [],
+  listCursor: null,
+  isLoadingMore: false,
   selectedPaths: new Set<string>(),
   lastSelectedPath: null,
   isLoading: false,
@@ -86,21 +189,158 @@ export const useFileSystemStore = create<FileSystemState>()((set) => ({
   allEntries: [],
   isLoadingGlobal: false,
 
+  changedPaths: new Set<string>(),
+
+  diskUsage: {},
+
   viewMode: 'list',
   sortConfig: { field: 'name', direction: 'asc' },
   searchQuery: '',
   searchGlobal: false,
+  searchFilters: DEFAULT_SEARCH_FILTERS,
+
+  searchContent: false,
+  contentSearchOptions: {
+    regex: false,
+    caseSensitive: false,
+    include: '',
+    exclude: '',
+    maxFileSize: 5,
+  },
+  searchMatches: [],
+  searchSummary: null,
+  isSearchingContent: false,
 
   clipboard: null,
 
   previewPath: null,
+  previewLine: null,
 
   editingPath: null,
   isDirty: false,
 
   // Actions
-  setCurrentPath: (path) => set({ currentPath: path }),
-  setEntries: (entries) => set({ entries }),
+  setFrames: (frames) => set({ frames }),
+  // RPC targets switch before anything re-renders and loads from the new root.
+  // Buckets belong to a frame's origin, so start over at its default root
+  setSelectedFrameId: (frameId) => {
+    setInspectedFrameId(frameId);
+    setActiveBucket(null);
+    set({
+      selectedFrameId: frameId,
+      buckets: [],
+      currentBucket: null,
+      directories: {},
+      entries: [],
+      listCursor: null,
+    });
+  },
+  setBuckets: (buckets) => set({ buckets }),
+  setCurrentBucket: (bucket) => {
+    setActiveBucket(bucket);
+    set({ currentBucket: bucket, directories: {}, entries: [], listCursor: null });
+  },
+  setCurrentPath: (path) =>
+    set((state) => ({ currentPath: path, ...currentListing(state.directories, path) })),
+  // Store the first page (or all) of a folder's listing
+  setDirectory: (path, entries, cursor) =>
+    set((state) => {
+      const directories = {
+        ...state.directories,
+        [path]: { entries: keepMetadata(state.directories[path], entries), cursor, stale: false },
+      };
+      return { directories, ...currentListing(directories, state.currentPath) };
+    }),
+  appendDirectory: (path, entries, cursor) =>
+    set((state) => {
+      const cached = state.directories[path];
+      if (!cached) return state;
+      // Entries the watcher added already are skipped
+      const known = new Set(cached.entries.map((entry) => entry.path));
+      const directories = {
+        ...state.directories,
+        [path]: {
+          ...cached,
+          entries: [...cached.entries, ...entries.filter((entry) => !known.has(entry.path))],
+          cursor,
+        },
+      };
+      return { directories, ...currentListing(directories, state.currentPath) };
+    }),
+  // Apply what the directory watcher reported to a folder's listing, keeping the pages loaded so
+  // far. Added entries go at the end, appendDirectory skips them on later pages
+  applyDirectoryChanges: (path, changes, entries) =>
+    set((state) => {
+      const cached = state.directories[path];
+      if (!cached) return state;
+      const removed = new Set(
+        changes.filter((change) => change.type === 'removed').map((change) => change.path)
+      );
+      const updates = new Map(entries.map((entry) => [entry.path, entry]));
+      const kept = cached.entries
+        .filter((entry) => !removed.has(entry.path))
+        .map((entry) => updates.get(entry.path) ?? entry);
+      const known = new Set(kept.map((entry) => entry.path));
+      const directories = {
+        ...state.directories,
+        [path]: {
+          ...cached,
+          entries: [...kept, ...entries.filter((entry) => !known.has(entry.path))],
+          stale: false,
+        },
+      };
+      return { directories, ...currentListing(directories, state.currentPath) };
+    }),
+  // Store a deep listing, every folder in it was listed completely
+  cacheTree: (path, entries) =>
+    set((state) => {
+      const directories = { ...state.directories };
+      const visit = (folder: string, children: FSEntry[]) => {
+        directories[folder] = {
+          entries: keepMetadata(state.directories[folder], children.map(withoutChildren)),
+          cursor: null,
+          stale: false,
+        };
+        for (const child of children) {
+          if (child.kind === 'directory' && child.children) visit(child.path, child.children);
+        }
+      };
+      visit(path, entries);
+      return { directories, ...currentListing(directories, state.currentPath) };
+    }),
+  // Replace loaded entries with newer versions of the same path, e.g. with metadata filled in.
+  // Applies to the cached folders and the global search cache alike
+  mergeEntries: (entries) =>
+    set((state) => {
+      const updates = new Map(entries.map((entry) => [entry.path, entry]));
+      const merge = (list: FSEntry[]) => list.map((entry) => updates.get(entry.path) ?? entry);
+      const directories = { ...state.directories };
+      for (const folder of new Set(entries.map((entry) => dirname(entry.path)))) {
+        const cached = directories[folder];
+        if (cached) directories[folder] = { ...cached, entries: merge(cached.entries) };
+      }
+      return {
+        directories,
+        ...currentListing(directories, state.currentPath),
+        allEntries: merge(state.allEntries),
+      };
+    }),
+  // A changed path makes the listing of its parent stale, as well as its own and those below it.
+  // Without paths every cached folder is stale, e.g. after the panel changed files
+  invalidateDirectories: (paths) =>
+    set((state) => ({
+      directories: Object.fromEntries(
+        Object.entries(state.directories).map(([folder, cached]) => {
+          const stale =
+            !paths ||
+            paths.some(
+              (path) => folder === path || folder === dirname(path) || isChildOf(folder, path)
+            );
+          return [folder, stale ? { ...cached, stale: true } : cached];
+        })
+      ),
+    })),
+  setLoadingMore: (loading) => set({ isLoadingMore: loading }),
   setSelectedPaths: (paths) => set({ selectedPaths: paths }),
   addToSelection: (path) =>
     set((state) => {
@@ -153,18 +393,49 @@ export const useFileSystemStore = create<FileSystemState>()((set) => ({
   setSortConfig: (config) => set({ sortConfig: config }),
   setSearchQuery: (query) => set({ searchQuery: query }),
   setSearchGlobal: (global) => set({ searchGlobal: global }),
+  setSearchFilters: (filters) =>
+    set((state) => ({ searchFilters: { ...state.searchFilters, ...filters } })),
+  resetSearchFilters: () => set({ searchFilters: DEFAULT_SEARCH_FILTERS }),
+  setSearchContent: (content) => set({ searchContent: content }),
+  setContentSearchOptions: (options) =>
+    set((state) => ({ contentSearchOptions: { ...state.contentSearchOptions, ...options } })),
+  appendSearchMatches: (matches) =>
+    set((state) => ({ searchMatches: [...state.searchMatches, ...matches] })),
+  setSearchSummary: (summary) => set({ searchSummary: summary }),
+  clearSearchMatches: () => set({ searchMatches: [], searchSummary: null }),
+  setSearchingContent: (searching) => set({ isSearchingContent: searching }),
   setAllEntries: (entries) => set({ allEntries: entries }),
   setLoadingGlobal: (loading) => set({ isLoadingGlobal: loading }),
+  markChanged: (paths) =>
+    set((state) => ({ changedPaths: new Set([...state.changedPaths, ...paths]) })),
+  clearChangedPaths: () => set({ changedPaths: new Set() }),
+  setDiskUsage: (path, usage) =>
+    set((state) => ({ diskUsage: { ...state.diskUsage, [path]: usage } })),
+  // A change anywhere below a folder makes its totals stale, as well as those of its ancestors
+  invalidateDiskUsage: (paths) =>
+    set((state) => ({
+      diskUsage: Object.fromEntries(
+        Object.entries(state.diskUsage).filter(
+          ([cached]) =>
+            !paths.some(
+              (path) => path === cached || isChildOf(path, cached) || isChildOf(cached, path)
+            )
+        )
+      ),
+    })),
+  clearDiskUsage: () => set({ diskUsage: {} }),
   setClipboard: (data) => set({ clipboard: data }),
-  setPreviewPath: (path) => set({ previewPath: path }),
+  setPreviewPath: (path) => set({ previewPath: path, previewLine: null }),
+  setPreviewLine: (line) => set({ previewLine: line }),
   setEditingPath: (path) => set({ editingPath: path }),
   setDirty: (dirty) => set({ isDirty: dirty }),
 }));
 
-// Persisted store for favorites and recents
+// Persisted store for favorites, recents and smart folders
 interface PersistedState {
   favorites: Favorite[];
   recents: RecentItem[];
+  smartFolders: SmartFolder[];
   theme: Theme;
   useClownMode: boolean;
 
@@ -172,6 +443,8 @@ interface PersistedState {
   removeFavorite: (path: string) => void;
   addRecent: (item: RecentItem) => void;
   clearRecents: () => void;
+  addSmartFolder: (folder: SmartFolder) => void;
+  removeSmartFolder: (id: string) => void;
   setTheme: (theme: Theme) => void;
   setUseClownMode: (value: boolean) => void;
 }
@@ -181,6 +454,7 @@ export const usePersistedStore = create<PersistedState>()(
     (set) => ({
       favorites: [],
       recents: [],
+      smartFolders: [],
       theme: 'system',
       useClownMode: false,
 
@@ -203,6 +477,12 @@ export const usePersistedStore = create<PersistedState>()(
           };
         }),
       clearRecents: () => set({ recents: [] }),
+      addSmartFolder: (folder) =>
+        set((state) => ({ smartFolders: [...state.smartFolders, folder] })),
+      removeSmartFolder: (id) =>
+        set((state) => ({
+          smartFolders: state.smartFolders.filter((f) => f.id !== id),
+        })),
       setTheme: (theme) => set({ theme }),
       setUseClownMode: (value) => set({ useClownMode: value }),
     }),
@@ -232,3 +512,43 @@ export const useToastStore = create<ToastState>()((set) => ({
       toasts: state.toasts.filter((t) => t.id !== id),
     })),
 }));
+
+// Operations store
+interface OperationsState {
+  operations: Operation[];
+  startOperation: (title: string) => Operation;
+  updateOperation: (id: string, progress: RPCProgress) => void;
+  cancelOperation: (id: string) => void;
+  finishOperation: (id: string) => void;
+}
+
+export const useOperationsStore = create<OperationsState>()((set) => ({
+  operations: [],
+  startOperation: (title) => {
+    const operation: Operation = {
+      id: `op-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      title,
+      progress: null,
+      controller: new AbortController(),
+      cancelling: false,
+    };
+    set((state) => ({ operations: [...state.operations, operation] }));
+    return operation;
+  },
+  updateOperation: (id, progress) =>
+    set((state) => ({
+      operations: state.operations.map((op) => (op.id === id ? { ...op, progress } : op)),
+    })),
+  cancelOperation: (id) =>
+    set((state) => ({
+      operations: state.operations.map((op) => {
+        if (op.id !== id) return op;
+        op.controller.abort();
+        return { ...op, cancelling: true };
+      }),
+    })),
+  finishOperation: (id) =>
+    set((state) => ({
+      operations: state.operations.filter((op) => op.id !== id),
+    })),
+}));
@@ -0,0 +1,235 @@
+import JSZip from 'jszip';
+import { opfsApi } from './rpc';
+import { readBlob, writeFiles, type FileWrite } from './transfer';
+import { basename, dirname, flattenEntries, normalize } from './path';
+import { readZipDirectory, readZipEntry } from './zip';
+import { readTarDirectory, readTarEntry } from './tar';
+import { createTargetResolver, createFolders } from './upload';
+import type { OperationTracker } from './operations';
+import type { ConflictResolution, FSEntry } from '../../shared/types';
+
+/**
+ * Archives of OPFS content
+ * ZIPs are created and extracted with JSZip: files are read in RANGE_CHUNK_SIZE pieces, paths
+ * inside the archive are relative to the folder the exported items are in. ZIPs and tars in
+ * OPFS are browsed read-only through zip.ts and tar.ts
+ */
+
+// Path inside the archive of an entry below `base`
+export function getArchivePath(base: string, path: string): string {
+  return path.slice(base === '/' ? 1 : base.length + 1);
+}
+
+// The exported items and everything below folders, each with its path inside the archive
+async function collectEntries(paths: string[]): Promise<{ entry: FSEntry; name: string }[]> {
+  const collected: { entry: FSEntry; name: string }[] = [];
+
+  for (const path of paths) {
+    const base = dirname(path);
+    const stats = await opfsApi.stat({ path });
+    const name = basename(path);
+
+    if (stats.kind === 'file') {
+      collected.push({ entry: { name, path, ...stats }, name });
+      continue;
+    }
+
+    collected.push({ entry: { name, path, kind: 'directory' }, name });
+    for (const entry of flattenEntries(await opfsApi.list({ path, depth: 999 }))) {
+      collected.push({ entry, name: getArchivePath(base, entry.path) });
+    }
+  }
+  return collected;
+}
+
+/**
+ * Pack files and folders into a ZIP, keeping their modification times
+ * Progress and cancel go through the tracker, one item per file
+ */
+export async function createZipArchive(paths: string[], tracker: OperationTracker): Promise<Blob> {
+  const zip = new JSZip();
+  const { onProgress } = tracker.requestOptions;
+
+  for (const { entry, name } of await collectEntries(paths)) {
+    if (entry.kind === 'directory') {
+      // Keeps empty folders
+      zip.file(name, null, { dir: true });
+      continue;
+    }
+
+    const blob = await readBlob(
+      entry.path,
+      entry.mimeType,
+      (bytesDone) =>
+        onProgress?.({ filesProcessed: 0, bytesProcessed: bytesDone, currentPath: entry.path }),
+      undefined,
+      tracker.signal
+    );
+    zip.file(name, blob, {
+      date: entry.lastModified ? new Date(entry.lastModified) : undefined,
+      binary: true,
+    });
+    onProgress?.({ filesProcessed: 1, bytesProcessed: blob.size, currentPath: entry.path });
+    tracker.itemDone();
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', streamFiles: true });
+}
+
+export interface ArchiveItem {
+  // As stored in the archive
+  name: string;
+  // Relative, without leading or trailing slash
+  path: string;
+  kind: 'file' | 'directory';
+}
+
+/**
+ * Items of a loaded archive, safe to join onto a folder
+ * Names that climb out of it ("../") and macOS resource forks are left out
+ */
+export function getArchiveItems(zip: JSZip): ArchiveItem[] {
+  const items: ArchiveItem[] = [];
+  for (const file of Object.values(zip.files)) {
+    const parts = file.name
+      .replace(/\\/g, '/')
+      .split('/')
+      .filter((part) => part !== '.');
+    if (parts.includes('..') || parts[0] === '__MACOSX') continue;
+
+    const path = normalize(parts.join('/')).slice(1);
+    if (path) {
+      items.push({ name: file.name, path, kind: file.dir ? 'directory' : 'file' });
+    }
+  }
+  return items;
+}
+
+/**
+ * Unpack a ZIP into a folder, recreating its folders
+ * Items at the top of the archive that clash with existing names go through `resolveConflict`,
+ * replaced ones are swapped in at the end. Resolves to how many items were extracted and the
+ * ones that failed. Skipped items count as neither
+ */
+export async function extractZipArchive(
+  archive: Blob,
+  targetPath: string,
+  resolveConflict: (name: string) => Promise<ConflictResolution>,
+  tracker: OperationTracker
+): Promise<{ extracted: number; failures: { path: string; error: Error }[] }> {
+  const zip = await JSZip.loadAsync(archive);
+  const targets = await createTargetResolver(targetPath, resolveConflict);
+
+  const folders: string[] = [];
+  const files: { name: string; path: string }[] = [];
+  for (const item of getArchiveItems(zip)) {
+    const target = await targets.resolve(item.path);
+    if (!target) continue;
+    if (item.kind === 'directory') {
+      folders.push(target);
+    } else {
+      files.push({ name: item.name, path: target });
+    }
+  }
+
+  // Decompressed as writeFiles asks for the next file rather than the whole archive up front
+  async function* decompress(): AsyncGenerator<FileWrite> {
+    for (const { name, path } of files) {
+      const data = await zip.files[name].async('arraybuffer');
+      yield { path, blob: new Blob([data]) };
+    }
+  }
+
+  try {
+    const failures = await createFolders(folders, tracker);
+    failures.push(...(await writeFiles(decompress(), tracker)));
+    const failedPaths = new Set(failures.map(({ path }) => path));
+    const finished = await targets.finish(failures);
+
+    const extracted = [...folders, ...files.map(({ path }) => path)].filter(
+      (path) => !failedPaths.has(path) && !targets.isDropped(path)
+    ).length;
+    return { extracted, failures: finished };
+  } catch (error) {
+    await targets.discard();
+    throw error;
+  }
+}
+
+export interface ArchiveEntry {
+  // Inside the archive, with a leading slash like OPFS paths
+  path: string;
+  kind: 'file' | 'directory';
+  size: number;
+  lastModified: number;
+  // ZIP only
+  compressedSize?: number;
+  encrypted?: boolean;
+}
+
+export interface ArchiveReader {
+  entries: ArchiveEntry[];
+  // Uncompressed content of a file entry
+  read: (entry: ArchiveEntry) => Promise<Uint8Array<ArrayBuffer>>;
+}
+
+export function isBrowsableArchive(name: string): boolean {
+  return /\.(zip|tar|tar\.gz|tgz)$/i.test(name);
+}
+
+function createReader<T extends ArchiveEntry>(
+  entries: T[],
+  read: (entry: T) => Promise<Uint8Array<ArrayBuffer>>
+): ArchiveReader {
+  const byPath = new Map(entries.map((entry) => [entry.path, entry]));
+  return {
+    entries,
+    read: async (entry) => {
+      const found = byPath.get(entry.path);
+      if (!found) throw new Error(`${entry.path} is not in the archive`);
+      return read(found);
+    },
+  };
+}
+
+// Read the index of a ZIP or tar in OPFS, contents are only read when asked for
+export async function openArchive(path: string): Promise<ArchiveReader> {
+  if (/\.zip$/i.test(path)) {
+    return createReader(await readZipDirectory(path), (entry) => readZipEntry(path, entry));
+  }
+  return createReader(await readTarDirectory(path), (entry) => readTarEntry(path, entry));
+}
+
+/**
+ * Entries directly in a folder of the archive
+ * Archives often leave out folder entries, those are derived from the file paths
+ */
+export function listArchiveFolder(entries: ArchiveEntry[], folder: string): FSEntry[] {
+  const children = new Map<string, FSEntry>();
+
+  for (const entry of entries) {
+    // The folder this entry is in, or one of its subfolders on the way there
+    let path = entry.path;
+    let kind = entry.kind;
+    while (path !== '/' && dirname(path) !== folder) {
+      path = dirname(path);
+      kind = 'directory';
+    }
+    if (path === '/' || children.has(path)) continue;
+
+    const isEntry = path === entry.path;
+    children.set(path, {
+      name: basename(path),
+      path,
+      kind,
+      ...(kind === 'file' && { size: entry.size }),
+      ...(isEntry && { lastModified: entry.lastModified }),
+    });
+  }
+
+  return [...children.values()].sort(
+    (a, b) =>
+      Number(b.kind === 'directory') - Number(a.kind === 'directory') ||
+      a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,72 @@
+import { opfsApi, type RPCRequestOptions } from './rpc';
+import { flattenEntries } from './path';
+import { hashFiles } from './hash';
+import type { FSEntry, HashResult } from '../../shared/types';
+
+/**
+ * Identical files anywhere in the root: grouped by size first, then only
+ * files that share their size are hashed
+ */
+
+export interface DuplicateGroup {
+  sha256: string;
+  size: number;
+  // Shortest path first, that copy is kept by default
+  paths: string[];
+  // Bytes taken by all copies but one
+  wasted: number;
+}
+
+// Files that share their size with another file. Empty files are all alike and waste nothing
+export function findSameSizeFiles(entries: FSEntry[]): FSEntry[] {
+  const bySize = new Map<number, FSEntry[]>();
+  for (const entry of entries) {
+    if (entry.kind !== 'file' || !entry.size) continue;
+    const files = bySize.get(entry.size);
+    if (files) {
+      files.push(entry);
+    } else {
+      bySize.set(entry.size, [entry]);
+    }
+  }
+  return [...bySize.values()].filter((files) => files.length > 1).flat();
+}
+
+// Group hashed files by content, most wasted space first. Files that failed to hash are left out
+export function groupDuplicates(
+  files: FSEntry[],
+  hashes: Record<string, HashResult | Error>
+): DuplicateGroup[] {
+  const byContent = new Map<string, DuplicateGroup>();
+
+  for (const file of files) {
+    const hash = hashes[file.path];
+    if (!hash || hash instanceof Error) continue;
+
+    const key = `${hash.size}:${hash.sha256}`;
+    const group = byContent.get(key);
+    if (group) {
+      group.paths.push(file.path);
+    } else {
+      byContent.set(key, { sha256: hash.sha256, size: hash.size, paths: [file.path], wasted: 0 });
+    }
+  }
+
+  return [...byContent.values()]
+    .filter((group) => group.paths.length > 1)
+    .map((group) => ({
+      ...group,
+      paths: group.paths.sort((a, b) => a.length - b.length || a.localeCompare(b)),
+      wasted: group.size * (group.paths.length - 1),
+    }))
+    .sort((a, b) => b.wasted - a.wasted);
+}
+
+export async function findDuplicates(options?: RPCRequestOptions): Promise<DuplicateGroup[]> {
+  const files = findSameSizeFiles(flattenEntries(await opfsApi.list({ path: '/', depth: 999 })));
+  const hashes = await hashFiles(
+    files.map((file) => file.path),
+    options
+  );
+  return groupDuplicates(files, hashes);
+}
@@ -0,0 +1,24 @@
+import { getRPCErrorCode } from './rpc';
+import type { RPCErrorCode } from '../../shared/types';
+
+const ERROR_MESSAGES: Partial<Record<RPCErrorCode, string>> = {
+  EEXIST: 'An item with this name already exists',
+  ENOENT: 'The item no longer exists',
+  ENOTDIR: 'A file is in the way where a folder was expected',
+  LOCKED: 'The file is locked by another tab or worker',
+  QUOTA_EXCEEDED: 'Not enough storage quota left',
+  INVALID_NAME: 'The name contains characters that are not allowed',
+  NOT_ALLOWED: 'Access to OPFS was denied',
+  NOT_SUPPORTED: 'This browser does not support the requested storage feature',
+};
+
+/**
+ * User-facing message for an RPC failure
+ * Known error codes get a friendly message, anything else falls back to the raw message
+ */
+export function getErrorMessage(error: unknown): string {
+  const code = getRPCErrorCode(error);
+  const message = code && ERROR_MESSAGES[code];
+  if (message) return message;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -11,7 +11,7 @@ export type FileCategory =
   | 'other';
 
 const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'ico', 'bmp']);
-const TEXT_EXTENSIONS = new Set(['txt', 'md', 'markdown', 'text']);
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'markdown', 'text', 'log']);
 const CODE_EXTENSIONS = new Set([
   'js',
   'ts',
@@ -55,7 +55,7 @@ const CODE_EXTENSIONS = new Set([
 const VIDEO_EXTENSIONS = new Set(['mp4', 'webm', 'ogg', 'mov', 'avi', 'mkv']);
 const AUDIO_EXTENSIONS = new Set(['mp3', 'wav', 'ogg', 'flac', 'aac', 'm4a']);
 const DOCUMENT_EXTENSIONS = new Set(['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx']);
-const ARCHIVE_EXTENSIONS = new Set(['zip', 'tar', 'gz', 'rar', '7z', 'bz2']);
+const ARCHIVE_EXTENSIONS = new Set(['zip', 'tar', 'gz', 'tgz', 'rar', '7z', 'bz2']);
 
 export function getFileCategory(filename: string): FileCategory {
   const ext = extname(filename).slice(1).toLowerCase();
@@ -71,6 +71,12 @@ export function getFileCategory(filename: string): FileCategory {
   return 'other';
 }
 
+// Name of the content of a gzipped file ("app.log.gz" -> "app.log"), null for other files and tars
+export function getGzipContentName(filename: string): string | null {
+  if (!/\.gz$/i.test(filename) || /\.tar\.gz$/i.test(filename)) return null;
+  return filename.slice(0, -3);
+}
+
 export function isTextFile(filename: string): boolean {
   const category = getFileCategory(filename);
   return category === 'text' || category === 'code';
@@ -137,6 +143,28 @@ export function formatFileSize(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${units[i]}`;
 }
 
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+  t: 1024 ** 4,
+};
+
+// "1.5 MB", "200k" or "512" (bytes) -> bytes, null when blank or not a size
+export function parseFileSize(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([bkmgt])?(?:i?b)?$/i);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+// "3 files, 1 folder"
+export function formatItemCount(fileCount: number, directoryCount: number): string {
+  const files = `${fileCount} ${fileCount === 1 ? 'file' : 'files'}`;
+  if (directoryCount === 0) return files;
+  return `${files}, ${directoryCount} ${directoryCount === 1 ? 'folder' : 'folders'}`;
+}
+
 export function formatDate(timestamp: number): string {
   const date = new Date(timestamp);
   const now = new Date();
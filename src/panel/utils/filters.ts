@@ -0,0 +1,175 @@
+/**
+ * Structured search filters and smart folders (saved searches)
+ * Filters narrow the listing on top of the plain name query
+ */
+
+import type { FSEntry, FileKind } from '../../shared/types';
+import { matchesGlob } from '../../shared/utils/glob';
+import { getFileCategory, parseFileSize, formatFileSize, type FileCategory } from './file';
+
+// Relative presets are evaluated when the filter runs, so a saved "today" stays today
+export type ModifiedPreset = 'any' | 'today' | 'week' | 'month' | 'custom';
+
+export interface SearchFilters {
+  // Glob, or a regular expression when nameRegex is set.
+  // Globs with "/" match the path, anything else the name
+  name: string;
+  nameRegex: boolean;
+  kind: FileKind | 'any';
+  // Empty = any type
+  categories: FileCategory[];
+  // As typed, e.g. "1MB", blank = no limit
+  minSize: string;
+  maxSize: string;
+  modified: ModifiedPreset;
+  // yyyy-mm-dd, both days included, used when modified is 'custom'
+  modifiedFrom: string;
+  modifiedTo: string;
+}
+
+export interface SmartFolder {
+  id: string;
+  name: string;
+  query: string;
+  global: boolean;
+  filters: SearchFilters;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  name: '',
+  nameRegex: false,
+  kind: 'any',
+  categories: [],
+  minSize: '',
+  maxSize: '',
+  modified: 'any',
+  modifiedFrom: '',
+  modifiedTo: '',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// [from, to) in ms, null when the date is not filtered
+export function getModifiedRange(
+  filters: SearchFilters,
+  now = Date.now()
+): [number, number] | null {
+  switch (filters.modified) {
+    case 'today':
+      return [startOfDay(now), Infinity];
+    case 'week':
+      return [now - 7 * DAY, Infinity];
+    case 'month':
+      return [now - 30 * DAY, Infinity];
+    case 'custom': {
+      if (!filters.modifiedFrom && !filters.modifiedTo) return null;
+      const from = filters.modifiedFrom
+        ? new Date(`${filters.modifiedFrom}T00:00`).getTime()
+        : -Infinity;
+      const to = filters.modifiedTo
+        ? new Date(`${filters.modifiedTo}T00:00`).getTime() + DAY
+        : Infinity;
+      return [from, to];
+    }
+    default:
+      return null;
+  }
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return (
+    filters.name.trim() !== '' ||
+    filters.kind !== 'any' ||
+    filters.categories.length > 0 ||
+    parseFileSize(filters.minSize) !== null ||
+    parseFileSize(filters.maxSize) !== null ||
+    getModifiedRange(filters) !== null
+  );
+}
+
+/**
+ * Build a predicate for entries from filters
+ * Type, size and date describe files, so folders never match once one of them is set
+ */
+export function createEntryFilter(
+  filters: SearchFilters,
+  now = Date.now()
+): (entry: FSEntry) => boolean {
+  const name = filters.name.trim();
+  let namePattern: RegExp | null = null;
+  if (name && filters.nameRegex) {
+    if (!isValidRegex(name)) return () => false;
+    namePattern = new RegExp(name, 'i');
+  }
+
+  const minSize = parseFileSize(filters.minSize);
+  const maxSize = parseFileSize(filters.maxSize);
+  const modifiedRange = getModifiedRange(filters, now);
+  const filesOnly =
+    filters.categories.length > 0 || minSize !== null || maxSize !== null || !!modifiedRange;
+
+  return (entry) => {
+    if (filters.kind !== 'any' && entry.kind !== filters.kind) return false;
+    if (name && !(namePattern ? namePattern.test(entry.name) : matchesGlob(entry.path, [name]))) {
+      return false;
+    }
+    if (!filesOnly) return true;
+    if (entry.kind !== 'file') return false;
+
+    if (
+      filters.categories.length > 0 &&
+      !filters.categories.includes(getFileCategory(entry.name))
+    ) {
+      return false;
+    }
+    const size = entry.size ?? 0;
+    if (minSize !== null && size < minSize) return false;
+    if (maxSize !== null && size > maxSize) return false;
+    if (modifiedRange) {
+      const modified = entry.lastModified;
+      if (modified === undefined || modified < modifiedRange[0] || modified >= modifiedRange[1]) {
+        return false;
+      }
+    }
+    return true;
+  };
+}
+
+const MODIFIED_LABELS: Record<ModifiedPreset, string> = {
+  any: '',
+  today: 'modified today',
+  week: 'modified this week',
+  month: 'modified this month',
+  custom: 'modified in range',
+};
+
+// Filters in a few words, e.g. "*.json, over 1.0 MB, modified today"
+export function describeFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  const minSize = parseFileSize(filters.minSize);
+  const maxSize = parseFileSize(filters.maxSize);
+
+  if (filters.name.trim()) parts.push(filters.name.trim());
+  if (filters.kind !== 'any') parts.push(filters.kind === 'directory' ? 'folders' : 'files');
+  if (filters.categories.length > 0) parts.push(filters.categories.join(' or '));
+  if (minSize !== null) parts.push(`over ${formatFileSize(minSize)}`);
+  if (maxSize !== null) parts.push(`under ${formatFileSize(maxSize)}`);
+  if (getModifiedRange(filters)) parts.push(MODIFIED_LABELS[filters.modified]);
+
+  return parts.join(', ');
+}
@@ -0,0 +1,50 @@
+import { createReadStream } from './transfer';
+
+/**
+ * Gzip helpers for the panel
+ * Compressing and decompressing whole files runs in the page (fs.gzip / fs.gunzip), previews
+ * decompress here so only the compressed bytes are transferred
+ */
+
+export function isGzipFile(name: string): boolean {
+  return /\.(gz|tgz)$/i.test(name);
+}
+
+// "data.json" -> "data.json.gz", "data.json.gz" -> "data.json", "bundle.tgz" -> "bundle.tar"
+export function getGzipTarget(path: string, mode: 'gzip' | 'gunzip'): string {
+  if (mode === 'gzip') return `${path}.gz`;
+  if (/\.tgz$/i.test(path)) return path.replace(/\.tgz$/i, '.tar');
+  return path.replace(/\.gz$/i, '');
+}
+
+// Up to `maxBytes` of the decompressed content, the rest is not decompressed at all
+export async function readGunzipped(
+  path: string,
+  maxBytes: number
+): Promise<{ data: Uint8Array<ArrayBuffer>; truncated: boolean }> {
+  const reader = createReadStream(path).pipeThrough(new DecompressionStream('gzip')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let truncated = false;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+    if (length > maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const data = new Uint8Array(Math.min(length, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, data.length - offset);
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { data, truncated };
+}
@@ -0,0 +1,22 @@
+import { opfsApi, createRPCError, type RPCRequestOptions } from './rpc';
+import type { HashResult } from '../../shared/types';
+
+// Hash files in one batch, so progress and cancel cover all of them. Failures are kept per path
+export async function hashFiles(
+  paths: string[],
+  options?: RPCRequestOptions
+): Promise<Record<string, HashResult | Error>> {
+  const hashes: Record<string, HashResult | Error> = {};
+  if (paths.length === 0) return hashes;
+
+  const { results } = await opfsApi.batch(
+    { operations: paths.map((path) => ({ command: 'fs.hash', params: { path } })) },
+    options
+  );
+  results.forEach((result, i) => {
+    hashes[paths[i]] = result.ok
+      ? (result.data as HashResult)
+      : createRPCError(result.error.code, result.error.message);
+  });
+  return hashes;
+}
@@ -0,0 +1,113 @@
+import { useFileSystemStore, useToastStore } from '../store';
+import { opfsApi } from './rpc';
+import { getErrorMessage } from './errors';
+import { LIST_PAGE_SIZE, STAT_MANY_CHUNK_SIZE } from '../../shared/rpc/messages';
+import type { FSEntry, ListPage } from '../../shared/types';
+
+/**
+ * Directories are listed a page of names at a time so huge ones open instantly,
+ * size and date of the files on a page are filled in right after it is shown
+ */
+export function listEntriesPage(path: string, cursor?: string): Promise<ListPage> {
+  return opfsApi.listPage({ path, limit: LIST_PAGE_SIZE, cursor, namesOnly: true });
+}
+
+/**
+ * Fill in size, date and type of names-only entries with fs.statMany
+ * Each chunk is merged into the store as soon as it arrives, so columns fill in progressively
+ */
+export async function hydrateEntries(entries: FSEntry[], signal?: AbortSignal): Promise<void> {
+  const files = entries.filter((entry) => entry.kind === 'file');
+
+  for (let i = 0; i < files.length; i += STAT_MANY_CHUNK_SIZE) {
+    if (signal?.aborted) return;
+    const chunk = files.slice(i, i + STAT_MANY_CHUNK_SIZE);
+    const { stats } = await opfsApi.statMany(
+      { paths: chunk.map((entry) => entry.path) },
+      { signal }
+    );
+
+    const hydrated = chunk.flatMap((entry, j) => {
+      const stat = stats[j];
+      // Locked or removed meanwhile: keep the row without metadata
+      if (!stat) return [];
+      return [
+        { ...entry, size: stat.size, lastModified: stat.lastModified, mimeType: stat.mimeType },
+      ];
+    });
+    useFileSystemStore.getState().mergeEntries(hydrated);
+  }
+}
+
+// Folders being listed for the cache, so each is requested once however many views ask
+const pendingListings = new Map<string, Promise<void>>();
+
+/**
+ * List a whole folder by name into the directory cache, a page at a time
+ * The open folder and folders the file list has paged are left to it. A folder that cannot be
+ * listed is cached empty, it is listed again once invalidated
+ */
+export function cacheDirectory(path: string): Promise<void> {
+  const { selectedFrameId, currentBucket } = useFileSystemStore.getState();
+  const key = `${selectedFrameId}:${currentBucket ?? ''}:${path}`;
+  const pending = pendingListings.get(key);
+  if (pending) return pending;
+
+  const listing = (async () => {
+    // Cursor of the last page stored, undefined before the first
+    let cursor: string | null | undefined;
+    do {
+      const page = await listEntriesPage(path, cursor ?? undefined).catch(
+        (): ListPage => ({ entries: [], cursor: null })
+      );
+      const state = useFileSystemStore.getState();
+      const cached = state.directories[path];
+      // Listed in a root that is no longer shown
+      if (state.selectedFrameId !== selectedFrameId || state.currentBucket !== currentBucket) {
+        return;
+      }
+      if (path === state.currentPath) return;
+
+      if (cursor === undefined) {
+        if (cached?.cursor && !cached.stale) return;
+        state.setDirectory(path, page.entries, page.cursor);
+      } else {
+        // Replaced by another listing meanwhile
+        if (cached?.cursor !== cursor) return;
+        state.appendDirectory(path, page.entries, page.cursor);
+      }
+      cursor = page.cursor;
+    } while (cursor);
+  })().finally(() => pendingListings.delete(key));
+
+  pendingListings.set(key, listing);
+  return listing;
+}
+
+// Append the next page of the current directory, if there is one
+export async function loadMoreEntries(): Promise<void> {
+  const state = useFileSystemStore.getState();
+  const { currentPath, listCursor, isLoadingMore } = state;
+  if (!listCursor || isLoadingMore) return;
+
+  state.setLoadingMore(true);
+  try {
+    const page = await listEntriesPage(currentPath, listCursor);
+    const current = useFileSystemStore.getState();
+    // Navigated away or reloaded meanwhile
+    if (current.currentPath !== currentPath || current.listCursor !== listCursor) return;
+
+    current.appendDirectory(currentPath, page.entries, page.cursor);
+    hydrateEntries(page.entries).catch(() => {
+      // Rows stay without size and date
+    });
+  } catch (error) {
+    useToastStore.getState().addToast({
+      type: 'error',
+      title: 'Failed to load more items',
+      message: getErrorMessage(error),
+    });
+  } finally {
+    useFileSystemStore.getState().setLoadingMore(false);
+  }
+}
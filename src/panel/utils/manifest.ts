@@ -0,0 +1,167 @@
+import { opfsApi, type RPCRequestOptions } from './rpc';
+import { basename, dirname, flattenEntries, join } from './path';
+import { hashFiles } from './hash';
+
+/**
+ * Integrity manifests: size and SHA-256 of every file below a folder, by relative path
+ * Checks that cached downloads such as models and assets are intact
+ */
+
+export const MANIFEST_FILENAME = 'sha256-manifest.json';
+
+// Manifests are read whole, far more than any realistic file list
+const MANIFEST_MAX_SIZE = 64 * 1024 * 1024;
+
+export interface ManifestFile {
+  size: number;
+  sha256: string;
+}
+
+export interface Manifest {
+  version: 1;
+  algorithm: 'SHA-256';
+  createdAt: string;
+  files: Record<string, ManifestFile>;
+}
+
+export interface ManifestReport {
+  folder: string;
+  // Relative paths, sorted
+  missing: string[];
+  extra: string[];
+  changed: string[];
+  matched: number;
+}
+
+export function createManifest(files: Record<string, ManifestFile>, now = new Date()): Manifest {
+  return { version: 1, algorithm: 'SHA-256', createdAt: now.toISOString(), files };
+}
+
+export function parseManifest(text: string): Manifest {
+  let manifest: Partial<Manifest>;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error('Manifest is not valid JSON');
+  }
+
+  const files = manifest?.files;
+  const isValid =
+    manifest?.algorithm === 'SHA-256' &&
+    typeof files === 'object' &&
+    files !== null &&
+    Object.values(files).every(
+      (file) => typeof file?.size === 'number' && /^[0-9a-f]{64}$/i.test(file?.sha256 ?? '')
+    );
+  if (!isValid) {
+    throw new Error('Not a SHA-256 manifest');
+  }
+  return manifest as Manifest;
+}
+
+/**
+ * Compare a manifest with the files found now
+ * current has null for files that could not be hashed, they count as changed
+ */
+export function compareManifest(
+  folder: string,
+  manifest: Manifest,
+  current: Record<string, ManifestFile | null>
+): ManifestReport {
+  const report: ManifestReport = { folder, missing: [], extra: [], changed: [], matched: 0 };
+
+  for (const [path, expected] of Object.entries(manifest.files)) {
+    if (!(path in current)) {
+      report.missing.push(path);
+      continue;
+    }
+    const actual = current[path];
+    if (
+      actual &&
+      actual.size === expected.size &&
+      actual.sha256.toLowerCase() === expected.sha256.toLowerCase()
+    ) {
+      report.matched++;
+    } else {
+      report.changed.push(path);
+    }
+  }
+  report.extra = Object.keys(current).filter((path) => !(path in manifest.files));
+
+  report.missing.sort();
+  report.extra.sort();
+  report.changed.sort();
+  return report;
+}
+
+// Sizes of the files below a folder by relative path, without the manifest itself
+async function listFileSizes(folder: string, manifestName: string) {
+  const sizes: Record<string, number> = {};
+  const prefix = folder === '/' ? 1 : folder.length + 1;
+
+  for (const entry of flattenEntries(await opfsApi.list({ path: folder, depth: 999 }))) {
+    const path = entry.path.slice(prefix);
+    if (entry.kind === 'file' && path !== manifestName) {
+      sizes[path] = entry.size ?? 0;
+    }
+  }
+  return sizes;
+}
+
+// Hash every file below a folder and write the manifest into it
+export async function generateManifest(
+  folder: string,
+  options?: RPCRequestOptions
+): Promise<Manifest> {
+  const paths = Object.keys(await listFileSizes(folder, MANIFEST_FILENAME));
+  const hashes = await hashFiles(
+    paths.map((path) => join(folder, path)),
+    options
+  );
+
+  const files: Record<string, ManifestFile> = {};
+  for (const path of paths) {
+    const hash = hashes[join(folder, path)];
+    if (hash instanceof Error) {
+      throw new Error(`${path}: ${hash.message}`);
+    }
+    files[path] = { size: hash.size, sha256: hash.sha256 };
+  }
+
+  const manifest = createManifest(files);
+  await opfsApi.writeText({
+    path: join(folder, MANIFEST_FILENAME),
+    text: JSON.stringify(manifest, null, 2),
+  });
+  return manifest;
+}
+
+// Check the folder of a manifest against it. Files whose size already differs are not hashed
+export async function verifyManifest(
+  manifestPath: string,
+  options?: RPCRequestOptions
+): Promise<ManifestReport> {
+  const folder = dirname(manifestPath);
+  const { text, truncated } = await opfsApi.readText({
+    path: manifestPath,
+    maxBytes: MANIFEST_MAX_SIZE,
+  });
+  if (truncated) {
+    throw new Error('Manifest is too large');
+  }
+  const manifest = parseManifest(text);
+
+  const sizes = await listFileSizes(folder, basename(manifestPath));
+  const toHash = Object.keys(sizes).filter((path) => manifest.files[path]?.size === sizes[path]);
+  const hashes = await hashFiles(
+    toHash.map((path) => join(folder, path)),
+    options
+  );
+
+  const current: Record<string, ManifestFile | null> = {};
+  for (const [path, size] of Object.entries(sizes)) {
+    const hash = hashes[join(folder, path)];
+    current[path] = hash instanceof Error ? null : (hash ?? { size, sha256: '' });
+  }
+  return compareManifest(folder, manifest, current);
+}
@@ -0,0 +1,50 @@
+import { useOperationsStore } from '../store';
+import type { RPCRequestOptions } from './rpc';
+import type { RPCProgress } from '../../shared/types';
+
+/**
+ * Track a multi-item operation in the operations tray
+ * Progress is reported per RPC request, so totals are accumulated across items
+ */
+export interface OperationTracker {
+  signal: AbortSignal;
+  requestOptions: RPCRequestOptions;
+  itemDone: () => void;
+  // Same as the cancel button in the tray
+  cancel: () => void;
+  finish: () => void;
+}
+
+export function startOperationTracker(title: string): OperationTracker {
+  const { startOperation, updateOperation, cancelOperation, finishOperation } =
+    useOperationsStore.getState();
+  const operation = startOperation(title);
+
+  let completed: RPCProgress = { filesProcessed: 0, bytesProcessed: 0 };
+  let current: RPCProgress | null = null;
+
+  return {
+    signal: operation.controller.signal,
+    requestOptions: {
+      signal: operation.controller.signal,
+      onProgress: (progress) => {
+        current = progress;
+        updateOperation(operation.id, {
+          filesProcessed: completed.filesProcessed + progress.filesProcessed,
+          bytesProcessed: completed.bytesProcessed + progress.bytesProcessed,
+          currentPath: progress.currentPath,
+        });
+      },
+    },
+    itemDone: () => {
+      if (!current) return;
+      completed = {
+        filesProcessed: completed.filesProcessed + current.filesProcessed,
+        bytesProcessed: completed.bytesProcessed + current.bytesProcessed,
+      };
+      current = null;
+    },
+    cancel: () => cancelOperation(operation.id),
+    finish: () => finishOperation(operation.id),
+  };
+}
@@ -1,27 +1,86 @@
 import type {
   RPCCommand,
-  RPCResponse,
+  RPCErrorCode,
+  RPCProgress,
   FSEntry,
   FSStats,
   StorageEstimate,
   IsAvailableResult,
   ReadTextResult,
   ReadBase64Result,
+  ReadRangeResult,
+  WriteRangeResult,
   ListParams,
+  ListPageParams,
+  ListPage,
   StatParams,
+  StatManyParams,
+  StatManyResult,
   ReadTextParams,
   WriteTextParams,
   ReadBase64Params,
   WriteBase64Params,
+  ReadRangeParams,
+  WriteRangeParams,
+  AbortWriteParams,
   MkdirParams,
   CreateFileParams,
   DeleteParams,
   CopyParams,
   MoveParams,
+  DiskUsageParams,
+  DiskUsage,
+  HashParams,
+  HashResult,
+  GzipParams,
+  GzipResult,
+  BatchParams,
+  BatchResult,
+  FrameInfo,
+  BucketInfo,
+  BucketOpenParams,
+  BucketDeleteParams,
+  WatchParams,
+  WatchResult,
+  UnwatchParams,
+  SearchParams,
+  SearchMatch,
+  SearchSummary,
+  RPCResponse,
 } from '../../shared/types';
-import { createRequestId } from '../../shared/rpc/messages';
+import {
+  createRequestId,
+  RPC_PORT_NAME,
+  TOP_FRAME_ID,
+  type BackgroundToPanelMessage,
+  type PanelToBackgroundMessage,
+  type WatchEventMessage,
+} from '../../shared/rpc/messages';
+
+export interface RPCRequestOptions {
+  onProgress?: (progress: RPCProgress) => void;
+  // Partial results streamed by the command before it responds
+  onData?: (data: unknown) => void;
+  signal?: AbortSignal;
+}
+
+export interface SearchOptions extends Omit<RPCRequestOptions, 'onData'> {
+  onMatches?: (matches: SearchMatch[]) => void;
+}
+
+interface PendingRequest {
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: RPCProgress) => void;
+  onData?: (data: unknown) => void;
+}
 
 let inspectedTabId: number | null = null;
+let inspectedFrameId: number = TOP_FRAME_ID;
+let activeBucket: string | null = null;
+let port: chrome.runtime.Port | null = null;
+const pendingRequests = new Map<string, PendingRequest>();
+const watchListeners = new Map<string, (event: WatchEventMessage) => void>();
 
 export function setInspectedTabId(tabId: number): void {
   inspectedTabId = tabId;
@@ -31,49 +90,172 @@ export function getInspectedTabId(): number | null {
   return inspectedTabId;
 }
 
-async function sendRPCRequest<T>(command: RPCCommand, params: object = {}): Promise<T> {
+// OPFS commands go to this frame of the inspected tab
+export function setInspectedFrameId(frameId: number): void {
+  inspectedFrameId = frameId;
+}
+
+export function getInspectedFrameId(): number {
+  return inspectedFrameId;
+}
+
+// fs.* commands and estimates go to this Storage Bucket, null for the default OPFS root
+export function setActiveBucket(bucket: string | null): void {
+  activeBucket = bucket;
+}
+
+export function getActiveBucket(): string | null {
+  return activeBucket;
+}
+
+function withActiveBucket(command: RPCCommand, params: object): Record<string, unknown> {
+  const isBucketScoped = command.startsWith('fs.') || command === 'opfs.estimate';
+  if (!isBucketScoped || activeBucket === null || 'bucket' in params) {
+    return params as Record<string, unknown>;
+  }
+  return { ...params, bucket: activeBucket };
+}
+
+export function createRPCError(code: RPCErrorCode, message: string): Error {
+  const error = new Error(message);
+  (error as Error & { code?: RPCErrorCode }).code = code;
+  return error;
+}
+
+export function getRPCErrorCode(error: unknown): RPCErrorCode | undefined {
+  return (error as { code?: RPCErrorCode } | null)?.code;
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return getRPCErrorCode(error) === 'CANCELLED';
+}
+
+// Error for a failed fs.batch item, or null when it succeeded
+export function getBatchItemError(result: RPCResponse): Error | null {
+  return result.ok ? null : createRPCError(result.error.code, result.error.message);
+}
+
+// Receive change events of a watch started with opfsApi.watch, returns an unsubscribe function
+export function onWatchEvent(
+  watchId: string,
+  listener: (event: WatchEventMessage) => void
+): () => void {
+  watchListeners.set(watchId, listener);
+  return () => {
+    if (watchListeners.get(watchId) === listener) {
+      watchListeners.delete(watchId);
+    }
+  };
+}
+
+function handlePortMessage(message: BackgroundToPanelMessage) {
+  if (message.type === 'OPFS_WATCH_EVENT') {
+    watchListeners.get(message.watchId)?.(message);
+    return;
+  }
+
+  const pending = pendingRequests.get(message.requestId);
+  if (!pending) return;
+
+  if (message.type === 'OPFS_RPC_PROGRESS') {
+    pending.onProgress?.(message.progress);
+    return;
+  }
+
+  if (message.type === 'OPFS_RPC_STREAM') {
+    pending.onData?.(message.data);
+    return;
+  }
+
+  pendingRequests.delete(message.requestId);
+  const rpcResponse = message.response;
+
+  if (!rpcResponse.ok) {
+    pending.reject(createRPCError(rpcResponse.error.code, rpcResponse.error.message));
+    return;
+  }
+
+  pending.resolve(rpcResponse.data);
+}
+
+function getPort(): chrome.runtime.Port {
+  if (port) return port;
+
+  if (!chrome?.runtime?.connect) {
+    throw new Error('Chrome runtime API not available. Please refresh the DevTools panel.');
+  }
+
+  const newPort = chrome.runtime.connect({ name: RPC_PORT_NAME });
+  newPort.onMessage.addListener(handlePortMessage);
+  newPort.onDisconnect.addListener(() => {
+    // Reconnect lazily on the next request; anything in flight is lost
+    const message = chrome.runtime.lastError?.message || 'Connection to background lost';
+    port = null;
+    for (const pending of pendingRequests.values()) {
+      pending.reject(new Error(message));
+    }
+    pendingRequests.clear();
+  });
+
+  port = newPort;
+  return newPort;
+}
+
+function postMessage(message: PanelToBackgroundMessage) {
+  getPort().postMessage(message);
+}
+
+async function sendRPCRequest<T>(
+  command: RPCCommand,
+  params: object = {},
+  options: RPCRequestOptions = {}
+): Promise<T> {
   if (inspectedTabId === null) {
     throw new Error('Inspected tab ID not set');
   }
 
-  if (!chrome?.runtime?.sendMessage) {
-    throw new Error('Chrome runtime API not available. Please refresh the DevTools panel.');
+  const { onProgress, onData, signal } = options;
+
+  if (signal?.aborted) {
+    throw createRPCError('CANCELLED', 'Operation cancelled');
   }
 
   const requestId = createRequestId();
 
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(
-      {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => postMessage({ type: 'OPFS_RPC_CANCEL', requestId });
+
+    pendingRequests.set(requestId, {
+      resolve: (data) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(data as T);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+      onData,
+    });
+
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      postMessage({
         type: 'OPFS_RPC_REQUEST',
-        tabId: inspectedTabId,
+        tabId: inspectedTabId as number,
+        frameId: inspectedFrameId === TOP_FRAME_ID ? undefined : inspectedFrameId,
         command,
-        params,
+        params: withActiveBucket(command, params),
         requestId,
-      },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          reject(new Error(chrome.runtime.lastError.message));
-          return;
-        }
-
-        if (!response) {
-          reject(new Error('No response received'));
-          return;
-        }
-
-        const rpcResponse = response.response as RPCResponse<T>;
-
-        if (!rpcResponse.ok) {
-          const error = new Error(rpcResponse.error.message);
-          (error as Error & { code?: string }).code = rpcResponse.error.code;
-          reject(error);
-          return;
-        }
-
-        resolve(rpcResponse.data as T);
-      }
-    );
+        reportProgress: !!onProgress,
+      });
+    } catch (error) {
+      pendingRequests
+        .get(requestId)
+        ?.reject(error instanceof Error ? error : new Error(String(error)));
+      pendingRequests.delete(requestId);
+    }
   });
 }
 
@@ -91,10 +273,18 @@ export const opfsApi = {
     return sendRPCRequest<FSEntry[]>('fs.list', params);
   },
 
+  listPage(params: ListPageParams): Promise<ListPage> {
+    return sendRPCRequest<ListPage>('fs.list', params);
+  },
+
   stat(params: StatParams): Promise<FSStats> {
     return sendRPCRequest<FSStats>('fs.stat', params);
   },
 
+  statMany(params: StatManyParams, options?: RPCRequestOptions): Promise<StatManyResult> {
+    return sendRPCRequest<StatManyResult>('fs.statMany', params, options);
+  },
+
   readText(params: ReadTextParams): Promise<ReadTextResult> {
     return sendRPCRequest<ReadTextResult>('fs.readText', params);
   },
@@ -111,6 +301,18 @@ export const opfsApi = {
     return sendRPCRequest<void>('fs.writeBase64', params);
   },
 
+  readRange(params: ReadRangeParams): Promise<ReadRangeResult> {
+    return sendRPCRequest<ReadRangeResult>('fs.readRange', params);
+  },
+
+  writeRange(params: WriteRangeParams): Promise<WriteRangeResult> {
+    return sendRPCRequest<WriteRangeResult>('fs.writeRange', params);
+  },
+
+  abortWrite(params: AbortWriteParams): Promise<boolean> {
+    return sendRPCRequest<boolean>('fs.abortWrite', params);
+  },
+
   mkdir(params: MkdirParams): Promise<void> {
     return sendRPCRequest<void>('fs.mkdir', params);
   },
@@ -123,11 +325,64 @@ export const opfsApi = {
     return sendRPCRequest<void>('fs.delete', params);
   },
 
-  copy(params: CopyParams): Promise<void> {
-    return sendRPCRequest<void>('fs.copy', params);
+  copy(params: CopyParams, options?: RPCRequestOptions): Promise<void> {
+    return sendRPCRequest<void>('fs.copy', params, options);
+  },
+
+  move(params: MoveParams, options?: RPCRequestOptions): Promise<void> {
+    return sendRPCRequest<void>('fs.move', params, options);
+  },
+
+  du(params: DiskUsageParams, options?: RPCRequestOptions): Promise<DiskUsage> {
+    return sendRPCRequest<DiskUsage>('fs.du', params, options);
+  },
+
+  hash(params: HashParams, options?: RPCRequestOptions): Promise<HashResult> {
+    return sendRPCRequest<HashResult>('fs.hash', params, options);
+  },
+
+  gzip(params: GzipParams, options?: RPCRequestOptions): Promise<GzipResult> {
+    return sendRPCRequest<GzipResult>('fs.gzip', params, options);
+  },
+
+  gunzip(params: GzipParams, options?: RPCRequestOptions): Promise<GzipResult> {
+    return sendRPCRequest<GzipResult>('fs.gunzip', params, options);
+  },
+
+  // Matches arrive through onMatches while the search runs, the result only has the totals
+  search(params: SearchParams, options: SearchOptions = {}): Promise<SearchSummary> {
+    const { onMatches, ...rest } = options;
+    return sendRPCRequest<SearchSummary>('fs.search', params, {
+      ...rest,
+      onData: onMatches && ((data) => onMatches(data as SearchMatch[])),
+    });
+  },
+
+  batch(params: BatchParams, options?: RPCRequestOptions): Promise<BatchResult> {
+    return sendRPCRequest<BatchResult>('fs.batch', params, options);
+  },
+
+  watch(params: WatchParams): Promise<WatchResult> {
+    return sendRPCRequest<WatchResult>('fs.watch', params);
+  },
+
+  unwatch(params: UnwatchParams): Promise<boolean> {
+    return sendRPCRequest<boolean>('fs.unwatch', params);
+  },
+
+  listFrames(): Promise<FrameInfo[]> {
+    return sendRPCRequest<FrameInfo[]>('tab.frames');
+  },
+
+  listBuckets(): Promise<BucketInfo[]> {
+    return sendRPCRequest<BucketInfo[]>('buckets.list');
+  },
+
+  openBucket(params: BucketOpenParams): Promise<BucketInfo> {
+    return sendRPCRequest<BucketInfo>('buckets.open', params);
   },
 
-  move(params: MoveParams): Promise<void> {
-    return sendRPCRequest<void>('fs.move', params);
+  deleteBucket(params: BucketDeleteParams): Promise<void> {
+    return sendRPCRequest<void>('buckets.delete', params);
   },
 };
@@ -0,0 +1,367 @@
+import {
+  opfsApi,
+  createRPCError,
+  getBatchItemError,
+  isCancelledError,
+  type RPCRequestOptions,
+} from './rpc';
+import { readBlob, writeFiles, type FileWrite } from './transfer';
+import { basename, dirname, flattenEntries, generateUniqueName, join } from './path';
+import { hashFiles } from './hash';
+import type { OperationTracker } from './operations';
+import { Sha256, toHex } from '../../shared/utils/sha256';
+import { RANGE_CHUNK_SIZE } from '../../shared/rpc/messages';
+import type { ConflictResolution } from '../../shared/types';
+
+/**
+ * Mirroring an OPFS folder and a folder on disk picked with showDirectoryPicker()
+ * Push copies disk to OPFS, pull copies OPFS to disk. Only files are compared, folders are
+ * created as their files are written
+ */
+
+export type SyncDirection = 'push' | 'pull';
+
+// size: sizes differ, mtime: sizes differ or the source is newer, hash: sizes or SHA-256 differ
+export type SyncCompareMode = 'size' | 'mtime' | 'hash';
+
+export interface SyncFile {
+  size: number;
+  lastModified: number;
+  // Only set in hash mode, for files whose size matches the other side
+  sha256?: string;
+}
+
+export interface SyncPlan {
+  direction: SyncDirection;
+  // Relative paths, sorted
+  added: string[];
+  changed: string[];
+  // In the target only
+  deleted: string[];
+  unchanged: string[];
+}
+
+export interface SyncOptions {
+  // What to do with changed files, replace overwrites them
+  resolution: ConflictResolution;
+  // Remove files that are not in the source
+  deleteMissing: boolean;
+}
+
+async function listLocalFilesBelow(
+  handle: FileSystemDirectoryHandle,
+  prefix: string,
+  files: Record<string, SyncFile>
+) {
+  for await (const [name, child] of handle.entries()) {
+    const path = prefix ? `${prefix}/${name}` : name;
+    if (child.kind === 'directory') {
+      await listLocalFilesBelow(child as FileSystemDirectoryHandle, path, files);
+    } else {
+      const file = await (child as FileSystemFileHandle).getFile();
+      files[path] = { size: file.size, lastModified: file.lastModified };
+    }
+  }
+}
+
+// Files below a local folder by relative path
+export async function listLocalFiles(
+  handle: FileSystemDirectoryHandle
+): Promise<Record<string, SyncFile>> {
+  const files: Record<string, SyncFile> = {};
+  await listLocalFilesBelow(handle, '', files);
+  return files;
+}
+
+async function listOPFSFiles(folder: string): Promise<Record<string, SyncFile>> {
+  const files: Record<string, SyncFile> = {};
+  const prefix = folder === '/' ? 1 : folder.length + 1;
+
+  for (const entry of flattenEntries(await opfsApi.list({ path: folder, depth: 999 }))) {
+    if (entry.kind === 'file') {
+      files[entry.path.slice(prefix)] = {
+        size: entry.size ?? 0,
+        lastModified: entry.lastModified ?? 0,
+      };
+    }
+  }
+  return files;
+}
+
+async function getLocalDirectory(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create = false
+): Promise<FileSystemDirectoryHandle> {
+  let dir = root;
+  for (const name of path.split('/').filter(Boolean)) {
+    dir = await dir.getDirectoryHandle(name, { create });
+  }
+  return dir;
+}
+
+async function getLocalFile(root: FileSystemDirectoryHandle, path: string): Promise<File> {
+  const dir = await getLocalDirectory(root, dirname(path));
+  return (await dir.getFileHandle(basename(path))).getFile();
+}
+
+// Hashed in the panel, the local file never goes through the page
+async function hashLocalFile(file: File, signal?: AbortSignal): Promise<string> {
+  const hash = new Sha256();
+  const reader = file.stream().getReader();
+  for (;;) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      throw createRPCError('CANCELLED', 'Operation cancelled');
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+  return toHex(hash.digest());
+}
+
+function isChanged(source: SyncFile, target: SyncFile, mode: SyncCompareMode): boolean {
+  if (source.size !== target.size) return true;
+  if (mode === 'mtime') return source.lastModified > target.lastModified;
+  if (mode === 'hash') return source.sha256 !== target.sha256;
+  return false;
+}
+
+export function planSync(
+  direction: SyncDirection,
+  source: Record<string, SyncFile>,
+  target: Record<string, SyncFile>,
+  mode: SyncCompareMode
+): SyncPlan {
+  const plan: SyncPlan = { direction, added: [], changed: [], deleted: [], unchanged: [] };
+
+  for (const [path, file] of Object.entries(source)) {
+    if (!(path in target)) {
+      plan.added.push(path);
+    } else if (isChanged(file, target[path], mode)) {
+      plan.changed.push(path);
+    } else {
+      plan.unchanged.push(path);
+    }
+  }
+  plan.deleted = Object.keys(target).filter((path) => !(path in source));
+
+  plan.added.sort();
+  plan.changed.sort();
+  plan.deleted.sort();
+  plan.unchanged.sort();
+  return plan;
+}
+
+/**
+ * Compare both sides without changing anything
+ * In hash mode only files present on both sides with the same size are hashed
+ */
+export async function createSyncPlan(
+  direction: SyncDirection,
+  handle: FileSystemDirectoryHandle,
+  folder: string,
+  mode: SyncCompareMode,
+  options?: RPCRequestOptions
+): Promise<SyncPlan> {
+  const local = await listLocalFiles(handle);
+  const opfs = await listOPFSFiles(folder);
+
+  if (mode === 'hash') {
+    const common = Object.keys(local).filter((path) => opfs[path]?.size === local[path].size);
+    const hashes = await hashFiles(
+      common.map((path) => join(folder, path)),
+      options
+    );
+    for (const path of common) {
+      const hash = hashes[join(folder, path)];
+      if (hash instanceof Error) throw hash;
+      opfs[path].sha256 = hash.sha256;
+      local[path].sha256 = await hashLocalFile(await getLocalFile(handle, path), options?.signal);
+    }
+  }
+
+  return direction === 'push'
+    ? planSync(direction, local, opfs, mode)
+    : planSync(direction, opfs, local, mode);
+}
+
+// Where each added or changed file is written, relative to the target folder
+function getTargets(plan: SyncPlan, resolution: ConflictResolution): [string, string][] {
+  const targets: [string, string][] = plan.added.map((path) => [path, path]);
+  if (resolution === 'skip') return targets;
+
+  // Names taken in each folder of the target, for keep-both copies
+  const names = new Map<string, Set<string>>();
+  for (const path of [...plan.added, ...plan.changed, ...plan.deleted, ...plan.unchanged]) {
+    const dir = dirname(path);
+    if (!names.has(dir)) names.set(dir, new Set());
+    names.get(dir)!.add(basename(path));
+  }
+
+  for (const path of plan.changed) {
+    if (resolution === 'replace') {
+      targets.push([path, path]);
+      continue;
+    }
+    const siblings = names.get(dirname(path))!;
+    const name = generateUniqueName(basename(path), siblings, '');
+    siblings.add(name);
+    targets.push([path, join(dirname(path), name).slice(1)]);
+  }
+  return targets;
+}
+
+// Copy the planned files, resolving to the ones that failed
+export async function applySync(
+  plan: SyncPlan,
+  handle: FileSystemDirectoryHandle,
+  folder: string,
+  { resolution, deleteMissing }: SyncOptions,
+  tracker: OperationTracker
+): Promise<{ path: string; error: Error }[]> {
+  const failures: { path: string; error: Error }[] = [];
+  const targets = getTargets(plan, resolution);
+  const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+  if (plan.direction === 'push') {
+    const writes: FileWrite[] = [];
+    for (const [from, to] of targets) {
+      try {
+        writes.push({ path: join(folder, to), blob: await getLocalFile(handle, from) });
+      } catch (error) {
+        failures.push({ path: from, error: toError(error) });
+      }
+    }
+    failures.push(...(await writeFiles(writes, tracker)));
+
+    if (deleteMissing && plan.deleted.length > 0) {
+      const paths = plan.deleted.map((path) => join(folder, path));
+      const { results } = await opfsApi.batch(
+        { operations: paths.map((path) => ({ command: 'fs.delete', params: { path } })) },
+        tracker.requestOptions
+      );
+      tracker.itemDone();
+      results.forEach((result, i) => {
+        const error = getBatchItemError(result);
+        if (error) failures.push({ path: paths[i], error });
+      });
+    }
+    return failures;
+  }
+
+  const { onProgress } = tracker.requestOptions;
+  for (const [from, to] of targets) {
+    const source = join(folder, from);
+    try {
+      const blob = await readBlob(
+        source,
+        undefined,
+        (bytesDone) =>
+          onProgress?.({ filesProcessed: 0, bytesProcessed: bytesDone, currentPath: source }),
+        RANGE_CHUNK_SIZE,
+        tracker.signal
+      );
+      const dir = await getLocalDirectory(handle, dirname(to), true);
+      const writable = await (
+        await dir.getFileHandle(basename(to), { create: true })
+      ).createWritable();
+      await writable.write(blob);
+      await writable.close();
+      onProgress?.({ filesProcessed: 1, bytesProcessed: blob.size });
+    } catch (error) {
+      if (isCancelledError(error)) throw error;
+      failures.push({ path: to, error: toError(error) });
+    }
+    tracker.itemDone();
+  }
+
+  if (deleteMissing) {
+    for (const path of plan.deleted) {
+      try {
+        await (await getLocalDirectory(handle, dirname(path))).removeEntry(basename(path));
+      } catch (error) {
+        failures.push({ path, error: toError(error) });
+      }
+    }
+  }
+  return failures;
+}
+
+// Pairings are kept in IndexedDB, directory handles can't be stored as JSON
+const DB_NAME = 'opfs-finder-sync';
+const STORE_NAME = 'pairings';
+
+export interface SyncPairing {
+  origin: string;
+  // Null for the default OPFS root
+  bucket: string | null;
+  path: string;
+  handle: FileSystemDirectoryHandle;
+  compareMode: SyncCompareMode;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const getPairingKey = (origin: string, bucket: string | null, path: string) => [
+  origin,
+  bucket ?? '',
+  path,
+];
+
+export async function getPairing(
+  origin: string,
+  bucket: string | null,
+  path: string
+): Promise<SyncPairing | null> {
+  const pairing = await runTransaction<SyncPairing | undefined>('readonly', (store) =>
+    store.get(getPairingKey(origin, bucket, path))
+  );
+  return pairing ?? null;
+}
+
+export async function savePairing(pairing: SyncPairing): Promise<void> {
+  await runTransaction('readwrite', (store) =>
+    store.put(pairing, getPairingKey(pairing.origin, pairing.bucket, pairing.path))
+  );
+}
+
+export async function deletePairing(
+  origin: string,
+  bucket: string | null,
+  path: string
+): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(getPairingKey(origin, bucket, path)));
+}
+
+// Access to a remembered folder has to be granted again in each new session
+export async function ensurePermission(handle: FileSystemDirectoryHandle): Promise<void> {
+  if ((await handle.queryPermission({ mode: 'readwrite' })) === 'granted') return;
+  if ((await handle.requestPermission({ mode: 'readwrite' })) !== 'granted') {
+    throw new Error(`Access to "${handle.name}" was not granted`);
+  }
+}
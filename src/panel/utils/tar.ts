@@ -0,0 +1,272 @@
+import { opfsApi } from './rpc';
+import { readBytes, createReadStream } from './transfer';
+import { normalize } from './path';
+import { isGzipFile } from './gzip';
+
+/**
+ * Read-only access to .tar and .tar.gz files in OPFS
+ * Plain tars are read through fs.readRange and file contents are skipped without transferring
+ * them. Gzipped ones have no index, so they are decompressed from the start every time
+ */
+
+const BLOCK_SIZE = 512;
+// Headers are read this much at a time, so many small files don't take a round trip each
+const WINDOW_SIZE = 256 * 1024;
+
+export interface TarEntry {
+  // Inside the archive, with a leading slash like OPFS paths
+  path: string;
+  kind: 'file' | 'directory';
+  size: number;
+  lastModified: number;
+  // Of the content in the (decompressed) tar stream
+  offset: number;
+}
+
+// Sequential reads through a tar, skipping forward where content is not needed
+interface ByteSource {
+  position: number;
+  // Null at the end of the data
+  read(length: number): Promise<Uint8Array<ArrayBuffer> | null>;
+  skip(length: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+function createRangeSource(path: string, size: number): ByteSource {
+  let buffer = new Uint8Array(0);
+  let bufferOffset = 0;
+
+  return {
+    position: 0,
+    async read(length) {
+      if (this.position + length > size) return null;
+      const start = this.position - bufferOffset;
+      if (start < 0 || start + length > buffer.length) {
+        bufferOffset = this.position;
+        buffer = await readBytes(
+          path,
+          bufferOffset,
+          Math.min(Math.max(length, WINDOW_SIZE), size - bufferOffset)
+        );
+      }
+      const bytes = buffer.subarray(
+        this.position - bufferOffset,
+        this.position - bufferOffset + length
+      );
+      this.position += length;
+      return bytes;
+    },
+    async skip(length) {
+      this.position += length;
+    },
+    async close() {},
+  };
+}
+
+function createGunzipSource(path: string): ByteSource {
+  const reader = createReadStream(path).pipeThrough(new DecompressionStream('gzip')).getReader();
+  let chunks: Uint8Array[] = [];
+  let available = 0;
+
+  // Buffer at least `length` bytes, false when the stream ends first
+  const fill = async (length: number) => {
+    while (available < length) {
+      const { done, value } = await reader.read();
+      if (done) return false;
+      chunks.push(value);
+      available += value.length;
+    }
+    return true;
+  };
+
+  // Drop `length` buffered bytes, copying them out when asked to
+  const take = (length: number, keep: boolean) => {
+    const bytes = keep ? new Uint8Array(length) : null;
+    let done = 0;
+    while (done < length) {
+      const chunk = chunks[0];
+      const count = Math.min(chunk.length, length - done);
+      bytes?.set(chunk.subarray(0, count), done);
+      if (count === chunk.length) {
+        chunks = chunks.slice(1);
+      } else {
+        chunks[0] = chunk.subarray(count);
+      }
+      done += count;
+    }
+    available -= length;
+    return bytes;
+  };
+
+  return {
+    position: 0,
+    async read(length) {
+      if (!(await fill(length))) return null;
+      this.position += length;
+      return take(length, true);
+    },
+    async skip(length) {
+      let remaining = length;
+      while (remaining > 0) {
+        if (available === 0 && !(await fill(1))) return;
+        const count = Math.min(remaining, available);
+        take(count, false);
+        remaining -= count;
+        this.position += count;
+      }
+    },
+    async close() {
+      await reader.cancel();
+    },
+  };
+}
+
+async function openSource(path: string): Promise<ByteSource> {
+  if (isGzipFile(path)) {
+    return createGunzipSource(path);
+  }
+  const { size } = await opfsApi.stat({ path });
+  return createRangeSource(path, size);
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end < 0 ? field : field.subarray(0, end));
+}
+
+// Octal, or big-endian binary when the top bit of the first byte is set (GNU, for large values)
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+  return parseInt(readString(block, offset, length).trim() || '0', 8);
+}
+
+// "<length> <key>=<value>\n" records of a pax extended header. The length counts the bytes of the
+// whole record, as values (paths, comments) may contain newlines
+function parsePaxHeader(data: Uint8Array): Record<string, string> {
+  const decoder = new TextDecoder();
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const digits = space < 0 ? '' : decoder.decode(data.subarray(offset, space));
+    const length = /^\d+$/.test(digits) ? Number(digits) : 0;
+    const end = offset + length;
+
+    // A malformed length is skipped up to the next newline
+    if (end <= space + 1 || end > data.length || data[end - 1] !== 0x0a) {
+      const newline = data.indexOf(0x0a, offset);
+      offset = newline < 0 ? data.length : newline + 1;
+      continue;
+    }
+
+    const record = decoder.decode(data.subarray(space + 1, end - 1));
+    const equals = record.indexOf('=');
+    if (equals > 0) records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset = end;
+  }
+  return records;
+}
+
+const paddedSize = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+function parseTarHeader(block: Uint8Array) {
+  const prefix = block[257] === 0x75 ? readString(block, 345, 155) : ''; // "ustar"
+  const name = readString(block, 0, 100);
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size: readNumber(block, 124, 12),
+    lastModified: readNumber(block, 136, 12) * 1000,
+    type: String.fromCharCode(block[156] || 0x30),
+  };
+}
+
+export async function readTarDirectory(path: string): Promise<TarEntry[]> {
+  const source = await openSource(path);
+  const entries: TarEntry[] = [];
+  // Set by GNU long name and pax headers for the entry that follows
+  let nextName: string | null = null;
+  let nextSize: number | null = null;
+
+  try {
+    for (;;) {
+      const block = await source.read(BLOCK_SIZE);
+      // Two zero blocks end the archive, some writers stop after one
+      if (!block || block.every((byte) => byte === 0)) break;
+
+      const header = parseTarHeader(block);
+      if (header.type === 'L' || header.type === 'x') {
+        const data = await source.read(header.size);
+        if (!data) break;
+        await source.skip(paddedSize(header.size) - header.size);
+        if (header.type === 'L') {
+          nextName = readString(data, 0, data.length);
+        } else {
+          const pax = parsePaxHeader(data);
+          nextName = pax.path ?? nextName;
+          nextSize = pax.size ? Number(pax.size) : nextSize;
+        }
+        continue;
+      }
+
+      const name = nextName ?? header.name;
+      const size = nextSize ?? header.size;
+      nextName = null;
+      nextSize = null;
+
+      // Regular files and folders, links and devices are not shown
+      const kind =
+        header.type === '5'
+          ? 'directory'
+          : header.type === '0' || header.type === '7'
+            ? 'file'
+            : null;
+      const entryPath = normalize(
+        name
+          .split('/')
+          .filter((part) => part !== '.')
+          .join('/')
+      );
+      if (kind && entryPath !== '/' && !name.split('/').includes('..')) {
+        entries.push({
+          path: entryPath,
+          kind,
+          size: kind === 'file' ? size : 0,
+          lastModified: header.lastModified,
+          offset: source.position,
+        });
+      }
+      await source.skip(paddedSize(size));
+    }
+  } finally {
+    await source.close();
+  }
+  return entries;
+}
+
+export async function readTarEntry(
+  path: string,
+  entry: TarEntry
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (!isGzipFile(path)) {
+    return readBytes(path, entry.offset, entry.size);
+  }
+
+  const source = createGunzipSource(path);
+  try {
+    await source.skip(entry.offset);
+    const data = await source.read(entry.size);
+    if (!data) {
+      throw new Error('Unexpected end of archive');
+    }
+    return data;
+  } finally {
+    await source.close();
+  }
+}
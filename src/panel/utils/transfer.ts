@@ -0,0 +1,206 @@
+import { opfsApi, createRPCError, getBatchItemError, isCancelledError } from './rpc';
+import type { OperationTracker } from './operations';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  base64ToUint8Array,
+} from '../../shared/utils/base64';
+import { RANGE_CHUNK_SIZE } from '../../shared/rpc/messages';
+import type { BatchOperation } from '../../shared/types';
+
+/**
+ * Chunked file transfer helpers built on fs.readRange / fs.writeRange
+ * Each RPC round trip carries at most `chunkSize` bytes
+ */
+
+export type TransferProgressCallback = (bytesDone: number, bytesTotal: number) => void;
+
+export async function writeBlob(
+  path: string,
+  blob: Blob,
+  onProgress?: TransferProgressCallback,
+  chunkSize = RANGE_CHUNK_SIZE,
+  signal?: AbortSignal
+): Promise<void> {
+  let offset = 0;
+  // The file's writable stays open between chunks and is committed by the last one
+  let session: string | undefined;
+
+  try {
+    do {
+      if (signal?.aborted) {
+        throw createRPCError('CANCELLED', 'Operation cancelled');
+      }
+      const end = Math.min(offset + chunkSize, blob.size);
+      const data = await blob.slice(offset, end).arrayBuffer();
+      const result = await opfsApi.writeRange({
+        path,
+        offset,
+        base64: arrayBufferToBase64(data),
+        truncate: end >= blob.size,
+        session,
+        keepOpen: end < blob.size,
+      });
+      session = result.session;
+      offset = end;
+      onProgress?.(offset, blob.size);
+    } while (offset < blob.size);
+  } catch (error) {
+    if (session) {
+      await opfsApi.abortWrite({ session }).catch(() => {
+        // Expires on its own
+      });
+    }
+    throw error;
+  }
+}
+
+export async function readBlob(
+  path: string,
+  mimeType = 'application/octet-stream',
+  onProgress?: TransferProgressCallback,
+  chunkSize = RANGE_CHUNK_SIZE,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  let offset = 0;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw createRPCError('CANCELLED', 'Operation cancelled');
+    }
+    const result = await opfsApi.readRange({ path, offset, length: chunkSize });
+    parts.push(base64ToArrayBuffer(result.base64));
+    offset = result.offset + result.bytesRead;
+    onProgress?.(offset, result.size);
+    if (result.eof || result.bytesRead === 0) break;
+  }
+
+  return new Blob(parts, { type: mimeType });
+}
+
+// Exactly `length` bytes from `offset`, failing when the file is shorter
+export async function readBytes(
+  path: string,
+  offset: number,
+  length: number,
+  chunkSize = RANGE_CHUNK_SIZE
+): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes = new Uint8Array(length);
+  let done = 0;
+
+  while (done < length) {
+    const result = await opfsApi.readRange({
+      path,
+      offset: offset + done,
+      length: Math.min(length - done, chunkSize),
+    });
+    if (result.bytesRead === 0) {
+      throw new Error('Unexpected end of file');
+    }
+    bytes.set(base64ToUint8Array(result.base64), done);
+    done += result.bytesRead;
+  }
+  return bytes;
+}
+
+// The file as a stream of chunks, each fetched when the consumer asks for it
+export function createReadStream(
+  path: string,
+  chunkSize = RANGE_CHUNK_SIZE
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  let offset = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      const result = await opfsApi.readRange({ path, offset, length: chunkSize });
+      offset = result.offset + result.bytesRead;
+      if (result.bytesRead > 0) {
+        controller.enqueue(new Uint8Array(base64ToArrayBuffer(result.base64)));
+      }
+      if (result.eof || result.bytesRead === 0) {
+        controller.close();
+      }
+    },
+  });
+}
+
+export interface FileWrite {
+  path: string;
+  blob: Blob;
+}
+
+/**
+ * Write many files, packing small ones into fs.batch requests of up to `chunkSize` bytes
+ * Larger files go through writeBlob and report their progress chunk by chunk. Files are taken
+ * from `files` as they are needed; resolves to the ones that failed
+ */
+export async function writeFiles(
+  files: Iterable<FileWrite> | AsyncIterable<FileWrite>,
+  tracker: OperationTracker,
+  chunkSize = RANGE_CHUNK_SIZE
+): Promise<{ path: string; error: Error }[]> {
+  const failures: { path: string; error: Error }[] = [];
+  const { onProgress } = tracker.requestOptions;
+  let pending: { path: string; operation: BatchOperation }[] = [];
+  let pendingBytes = 0;
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    pendingBytes = 0;
+
+    const { results } = await opfsApi.batch(
+      { operations: batch.map((item) => item.operation) },
+      tracker.requestOptions
+    );
+    tracker.itemDone();
+    results.forEach((result, i) => {
+      const error = getBatchItemError(result);
+      if (error) failures.push({ path: batch[i].path, error });
+    });
+  };
+
+  for await (const { path, blob } of files) {
+    if (tracker.signal.aborted) {
+      throw createRPCError('CANCELLED', 'Operation cancelled');
+    }
+
+    if (blob.size > chunkSize) {
+      await flush();
+      try {
+        await writeBlob(
+          path,
+          blob,
+          (bytesDone) =>
+            onProgress?.({ filesProcessed: 0, bytesProcessed: bytesDone, currentPath: path }),
+          chunkSize,
+          tracker.signal
+        );
+        onProgress?.({ filesProcessed: 1, bytesProcessed: blob.size });
+      } catch (error) {
+        if (isCancelledError(error)) throw error;
+        failures.push({ path, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+      tracker.itemDone();
+      continue;
+    }
+
+    if (pendingBytes + blob.size > chunkSize) {
+      await flush();
+    }
+
+    const data = await blob.arrayBuffer();
+    pending.push({
+      path,
+      operation: {
+        command: 'fs.writeRange',
+        params: { path, offset: 0, base64: arrayBufferToBase64(data), truncate: true },
+      },
+    });
+    pendingBytes += blob.size;
+  }
+
+  await flush();
+  return failures;
+}
@@ -0,0 +1,171 @@
+/**
+ * Squarified treemap layout for the storage usage map
+ * Sizes come from a recursive fs.list, folders are the sum of their contents
+ */
+
+import type { FSEntry, FileKind } from '../../shared/types';
+
+export interface SizeNode {
+  name: string;
+  path: string;
+  kind: FileKind;
+  size: number;
+  children: SizeNode[];
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapRect extends Rect {
+  node: SizeNode;
+  depth: number;
+}
+
+export interface TreemapOptions {
+  // Nesting levels drawn below the root, 0 = only its direct children
+  maxDepth?: number;
+  // Space reserved at the top of a folder for its label
+  headerHeight?: number;
+  padding?: number;
+  // Folders smaller than this in either direction are drawn without their contents
+  minSize?: number;
+}
+
+/**
+ * Build a size tree from the nested result of fs.list with a large depth
+ */
+export function buildSizeTree(entries: FSEntry[], path = '/', name = '/'): SizeNode {
+  const children = entries.map((entry) =>
+    entry.kind === 'directory'
+      ? buildSizeTree(entry.children ?? [], entry.path, entry.name)
+      : {
+          name: entry.name,
+          path: entry.path,
+          kind: entry.kind,
+          size: entry.size ?? 0,
+          children: [],
+        }
+  );
+
+  return {
+    name,
+    path,
+    kind: 'directory',
+    size: children.reduce((total, child) => total + child.size, 0),
+    children,
+  };
+}
+
+interface RowItem {
+  node: SizeNode;
+  area: number;
+}
+
+// Worst aspect ratio of a row laid out along a side of the given length
+function worstRatio(row: RowItem[], side: number): number {
+  const sum = row.reduce((total, item) => total + item.area, 0);
+  const max = Math.max(...row.map((item) => item.area));
+  const min = Math.min(...row.map((item) => item.area));
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+// Place a row along the shorter side of rect and return the space left over
+function layoutRow(row: RowItem[], rect: Rect, out: { node: SizeNode; rect: Rect }[]): Rect {
+  const sum = row.reduce((total, item) => total + item.area, 0);
+
+  if (rect.width >= rect.height) {
+    const width = sum / rect.height;
+    let y = rect.y;
+    for (const { node, area } of row) {
+      const height = area / width;
+      out.push({ node, rect: { x: rect.x, y, width, height } });
+      y += height;
+    }
+    return { x: rect.x + width, y: rect.y, width: rect.width - width, height: rect.height };
+  }
+
+  const height = sum / rect.width;
+  let x = rect.x;
+  for (const { node, area } of row) {
+    const width = area / height;
+    out.push({ node, rect: { x, y: rect.y, width, height } });
+    x += width;
+  }
+  return { x: rect.x, y: rect.y + height, width: rect.width, height: rect.height - height };
+}
+
+/**
+ * Split rect between nodes proportionally to their size, keeping blocks close to square
+ * Nodes without size get no block
+ */
+export function squarify(nodes: SizeNode[], rect: Rect): { node: SizeNode; rect: Rect }[] {
+  const sized = nodes.filter((node) => node.size > 0).sort((a, b) => b.size - a.size);
+  const total = sized.reduce((sum, node) => sum + node.size, 0);
+  if (total === 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+  const scale = (rect.width * rect.height) / total;
+  const items = sized.map((node) => ({ node, area: node.size * scale }));
+  const out: { node: SizeNode; rect: Rect }[] = [];
+
+  let remaining = rect;
+  let row: RowItem[] = [];
+
+  for (const item of items) {
+    const side = Math.min(remaining.width, remaining.height);
+    if (row.length === 0 || worstRatio([...row, item], side) <= worstRatio(row, side)) {
+      row.push(item);
+      continue;
+    }
+    remaining = layoutRow(row, remaining, out);
+    row = [item];
+  }
+  if (row.length > 0) {
+    layoutRow(row, remaining, out);
+  }
+
+  return out;
+}
+
+/**
+ * Lay out the contents of root in a width x height area, nesting folders inside their block
+ * Parents come before their children, so rendering in order stacks them correctly
+ */
+export function layoutTreemap(
+  root: SizeNode,
+  width: number,
+  height: number,
+  { maxDepth = 3, headerHeight = 16, padding = 2, minSize = 24 }: TreemapOptions = {}
+): TreemapRect[] {
+  const rects: TreemapRect[] = [];
+
+  const visit = (node: SizeNode, area: Rect, depth: number) => {
+    for (const { node: child, rect } of squarify(node.children, area)) {
+      rects.push({ node: child, depth, ...rect });
+
+      const canNest =
+        child.kind === 'directory' &&
+        depth < maxDepth &&
+        rect.width > minSize + padding * 2 &&
+        rect.height > minSize + headerHeight + padding;
+      if (canNest) {
+        visit(
+          child,
+          {
+            x: rect.x + padding,
+            y: rect.y + headerHeight,
+            width: rect.width - padding * 2,
+            height: rect.height - headerHeight - padding,
+          },
+          depth + 1
+        );
+      }
+    }
+  };
+
+  visit(root, { x: 0, y: 0, width, height }, 0);
+  return rects;
+}
@@ -0,0 +1,250 @@
+import { opfsApi, getBatchItemError, getRPCErrorCode } from './rpc';
+import { writeFiles, type FileWrite } from './transfer';
+import { generateUniqueName, join } from './path';
+import type { OperationTracker } from './operations';
+import type { ConflictResolution } from '../../shared/types';
+
+/**
+ * Importing files and folders from the OS
+ * Dropped and picked folders keep their structure: small files are packed into fs.batch
+ * requests, larger ones are written RANGE_CHUNK_SIZE at a time
+ */
+
+export interface UploadItem {
+  // Relative to the folder it is imported into, e.g. "photos/2024/a.jpg"
+  path: string;
+  // Null for folders
+  file: File | null;
+}
+
+// readEntries() returns at most 100 entries per call, an empty list at the end
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry) {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, path: string, items: UploadItem[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    items.push({ path, file });
+    return;
+  }
+  items.push({ path, file: null });
+  for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+    await collectEntry(child, `${path}/${child.name}`, items);
+  }
+}
+
+async function collectHandle(handle: FileSystemHandle, path: string, items: UploadItem[]) {
+  if (handle.kind === 'file') {
+    items.push({ path, file: await (handle as FileSystemFileHandle).getFile() });
+    return;
+  }
+  items.push({ path, file: null });
+  for await (const [name, child] of (handle as FileSystemDirectoryHandle).entries()) {
+    await collectHandle(child, `${path}/${name}`, items);
+  }
+}
+
+/**
+ * Files and folders of a drop, walking into folders
+ * Must be called while the drop event is handled, its items can't be read afterwards
+ */
+export function getDroppedItems(dataTransfer: DataTransfer): Promise<UploadItem[]> {
+  const files = Array.from(dataTransfer.files);
+  const sources = Array.from(dataTransfer.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFileSystemHandle?.() ?? item.webkitGetAsEntry());
+
+  return (async () => {
+    const items: UploadItem[] = [];
+    for (const source of sources) {
+      const resolved = await source;
+      if (!resolved) continue;
+      if ('kind' in resolved) {
+        await collectHandle(resolved, resolved.name, items);
+      } else {
+        await collectEntry(resolved, resolved.name, items);
+      }
+    }
+    // Neither API is available: a flat list of the dropped files
+    if (sources.length === 0) {
+      return files.map((file) => ({ path: file.name, file }));
+    }
+    return items;
+  })();
+}
+
+// Files of an <input type="file">, with their folders when it has the webkitdirectory attribute
+export function getPickedItems(files: File[]): UploadItem[] {
+  return files.map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+}
+
+export interface TargetResolver {
+  // Where a path relative to the target folder is written, null for skipped paths
+  resolve: (path: string) => Promise<string | null>;
+  // Swap replaced items in once everything is written, resolving to the failures with their
+  // final paths. A replaced item with failures below it is kept as it was
+  finish: (failures: { path: string; error: Error }[]) => Promise<{ path: string; error: Error }[]>;
+  // Drop what was written for replaced items, after a cancel
+  discard: () => Promise<void>;
+  // Whether a resolved path belongs to a replaced item that finish() did not swap in
+  isDropped: (path: string) => boolean;
+}
+
+/**
+ * Where paths relative to `targetPath` end up, with clashes of their top level names sent
+ * through `resolveConflict` once per name. Replacements are written to a hidden sibling first,
+ * so the existing item is only removed once the new one is complete
+ */
+export async function createTargetResolver(
+  targetPath: string,
+  resolveConflict: (name: string) => Promise<ConflictResolution>
+): Promise<TargetResolver> {
+  const existingNames = new Set(
+    (await opfsApi.list({ path: targetPath, namesOnly: true })).map((entry) => entry.name)
+  );
+  const targets = new Map<string, string | null>();
+  // Temporary path of each replaced item, by its final path
+  const replacements = new Map<string, string>();
+  const dropped = new Set<string>();
+
+  const resolve = async (path: string) => {
+    const [name, ...rest] = path.split('/');
+    if (!targets.has(name)) {
+      let target: string | null = join(targetPath, name);
+      if (existingNames.has(name)) {
+        const resolution = await resolveConflict(name);
+        if (resolution === 'skip') {
+          target = null;
+        } else if (resolution === 'keep-both') {
+          const newName = generateUniqueName(name, existingNames, '');
+          existingNames.add(newName);
+          target = join(targetPath, newName);
+        } else {
+          const temp = join(targetPath, `.${name}.${Date.now().toString(36)}.tmp`);
+          replacements.set(target, temp);
+          target = temp;
+        }
+      }
+      targets.set(name, target);
+    }
+    const target = targets.get(name);
+    return target ? join(target, ...rest) : null;
+  };
+
+  const isBelow = (path: string, folder: string) =>
+    path === folder || path.startsWith(`${folder}/`);
+
+  const finish = async (failures: { path: string; error: Error }[]) => {
+    const finished = [...failures];
+    for (const [final, temp] of replacements) {
+      const failed = failures.some(({ path }) => isBelow(path, temp));
+      if (failed) dropped.add(temp);
+      try {
+        if (failed) {
+          await opfsApi.delete({ path: temp, recursive: true });
+        } else {
+          await opfsApi.move({ from: temp, to: final, overwrite: true });
+        }
+      } catch (error) {
+        dropped.add(temp);
+        finished.push({
+          path: final,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+    return finished.map((failure) => {
+      for (const [final, temp] of replacements) {
+        if (isBelow(failure.path, temp)) {
+          return { ...failure, path: final + failure.path.slice(temp.length) };
+        }
+      }
+      return failure;
+    });
+  };
+
+  const discard = async () => {
+    for (const temp of replacements.values()) {
+      await opfsApi.delete({ path: temp, recursive: true }).catch(() => {
+        // Nothing was written yet
+      });
+    }
+  };
+
+  const isDropped = (path: string) => [...dropped].some((temp) => isBelow(path, temp));
+
+  return { resolve, finish, discard, isDropped };
+}
+
+// Create folders in one batch, ones that already exist are fine. Writing a file creates its
+// parents, so this is only needed to keep empty folders
+export async function createFolders(
+  folders: string[],
+  tracker: OperationTracker
+): Promise<{ path: string; error: Error }[]> {
+  if (folders.length === 0) return [];
+
+  const { results } = await opfsApi.batch(
+    { operations: folders.map((path) => ({ command: 'fs.mkdir', params: { path } })) },
+    tracker.requestOptions
+  );
+  tracker.itemDone();
+
+  const failures: { path: string; error: Error }[] = [];
+  results.forEach((result, i) => {
+    const error = getBatchItemError(result);
+    if (error && getRPCErrorCode(error) !== 'EEXIST') {
+      failures.push({ path: folders[i], error });
+    }
+  });
+  return failures;
+}
+
+// Write the items below `targetPath`, resolving to how many were imported and the ones that
+// failed. Skipped items count as neither
+export async function importItems(
+  items: UploadItem[],
+  targetPath: string,
+  resolveConflict: (name: string) => Promise<ConflictResolution>,
+  tracker: OperationTracker
+): Promise<{ imported: number; failures: { path: string; error: Error }[] }> {
+  const targets = await createTargetResolver(targetPath, resolveConflict);
+
+  const folders: string[] = [];
+  const writes: FileWrite[] = [];
+  for (const item of items) {
+    const target = await targets.resolve(item.path);
+    if (!target) continue;
+    if (item.file) {
+      writes.push({ path: target, blob: item.file });
+    } else {
+      folders.push(target);
+    }
+  }
+
+  try {
+    const failures = await createFolders(folders, tracker);
+    failures.push(...(await writeFiles(writes, tracker)));
+    const failedPaths = new Set(failures.map(({ path }) => path));
+    const finished = await targets.finish(failures);
+
+    const imported = [...folders, ...writes.map(({ path }) => path)].filter(
+      (path) => !failedPaths.has(path) && !targets.isDropped(path)
+    ).length;
+    return { imported, failures: finished };
+  } catch (error) {
+    await targets.discard();
+    throw error;
+  }
+}
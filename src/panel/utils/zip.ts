@@ -0,0 +1,189 @@
+import { opfsApi } from './rpc';
+import { readBytes } from './transfer';
+import { normalize } from './path';
+
+/**
+ * Read-only access to ZIP files in OPFS through fs.readRange
+ * Only the central directory and the entries that are opened are transferred
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// End of central directory record, plus the longest possible comment
+const EOCD_SIZE = 22;
+const EOCD_SEARCH_SIZE = EOCD_SIZE + 0xffff;
+
+export interface ZipEntry {
+  // Inside the archive, with a leading slash like OPFS paths
+  path: string;
+  kind: 'file' | 'directory';
+  size: number;
+  compressedSize: number;
+  // 0 = stored, 8 = deflate
+  method: number;
+  lastModified: number;
+  encrypted: boolean;
+  // Of the local file header
+  offset: number;
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint64(data: DataView, offset: number): number {
+  return data.getUint32(offset + 4, true) * 0x100000000 + data.getUint32(offset, true);
+}
+
+// DOS date and time fields are local time with two second precision
+function fromDosDateTime(date: number, time: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+async function findCentralDirectory(path: string, size: number) {
+  const tailOffset = Math.max(0, size - EOCD_SEARCH_SIZE);
+  const tail = await readBytes(path, tailOffset, size - tailOffset);
+  const data = view(tail);
+
+  let eocd = -1;
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (data.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP file');
+  }
+
+  let count = data.getUint16(eocd + 10, true);
+  let length = data.getUint32(eocd + 12, true);
+  let offset = data.getUint32(eocd + 16, true);
+
+  // ZIP64 keeps the real values in a record found through a locator right before this one
+  const locator = eocd - 20;
+  if (
+    offset === 0xffffffff &&
+    locator >= 0 &&
+    data.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE
+  ) {
+    const record = view(await readBytes(path, readUint64(data, locator + 8), 56));
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Invalid ZIP64 end of central directory');
+    }
+    count = readUint64(record, 32);
+    length = readUint64(record, 40);
+    offset = readUint64(record, 48);
+  }
+
+  return { count, length, offset };
+}
+
+export function parseCentralDirectory(bytes: Uint8Array, count: number): ZipEntry[] {
+  const data = view(bytes);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (data.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Invalid ZIP central directory');
+    }
+    const flags = data.getUint16(pos + 8, true);
+    const nameLength = data.getUint16(pos + 28, true);
+    const extraLength = data.getUint16(pos + 30, true);
+    const commentLength = data.getUint16(pos + 32, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    const entry: ZipEntry = {
+      path: normalize(name.replace(/\\/g, '/')),
+      kind: name.endsWith('/') ? 'directory' : 'file',
+      size: data.getUint32(pos + 24, true),
+      compressedSize: data.getUint32(pos + 20, true),
+      method: data.getUint16(pos + 10, true),
+      lastModified: fromDosDateTime(data.getUint16(pos + 14, true), data.getUint16(pos + 12, true)),
+      encrypted: (flags & 1) === 1,
+      offset: data.getUint32(pos + 42, true),
+    };
+
+    // Extra fields: ZIP64 sizes and offset, and the Unix modification time
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = data.getUint16(extra, true);
+      const fieldSize = data.getUint16(extra + 2, true);
+      let field = extra + 4;
+      if (id === 0x0001) {
+        if (entry.size === 0xffffffff) {
+          entry.size = readUint64(data, field);
+          field += 8;
+        }
+        if (entry.compressedSize === 0xffffffff) {
+          entry.compressedSize = readUint64(data, field);
+          field += 8;
+        }
+        if (entry.offset === 0xffffffff) {
+          entry.offset = readUint64(data, field);
+        }
+      } else if (id === 0x5455 && fieldSize >= 5 && data.getUint8(field) & 1) {
+        entry.lastModified = data.getUint32(field + 1, true) * 1000;
+      }
+      extra += 4 + fieldSize;
+    }
+
+    // Names climbing out of the archive ("../") are not shown
+    if (!name.split(/[\\/]/).includes('..') && entry.path !== '/') {
+      entries.push(entry);
+    }
+    pos = extraEnd + commentLength;
+  }
+  return entries;
+}
+
+export async function readZipDirectory(path: string): Promise<ZipEntry[]> {
+  const { size } = await opfsApi.stat({ path });
+  const { count, length, offset } = await findCentralDirectory(path, size);
+  return parseCentralDirectory(await readBytes(path, offset, length), count);
+}
+
+// The uncompressed content of a file entry
+export async function readZipEntry(
+  path: string,
+  entry: ZipEntry
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (entry.encrypted) {
+    throw new Error('Encrypted ZIP entries are not supported');
+  }
+
+  const header = view(await readBytes(path, entry.offset, 30));
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+    throw new Error('Invalid ZIP local file header');
+  }
+  const dataOffset = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = await readBytes(path, dataOffset, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  }
+  const stream = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
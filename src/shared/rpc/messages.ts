@@ -1,20 +1,99 @@
-import type { RPCCommand, RPCResponse } from '../types';
+import type { FSEntry, RPCCommand, RPCProgress, RPCResponse, WatchChange } from '../types';
+
+// Standalone bundle of src/injected, emitted by the build at the extension root
+export const INJECTED_SCRIPT_FILE = 'injected.js';
+
+// Global under which injected.js registers itself. It lives in the extension's
+// isolated world, so page scripts can neither read nor replace it
+export const INJECTED_HANDLER_KEY = '__opfsFinderHandler';
+
+export interface InjectedHandler {
+  version: string;
+  handle: (
+    command: RPCCommand,
+    params: Record<string, unknown>,
+    requestId?: string
+  ) => Promise<RPCResponse>;
+}
+
+// Bump when the injected handler changes so stale copies in open tabs get replaced
+export const OPFS_HANDLER_VERSION = '2026-10-19-16';
+
+// webNavigation id of a tab's top-level frame
+export const TOP_FRAME_ID = 0;
+
+// Name of the long-lived port the panel opens to the background
+export const RPC_PORT_NAME = 'opfs-rpc';
+
+// How often the background polls the page for progress of a running command
+export const PROGRESS_POLL_INTERVAL = 250;
+
+// How often a watched directory is re-listed when FileSystemObserver is unavailable
+export const WATCH_POLL_INTERVAL = 2000;
 
 // Message types for communication between panel and background
-export interface PanelToBackgroundMessage {
+export interface RPCRequestMessage {
   type: 'OPFS_RPC_REQUEST';
   tabId: number;
+  // Omitted for the top frame
+  frameId?: number;
   command: RPCCommand;
   params: Record<string, unknown>;
   requestId: string;
+  reportProgress?: boolean;
+}
+
+export interface RPCCancelMessage {
+  type: 'OPFS_RPC_CANCEL';
+  requestId: string;
 }
 
-export interface BackgroundToPanelMessage {
+export type PanelToBackgroundMessage = RPCRequestMessage | RPCCancelMessage;
+
+export interface RPCResponseMessage {
   type: 'OPFS_RPC_RESPONSE';
   requestId: string;
   response: RPCResponse;
 }
 
+export interface RPCProgressMessage {
+  type: 'OPFS_RPC_PROGRESS';
+  requestId: string;
+  progress: RPCProgress;
+}
+
+// Sent by the injected handler through chrome.runtime and forwarded to the panel that owns the watch
+export interface WatchEventMessage {
+  type: 'OPFS_WATCH_EVENT';
+  watchId: string;
+  changes: WatchChange[];
+  // Metadata of the added and modified entries
+  entries: FSEntry[];
+}
+
+// Partial results of a running command (e.g. fs.search matches), sent by the injected
+// handler through chrome.runtime and forwarded to the panel that made the request
+export interface RPCStreamMessage {
+  type: 'OPFS_RPC_STREAM';
+  requestId: string;
+  data: unknown;
+}
+
+export type BackgroundToPanelMessage =
+  | RPCResponseMessage
+  | RPCProgressMessage
+  | RPCStreamMessage
+  | WatchEventMessage;
+
+// Entries per fs.list page when the panel opens a directory
+export const LIST_PAGE_SIZE = 500;
+
+// Paths per fs.statMany request when filling in metadata of a listing
+export const STAT_MANY_CHUNK_SIZE = 250;
+
+// Bytes per fs.readRange / fs.writeRange call when streaming large files
+export const RANGE_CHUNK_SIZE = 4 * 1024 * 1024;
+
 export function createRequestId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
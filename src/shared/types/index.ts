@@ -30,15 +30,33 @@ export type RPCCommand =
   | 'opfs.estimate'
   | 'fs.list'
   | 'fs.stat'
+  | 'fs.statMany'
   | 'fs.readText'
   | 'fs.writeText'
   | 'fs.readBase64'
   | 'fs.writeBase64'
+  | 'fs.readRange'
+  | 'fs.writeRange'
+  | 'fs.abortWrite'
   | 'fs.mkdir'
   | 'fs.createFile'
   | 'fs.delete'
   | 'fs.copy'
-  | 'fs.move';
+  | 'fs.move'
+  | 'fs.du'
+  | 'fs.hash'
+  | 'fs.gzip'
+  | 'fs.gunzip'
+  | 'fs.search'
+  | 'fs.batch'
+  | 'fs.watch'
+  | 'fs.unwatch'
+  | 'op.progress'
+  | 'op.cancel'
+  | 'tab.frames'
+  | 'buckets.list'
+  | 'buckets.open'
+  | 'buckets.delete';
 
 export interface RPCRequest {
   id: string;
@@ -51,10 +69,29 @@ export interface RPCSuccessResponse<T = unknown> {
   data: T;
 }
 
+// Error codes returned by the OPFS handler, mostly mapped from DOMException names
+export type RPCErrorCode =
+  | 'EEXIST'
+  | 'ENOENT'
+  | 'ENOTDIR'
+  | 'LOCKED'
+  | 'QUOTA_EXCEEDED'
+  | 'INVALID_NAME'
+  | 'INVALID_MODIFICATION'
+  | 'NOT_ALLOWED'
+  | 'NOT_SUPPORTED'
+  | 'INVALID_PATTERN'
+  | 'INVALID_DATA'
+  | 'CANCELLED'
+  | 'UNKNOWN_COMMAND'
+  | 'UNKNOWN_ERROR'
+  | 'EXECUTION_ERROR'
+  | 'NO_RESULT';
+
 export interface RPCErrorResponse {
   ok: false;
   error: {
-    code: string;
+    code: RPCErrorCode;
     message: string;
     details?: string;
   };
@@ -62,19 +99,57 @@ export interface RPCErrorResponse {
 
 export type RPCResponse<T = unknown> = RPCSuccessResponse<T> | RPCErrorResponse;
 
+// Progress of a long-running command (fs.copy, fs.move)
+export interface RPCProgress {
+  filesProcessed: number;
+  bytesProcessed: number;
+  currentPath?: string;
+}
+
 // Command-specific params and responses
-export interface ListParams {
+
+// fs.* commands run against the default OPFS root unless a Storage Bucket is named
+export interface BucketScopedParams {
+  bucket?: string;
+}
+
+export interface ListParams extends BucketScopedParams {
   path: string;
   depth?: number;
   includeFiles?: boolean;
   includeDirs?: boolean;
+  // Leave out size, date and type of files, which takes a getFile() per file
+  namesOnly?: boolean;
+}
+
+// fs.list one page at a time, depth is always 1
+export interface ListPageParams extends Omit<ListParams, 'depth'> {
+  limit: number;
+  // From the previous page, omitted for the first one
+  cursor?: string;
+}
+
+export interface ListPage {
+  entries: FSEntry[];
+  // Pass to get the next page, null after the last one
+  cursor: string | null;
 }
 
-export interface StatParams {
+export interface StatParams extends BucketScopedParams {
   path: string;
 }
 
-export interface ReadTextParams {
+// Metadata of many entries at once, e.g. of a names-only listing
+export interface StatManyParams extends BucketScopedParams {
+  paths: string[];
+}
+
+// stats[i] belongs to paths[i], null when it is missing or locked
+export interface StatManyResult {
+  stats: (FSStats | null)[];
+}
+
+export interface ReadTextParams extends BucketScopedParams {
   path: string;
   maxBytes?: number;
 }
@@ -84,12 +159,12 @@ export interface ReadTextResult {
   truncated: boolean;
 }
 
-export interface WriteTextParams {
+export interface WriteTextParams extends BucketScopedParams {
   path: string;
   text: string;
 }
 
-export interface ReadBase64Params {
+export interface ReadBase64Params extends BucketScopedParams {
   path: string;
   maxBytes?: number;
 }
@@ -100,36 +175,233 @@ export interface ReadBase64Result {
   truncated: boolean;
 }
 
-export interface WriteBase64Params {
+export interface WriteBase64Params extends BucketScopedParams {
   path: string;
   base64: string;
 }
 
-export interface MkdirParams {
+export interface ReadRangeParams extends BucketScopedParams {
   path: string;
+  offset: number;
+  length: number;
 }
 
-export interface CreateFileParams {
+export interface ReadRangeResult {
+  base64: string;
+  offset: number;
+  bytesRead: number;
+  size: number;
+  eof: boolean;
+}
+
+export interface WriteRangeParams extends BucketScopedParams {
   path: string;
+  offset: number;
+  base64: string;
+  // Drop anything past the end of this chunk (use on the last chunk of a full rewrite)
+  truncate?: boolean;
+  // Continue the writable of an earlier chunk of the same file
+  session?: string;
+  // Leave the writable open for the next chunk instead of committing the file. Nothing is
+  // visible until a chunk without keepOpen closes it
+  keepOpen?: boolean;
 }
 
-export interface DeleteParams {
+export interface WriteRangeResult {
+  bytesWritten: number;
+  size: number;
+  // Set while the writable is kept open, pass it with the next chunk
+  session?: string;
+}
+
+// Drop the uncommitted chunks of a write session, e.g. after a cancel
+export interface AbortWriteParams {
+  session: string;
+}
+
+export interface MkdirParams extends BucketScopedParams {
+  path: string;
+}
+
+export interface CreateFileParams extends BucketScopedParams {
+  path: string;
+}
+
+export interface DeleteParams extends BucketScopedParams {
   path: string;
   recursive?: boolean;
 }
 
-export interface CopyParams {
+export interface CopyParams extends BucketScopedParams {
   from: string;
   to: string;
   overwrite?: boolean;
 }
 
-export interface MoveParams {
+export interface MoveParams extends BucketScopedParams {
+  from: string;
+  to: string;
+  overwrite?: boolean;
+}
+
+export interface DiskUsageParams extends BucketScopedParams {
+  path: string;
+}
+
+// Totals for everything below a path; a file counts as itself
+export interface DiskUsage {
+  size: number;
+  fileCount: number;
+  directoryCount: number;
+  // Newest file modification time, 0 when there are no files
+  lastModified: number;
+}
+
+// SHA-256 of a file's content
+export interface HashParams extends BucketScopedParams {
+  path: string;
+}
+
+export interface HashResult {
+  // Lowercase hex
+  sha256: string;
+  size: number;
+}
+
+// Compress or decompress a file into another one with CompressionStream / DecompressionStream
+export interface GzipParams extends BucketScopedParams {
   from: string;
   to: string;
   overwrite?: boolean;
 }
 
+export interface GzipResult {
+  // Of the written file
+  size: number;
+}
+
+// Content search below a folder; matches are streamed while it runs
+export interface SearchParams extends BucketScopedParams {
+  path: string;
+  query: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  // Globs, see shared/utils/glob
+  include?: string[];
+  exclude?: string[];
+  // Larger files are skipped
+  maxFileSize?: number;
+  // Lines of context before and after each hit
+  contextLines?: number;
+  // Stop after this many matching lines
+  maxResults?: number;
+}
+
+// One matching line; ranges are [start, end) character offsets of the hits in text
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+  ranges: [number, number][];
+  before: string[];
+  after: string[];
+}
+
+export interface SearchSummary {
+  filesSearched: number;
+  filesMatched: number;
+  matchCount: number;
+  // maxResults was reached before the whole tree was searched
+  truncated: boolean;
+}
+
+export interface OperationParams {
+  requestId: string;
+}
+
+// Commands that can run inside fs.batch (no nesting, no operation control)
+export type BatchableCommand = Exclude<
+  RPCCommand,
+  | 'fs.batch'
+  | 'fs.search'
+  | 'fs.watch'
+  | 'fs.unwatch'
+  | 'op.progress'
+  | 'op.cancel'
+  | 'tab.frames'
+  | `buckets.${string}`
+>;
+
+export interface BatchOperation {
+  command: BatchableCommand;
+  params: Record<string, unknown>;
+}
+
+// bucket applies to sub-commands that do not name their own
+export interface BatchParams extends BucketScopedParams {
+  operations: BatchOperation[];
+  stopOnError?: boolean;
+}
+
+// results[i] belongs to operations[i]; shorter than operations when stopped on an error
+export interface BatchResult {
+  results: RPCResponse[];
+}
+
+// Live change detection for one directory (not recursive)
+export interface WatchParams extends BucketScopedParams {
+  path: string;
+}
+
+export interface WatchResult {
+  watchId: string;
+  // true when backed by FileSystemObserver, false when polling
+  native: boolean;
+}
+
+export interface UnwatchParams {
+  watchId: string;
+}
+
+export type WatchChangeType = 'added' | 'removed' | 'modified';
+
+export interface WatchChange {
+  type: WatchChangeType;
+  path: string;
+  kind: FileKind;
+}
+
+// Storage Buckets (navigator.storageBuckets)
+export type BucketDurability = 'strict' | 'relaxed';
+
+export interface BucketInfo {
+  name: string;
+  persisted: boolean;
+  durability: BucketDurability;
+  usage: number;
+  quota: number;
+  expires: number | null;
+}
+
+export interface BucketOpenParams {
+  name: string;
+  persisted?: boolean;
+  durability?: BucketDurability;
+  quota?: number;
+}
+
+export interface BucketDeleteParams {
+  name: string;
+}
+
+// A frame of the inspected tab, answered by the background via webNavigation
+export interface FrameInfo {
+  frameId: number;
+  parentFrameId: number;
+  url: string;
+  origin: string;
+}
+
 export interface IsAvailableResult {
   available: boolean;
   reason?: string;
@@ -147,6 +419,25 @@ export interface SortConfig {
   direction: SortDirection;
 }
 
+// Content search options as entered in the panel, globs are comma separated
+export interface ContentSearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+  include: string;
+  exclude: string;
+  // In MB
+  maxFileSize: number;
+}
+
+// A listed folder in the panel's directory cache
+export interface CachedDirectory {
+  entries: FSEntry[];
+  // Next page, null when the whole folder is loaded
+  cursor: string | null;
+  // Changed since it was listed: still shown, listed again when next needed
+  stale: boolean;
+}
+
 // Selection
 export interface Selection {
   paths: Set<string>;
@@ -187,5 +478,14 @@ export interface Toast {
   duration?: number;
 }
 
+// Long-running operations (copy, move) shown in the operations tray
+export interface Operation {
+  id: string;
+  title: string;
+  progress: RPCProgress | null;
+  controller: AbortController;
+  cancelling: boolean;
+}
+
 // Theme
 export type Theme = 'light' | 'dark' | 'system';
@@ -0,0 +1,80 @@
+// Glob patterns for search filters, shared by the panel and the injected handler.
+// "*" and "?" stay within one path segment, "**" crosses segments, "{a,b}" and "[abc]" work as usual
+
+export function globToRegExp(glob: string, caseSensitive = false): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches no folder at all
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{' && !inGroup) {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+}
+
+/**
+ * Check a path against glob patterns
+ * Patterns without "/" match the file name, others the path relative to the search root
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+  return patterns.some((pattern) => {
+    const trimmed = pattern.trim();
+    if (!trimmed) return false;
+    if (!trimmed.includes('/')) return globToRegExp(trimmed).test(name);
+    return globToRegExp(trimmed.replace(/^\//, '')).test(relativePath.replace(/^\//, ''));
+  });
+}
+
+// "*.ts, *.tsx" -> ["*.ts", "*.tsx"], commas inside braces are kept
+export function parseGlobList(value: string): string[] {
+  const patterns: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(depth - 1, 0);
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map((pattern) => pattern.trim()).filter(Boolean);
+}
@@ -12,3 +12,20 @@ interface FileSystemDirectoryHandle {
   keys(): AsyncIterableIterator<string>;
   values(): AsyncIterableIterator<FileSystemHandle>;
 }
+
+interface DataTransferItem {
+  // Not available in every browser, webkitGetAsEntry() is the fallback
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+}
+
+interface Window {
+  showDirectoryPicker(options?: {
+    id?: string;
+    mode?: 'read' | 'readwrite';
+  }): Promise<FileSystemDirectoryHandle>;
+}
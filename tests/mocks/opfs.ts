@@ -0,0 +1,237 @@
+import { File as NodeFile } from 'node:buffer';
+
+// Minimal in-memory Origin Private File System for exercising the injected handler
+
+function domError(name: string, message: string): DOMException {
+  return new DOMException(message, name);
+}
+
+function toBytes(data: unknown): Uint8Array {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  // Node's Blob hands out ArrayBuffers from a different realm than jsdom's
+  if (Object.prototype.toString.call(data) === '[object ArrayBuffer]') {
+    return new Uint8Array(data as ArrayBuffer);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  throw new TypeError('Unsupported write data');
+}
+
+// Error FileSystemHandle.move() throws instead of moving, null to move
+let moveError: 'NotSupportedError' | 'TypeError' | null = null;
+
+// Browsers that can't move a handle natively throw one of these, the handler then copies
+export function setMockMoveError(error: typeof moveError): void {
+  moveError = error;
+}
+
+// FileSystemHandle.move(newName) or move(newParent, newName)
+async function moveHandle(
+  handle: MockFileHandle | MockDirectoryHandle,
+  args: [string] | [MockDirectoryHandle, string]
+) {
+  if (moveError === 'TypeError') throw new TypeError('move() is not supported');
+  if (moveError) throw domError(moveError, 'move() is not supported');
+
+  const [parent, name] = args.length === 1 ? [handle.parent!, args[0]] : args;
+  checkName(name);
+  for (let dir: MockDirectoryHandle | null = parent; dir; dir = dir.parent) {
+    if (dir === handle) throw domError('InvalidModificationError', 'Cannot move into itself');
+  }
+  if (parent.children.has(name)) {
+    throw domError('InvalidModificationError', `${name} already exists`);
+  }
+
+  handle.parent!.children.delete(handle.name);
+  handle.name = name;
+  handle.parent = parent;
+  parent.children.set(name, handle);
+}
+
+export class MockFileHandle {
+  readonly kind = 'file';
+  data = new Uint8Array(0);
+  lastModified = Date.now();
+
+  constructor(
+    public name: string,
+    public parent: MockDirectoryHandle
+  ) {}
+
+  async getFile() {
+    return new NodeFile([this.data], this.name, { lastModified: this.lastModified });
+  }
+
+  async move(...args: [string] | [MockDirectoryHandle, string]) {
+    await moveHandle(this, args);
+  }
+
+  async createWritable(options?: { keepExistingData?: boolean }) {
+    let buffer = options?.keepExistingData ? this.data.slice() : new Uint8Array(0);
+    let position = 0;
+
+    const writeAt = (offset: number, bytes: Uint8Array) => {
+      const end = offset + bytes.byteLength;
+      if (end > buffer.byteLength) {
+        const grown = new Uint8Array(end);
+        grown.set(buffer);
+        buffer = grown;
+      }
+      buffer.set(bytes, offset);
+      position = end;
+    };
+
+    return {
+      write: async (chunk: unknown) => {
+        if (chunk && typeof chunk === 'object' && 'type' in chunk) {
+          const { position: at, data } = chunk as { position?: number; data: unknown };
+          writeAt(at ?? position, toBytes(data));
+        } else {
+          writeAt(position, toBytes(chunk));
+        }
+      },
+      truncate: async (size: number) => {
+        const resized = new Uint8Array(size);
+        resized.set(buffer.subarray(0, size));
+        buffer = resized;
+      },
+      close: async () => {
+        this.data = buffer;
+        this.lastModified = Date.now();
+      },
+      abort: async () => {
+        // Discard the pending buffer
+      },
+    };
+  }
+}
+
+// Like the real API, names that can't be a single path component are a TypeError
+function checkName(name: string) {
+  if (name === '' || name === '.' || name === '..' || /[/\\]/.test(name)) {
+    throw new TypeError(`Name is not allowed: ${name}`);
+  }
+}
+
+export class MockDirectoryHandle {
+  readonly kind = 'directory';
+  children = new Map<string, MockDirectoryHandle | MockFileHandle>();
+
+  constructor(
+    public name = '',
+    public parent: MockDirectoryHandle | null = null
+  ) {}
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    checkName(name);
+    const existing = this.children.get(name);
+    if (existing instanceof MockDirectoryHandle) return existing;
+    if (existing) throw domError('TypeMismatchError', `${name} is not a directory`);
+    if (!options?.create) throw domError('NotFoundError', `${name} not found`);
+
+    const dir = new MockDirectoryHandle(name, this);
+    this.children.set(name, dir);
+    return dir;
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    checkName(name);
+    const existing = this.children.get(name);
+    if (existing instanceof MockFileHandle) return existing;
+    if (existing) throw domError('TypeMismatchError', `${name} is not a file`);
+    if (!options?.create) throw domError('NotFoundError', `${name} not found`);
+
+    const file = new MockFileHandle(name, this);
+    this.children.set(name, file);
+    return file;
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }) {
+    checkName(name);
+    const entry = this.children.get(name);
+    if (!entry) throw domError('NotFoundError', `${name} not found`);
+    if (entry instanceof MockDirectoryHandle && entry.children.size > 0 && !options?.recursive) {
+      throw domError('InvalidModificationError', `${name} is not empty`);
+    }
+    this.children.delete(name);
+  }
+
+  async move(...args: [string] | [MockDirectoryHandle, string]) {
+    await moveHandle(this, args);
+  }
+
+  async *entries(): AsyncGenerator<[string, MockDirectoryHandle | MockFileHandle]> {
+    for (const entry of [...this.children.entries()]) {
+      yield entry;
+    }
+  }
+}
+
+export function createMockOPFS(): MockDirectoryHandle {
+  const root = new MockDirectoryHandle();
+  moveError = null;
+
+  Object.defineProperty(navigator, 'storage', {
+    configurable: true,
+    value: {
+      getDirectory: async () => root,
+      estimate: async () => ({ usage: 0, quota: 1024 * 1024 }),
+    },
+  });
+
+  return root;
+}
+
+export async function writeMockFile(
+  root: MockDirectoryHandle,
+  path: string,
+  content: string
+): Promise<MockFileHandle> {
+  const parts = path.split('/').filter(Boolean);
+  let dir = root;
+  for (const part of parts.slice(0, -1)) {
+    dir = await dir.getDirectoryHandle(part, { create: true });
+  }
+  const file = await dir.getFileHandle(parts[parts.length - 1], { create: true });
+  file.data = new TextEncoder().encode(content);
+  return file;
+}
+
+// In-memory navigator.storageBuckets, each bucket with its own root directory
+export function createMockStorageBuckets(): Map<string, MockDirectoryHandle> {
+  const roots = new Map<string, MockDirectoryHandle>();
+  const options = new Map<string, { persisted?: boolean; durability?: string; quota?: number }>();
+
+  const openBucket = (name: string) => ({
+    name,
+    persisted: async () => options.get(name)?.persisted ?? false,
+    durability: async () => options.get(name)?.durability ?? 'relaxed',
+    estimate: async () => ({ usage: 0, quota: options.get(name)?.quota ?? 1024 }),
+    expires: async () => null,
+    getDirectory: async () => roots.get(name)!,
+  });
+
+  Object.defineProperty(navigator, 'storageBuckets', {
+    configurable: true,
+    value: {
+      open: async (name: string, bucketOptions?: { persisted?: boolean; quota?: number }) => {
+        if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+          throw new TypeError('The bucket name is not a valid name.');
+        }
+        if (!roots.has(name)) {
+          roots.set(name, new MockDirectoryHandle());
+          options.set(name, { ...bucketOptions });
+        }
+        return openBucket(name);
+      },
+      keys: async () => [...roots.keys()],
+      delete: async (name: string) => {
+        roots.delete(name);
+        options.delete(name);
+      },
+    },
+  });
+
+  return roots;
+}
@@ -0,0 +1,66 @@
+import { uint8ArrayToBase64 } from '../../src/shared/utils/base64';
+import type {
+  BackgroundToPanelMessage,
+  PanelToBackgroundMessage,
+  RPCRequestMessage,
+} from '../../src/shared/rpc/messages';
+import type { BatchOperation, BatchParams, BatchResult, RPCResponse } from '../../src/shared/types';
+
+// The panel's port to the background, the single instance tests/setup.ts hands out
+export const panelPort = chrome.runtime.connect() as unknown as {
+  postMessage: ReturnType<typeof vi.fn<[PanelToBackgroundMessage], void>>;
+  onMessage: { dispatch: (message: BackgroundToPanelMessage) => void };
+};
+
+// Messages the panel sent since the last mockReset()
+export function sentMessages(): PanelToBackgroundMessage[] {
+  return panelPort.postMessage.mock.calls.map(([message]) => message);
+}
+
+// Answer a request the way the background does
+export function sendResponse(requestId: string, response: RPCResponse): void {
+  panelPort.onMessage.dispatch({ type: 'OPFS_RPC_RESPONSE', requestId, response });
+}
+
+// Answer every request right away with the data `getData` returns for it
+export function respondWith(getData: (request: RPCRequestMessage) => unknown): void {
+  panelPort.postMessage.mockImplementation((message) => {
+    if (message.type !== 'OPFS_RPC_REQUEST') return;
+    sendResponse(message.requestId, { ok: true, data: getData(message) });
+  });
+}
+
+// Operations of an fs.batch request, none for other requests
+export function batchOperations(request: RPCRequestMessage): BatchOperation[] {
+  if (request.command !== 'fs.batch') return [];
+  return (request.params as unknown as BatchParams).operations;
+}
+
+// Answer each operation of an fs.batch request, all succeed by default
+export function respondToBatch(
+  request: RPCRequestMessage,
+  answer: (operation: BatchOperation) => RPCResponse = () => ({ ok: true, data: null })
+): BatchResult {
+  return { results: batchOperations(request).map(answer) };
+}
+
+// Serve an in-memory file through fs.stat and fs.readRange, recording the ranges read
+export function serveFile(content: Uint8Array): { offset: number; length: number }[] {
+  const ranges: { offset: number; length: number }[] = [];
+  respondWith((request) => {
+    if (request.command !== 'fs.readRange') {
+      return { kind: 'file', size: content.length, lastModified: 0 };
+    }
+    const { offset, length } = request.params as { offset: number; length: number };
+    ranges.push({ offset, length });
+    const end = Math.min(offset + length, content.length);
+    return {
+      base64: uint8ArrayToBase64(content.subarray(offset, end)),
+      offset,
+      bytesRead: end - offset,
+      size: content.length,
+      eof: end >= content.length,
+    };
+  });
+  return ranges;
+}
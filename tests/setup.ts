@@ -1,13 +1,32 @@
 import '@testing-library/jest-dom';
 
+// Mock chrome event with a way to fire it from tests
+function createEventMock() {
+  const listeners: ((...args: unknown[]) => void)[] = [];
+  return {
+    addListener: vi.fn((listener: (...args: unknown[]) => void) => listeners.push(listener)),
+    removeListener: vi.fn(),
+    dispatch: (...args: unknown[]) => listeners.forEach((listener) => listener(...args)),
+  };
+}
+
+// Mock runtime port (a single shared instance, the panel keeps its port open)
+const portMock = {
+  name: 'opfs-rpc',
+  postMessage: vi.fn(),
+  disconnect: vi.fn(),
+  onMessage: createEventMock(),
+  onDisconnect: createEventMock(),
+};
+
 // Mock chrome API
 const chromeMock = {
   runtime: {
-    sendMessage: vi.fn(),
-    onMessage: {
-      addListener: vi.fn(),
-      removeListener: vi.fn(),
-    },
+    id: 'opfs-finder-test',
+    connect: vi.fn(() => portMock),
+    onConnect: createEventMock(),
+    sendMessage: vi.fn(() => Promise.resolve()),
+    onMessage: createEventMock(),
     lastError: null,
   },
   devtools: {
@@ -21,6 +40,9 @@ const chromeMock = {
   scripting: {
     executeScript: vi.fn(),
   },
+  webNavigation: {
+    getAllFrames: vi.fn(),
+  },
   storage: {
     local: {
       get: vi.fn(),
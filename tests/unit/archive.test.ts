@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import JSZip from 'jszip';
+import {
+  createZipArchive,
+  extractZipArchive,
+  getArchiveItems,
+  getArchivePath,
+} from '../../src/panel/utils/archive';
+import { startOperationTracker } from '../../src/panel/utils/operations';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { uint8ArrayToBase64 } from '../../src/shared/utils/base64';
+import type { RPCRequestMessage } from '../../src/shared/rpc/messages';
+import type { FSEntry } from '../../src/shared/types';
+import { batchOperations, panelPort, respondToBatch, respondWith } from '../mocks/port';
+
+const MODIFIED = new Date('2026-01-02T03:04:06Z').getTime();
+
+const files: Record<string, Uint8Array> = {
+  '/data/a.txt': new TextEncoder().encode('hello'),
+  '/data/sub/b.bin': new Uint8Array([1, 2, 3]),
+};
+
+const tree: FSEntry[] = [
+  { name: 'a.txt', path: '/data/a.txt', kind: 'file', size: 5, lastModified: MODIFIED },
+  {
+    name: 'sub',
+    path: '/data/sub',
+    kind: 'directory',
+    children: [
+      { name: 'b.bin', path: '/data/sub/b.bin', kind: 'file', size: 3, lastModified: MODIFIED },
+    ],
+  },
+  { name: 'empty', path: '/data/empty', kind: 'directory', children: [] },
+];
+
+function respond(message: RPCRequestMessage) {
+  const params = message.params as { path: string; offset: number };
+  switch (message.command) {
+    case 'fs.stat':
+      return params.path in files
+        ? { kind: 'file', size: files[params.path].length, lastModified: MODIFIED }
+        : { kind: 'directory', size: 0, lastModified: 0 };
+    case 'fs.list':
+      return tree;
+    case 'fs.readRange': {
+      const content = files[params.path];
+      return {
+        base64: uint8ArrayToBase64(content),
+        offset: 0,
+        bytesRead: content.length,
+        size: content.length,
+        eof: true,
+      };
+    }
+  }
+}
+
+describe('ZIP archives', () => {
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+    respondWith(respond);
+  });
+
+  it('should make paths relative to the parent of the exported item', () => {
+    expect(getArchivePath('/', '/data/a.txt')).toBe('data/a.txt');
+    expect(getArchivePath('/data', '/data/sub/b.bin')).toBe('sub/b.bin');
+  });
+
+  it('should keep the folder structure, empty folders and modification times', async () => {
+    const tracker = startOperationTracker('Zipping');
+    const blob = await createZipArchive(['/data'], tracker);
+    tracker.finish();
+
+    const zip = await JSZip.loadAsync(blob);
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'data/',
+      'data/a.txt',
+      'data/empty/',
+      'data/sub/',
+      'data/sub/b.bin',
+    ]);
+    expect(await zip.file('data/a.txt')!.async('string')).toBe('hello');
+    expect(Array.from(await zip.file('data/sub/b.bin')!.async('uint8array'))).toEqual([1, 2, 3]);
+    // ZIP stores local time with two second precision
+    expect(Math.abs(zip.file('data/a.txt')!.date.getTime() - MODIFIED)).toBeLessThan(2000);
+  });
+
+  it('should stop when the operation is cancelled', async () => {
+    const tracker = startOperationTracker('Zipping');
+    tracker.cancel();
+
+    await expect(createZipArchive(['/data/a.txt'], tracker)).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+  });
+});
+
+describe('ZIP extraction', () => {
+  let requests: RPCRequestMessage[];
+
+  beforeEach(() => {
+    setInspectedTabId(1);
+    requests = [];
+    panelPort.postMessage.mockReset();
+    respondWith((message) => {
+      requests.push(message);
+      return message.command === 'fs.list'
+        ? [{ name: 'data', path: '/in/data', kind: 'directory' }]
+        : message.command === 'fs.batch'
+          ? respondToBatch(message)
+          : undefined;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function makeZip() {
+    const zip = new JSZip();
+    zip.file('data/a.txt', 'hello');
+    zip.folder('data/empty');
+    zip.file('notes.txt', 'hi');
+    zip.file('__MACOSX/data/._a.txt', 'fork');
+    const archive = await zip.generateAsync({ type: 'blob' });
+    // Written files are read with arrayBuffer(), which jsdom's Blob lacks
+    vi.stubGlobal('Blob', NodeBlob);
+    return archive;
+  }
+
+  function written() {
+    return requests
+      .flatMap(batchOperations)
+      .map((operation) => `${operation.command} ${operation.params.path}`);
+  }
+
+  it('should leave out macOS resource forks', async () => {
+    const zip = await JSZip.loadAsync(await makeZip());
+    expect(getArchiveItems(zip).map((item) => item.path)).toEqual([
+      'data',
+      'data/a.txt',
+      'data/empty',
+      'notes.txt',
+    ]);
+  });
+
+  it('should recreate folders and rename clashing items when keeping both', async () => {
+    const archive = await makeZip();
+    const conflicts: string[] = [];
+    const tracker = startOperationTracker('Extracting');
+
+    const { extracted, failures } = await extractZipArchive(
+      archive,
+      '/in',
+      async (name) => {
+        conflicts.push(name);
+        return 'keep-both';
+      },
+      tracker
+    );
+    tracker.finish();
+
+    expect(extracted).toBe(4);
+    expect(failures).toEqual([]);
+    expect(conflicts).toEqual(['data']);
+    expect(written()).toEqual([
+      'fs.mkdir /in/data 2',
+      'fs.mkdir /in/data 2/empty',
+      'fs.writeRange /in/data 2/a.txt',
+      'fs.writeRange /in/notes.txt',
+    ]);
+  });
+
+  it('should swap replaced items in last and write nothing for skipped ones', async () => {
+    const archive = await makeZip();
+    const tracker = startOperationTracker('Extracting');
+
+    await extractZipArchive(archive, '/in', async () => 'replace', tracker);
+    expect(requests.some((request) => request.command === 'fs.delete')).toBe(false);
+    expect(written()[0]).toMatch(/^fs\.mkdir \/in\/\.data\.\w+\.tmp$/);
+    expect(requests[requests.length - 1]).toMatchObject({
+      command: 'fs.move',
+      params: { to: '/in/data', overwrite: true },
+    });
+
+    requests = [];
+    await extractZipArchive(archive, '/in', async () => 'skip', tracker);
+    tracker.finish();
+    expect(written()).toEqual(['fs.writeRange /in/notes.txt']);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  INJECTED_HANDLER_KEY,
+  INJECTED_SCRIPT_FILE,
+  OPFS_HANDLER_VERSION,
+  RPC_PORT_NAME,
+} from '../../src/shared/rpc/messages';
+import type { RPCResponse } from '../../src/shared/types';
+import { createMockOPFS, writeMockFile } from '../mocks/opfs';
+
+type Listener = (...args: unknown[]) => void;
+
+interface ScriptInjection {
+  world?: string;
+  files?: string[];
+  func?: (...args: unknown[]) => unknown;
+  args?: unknown[];
+}
+
+const executeScript = chrome.scripting.executeScript as unknown as ReturnType<typeof vi.fn>;
+const onConnect = chrome.runtime.onConnect as unknown as { dispatch: Listener };
+const onMessage = chrome.runtime.onMessage as unknown as { dispatch: Listener };
+
+function connectPort() {
+  const listeners: Listener[] = [];
+  const disconnectListeners: Listener[] = [];
+  const port = {
+    name: RPC_PORT_NAME,
+    postMessage: vi.fn(),
+    onMessage: { addListener: (listener: Listener) => listeners.push(listener) },
+    onDisconnect: { addListener: (listener: Listener) => disconnectListeners.push(listener) },
+  };
+  onConnect.dispatch(port);
+  return {
+    port,
+    send: (message: unknown) => listeners.forEach((listener) => listener(message)),
+    disconnect: () => disconnectListeners.forEach((listener) => listener()),
+  };
+}
+
+// Globals the page defines in its own world. Injections into the main world see them in place
+// of this realm's, the isolated world (the default) never does
+const pageGlobals: Record<string, unknown> = {};
+
+async function runInWorld<T>(world: string | undefined, run: () => Promise<T>): Promise<T> {
+  if (world !== 'MAIN') return run();
+
+  const realm = globalThis as Record<string, unknown>;
+  const saved = Object.keys(pageGlobals).map(
+    (key) => [key, Object.getOwnPropertyDescriptor(realm, key)] as const
+  );
+  for (const [key, value] of Object.entries(pageGlobals)) {
+    Object.defineProperty(realm, key, { value, configurable: true, writable: true });
+  }
+  try {
+    return await run();
+  } finally {
+    for (const [key, descriptor] of saved) {
+      if (descriptor) {
+        Object.defineProperty(realm, key, descriptor);
+      } else {
+        delete realm[key];
+      }
+    }
+  }
+}
+
+describe('background RPC bridge', () => {
+  beforeAll(async () => {
+    await import('../../src/background/index');
+  });
+
+  beforeEach(() => {
+    // Runs injected functions and files in this realm, as executeScript would in the tab
+    executeScript.mockReset();
+    executeScript.mockImplementation((injection: ScriptInjection) =>
+      runInWorld(injection.world, async () => {
+        if (injection.files) {
+          await import('../../src/injected/index');
+          return [{ result: undefined }];
+        }
+        return [{ result: await injection.func!(...(injection.args ?? [])) }];
+      })
+    );
+  });
+
+  afterEach(() => {
+    for (const key of Object.keys(pageGlobals)) delete pageGlobals[key];
+  });
+
+  it('should ignore a handler defined by the page', async () => {
+    const root = createMockOPFS();
+    await writeMockFile(root, '/hello.txt', 'Hello');
+
+    // A page handler under the same key and version, which a main world lookup would pick
+    const hostile = vi.fn(async (): Promise<RPCResponse> => ({ ok: true, data: [] }));
+    pageGlobals[INJECTED_HANDLER_KEY] = { version: OPFS_HANDLER_VERSION, handle: hostile };
+
+    const { port, send } = connectPort();
+    send({
+      type: 'OPFS_RPC_REQUEST',
+      tabId: 1,
+      command: 'fs.list',
+      params: { path: '/' },
+      requestId: 'req-1',
+    });
+
+    await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled());
+
+    const [message] = port.postMessage.mock.calls[0];
+    expect(message.response.ok).toBe(true);
+    expect(message.response.data).toEqual([expect.objectContaining({ name: 'hello.txt' })]);
+    expect(hostile).not.toHaveBeenCalled();
+    expect(executeScript).toHaveBeenCalledWith(
+      expect.objectContaining({ world: 'ISOLATED', files: [INJECTED_SCRIPT_FILE] })
+    );
+  });
+
+  it('should reuse the handler already installed in the isolated world', async () => {
+    createMockOPFS();
+
+    const { port, send } = connectPort();
+    send({
+      type: 'OPFS_RPC_REQUEST',
+      tabId: 1,
+      command: 'opfs.isAvailable',
+      params: {},
+      requestId: 'req-2',
+    });
+
+    await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled());
+
+    const injections = executeScript.mock.calls.map(([injection]) => injection as ScriptInjection);
+    expect(injections.every((injection) => injection.world === 'ISOLATED')).toBe(true);
+    expect(injections).not.toContainEqual(
+      expect.objectContaining({ files: [INJECTED_SCRIPT_FILE] })
+    );
+  });
+
+  it('should list the frames of the tab with their origins', async () => {
+    vi.mocked(chrome.webNavigation.getAllFrames).mockResolvedValue([
+      { frameId: 7, parentFrameId: 0, url: 'https://widget.example/embed?x=1' },
+      { frameId: 0, parentFrameId: -1, url: 'https://shop.example/cart' },
+    ] as chrome.webNavigation.GetAllFrameResultDetails[]);
+
+    const { port, send } = connectPort();
+    send({
+      type: 'OPFS_RPC_REQUEST',
+      tabId: 1,
+      command: 'tab.frames',
+      params: {},
+      requestId: 'req-3',
+    });
+
+    await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled());
+
+    const [message] = port.postMessage.mock.calls[0];
+    expect(message.response.data).toEqual([
+      {
+        frameId: 0,
+        parentFrameId: -1,
+        url: 'https://shop.example/cart',
+        origin: 'https://shop.example',
+      },
+      {
+        frameId: 7,
+        parentFrameId: 0,
+        url: 'https://widget.example/embed?x=1',
+        origin: 'https://widget.example',
+      },
+    ]);
+    expect(executeScript).not.toHaveBeenCalled();
+  });
+
+  it('should run commands in the requested frame only', async () => {
+    createMockOPFS();
+
+    const { port, send } = connectPort();
+    send({
+      type: 'OPFS_RPC_REQUEST',
+      tabId: 1,
+      frameId: 7,
+      command: 'opfs.isAvailable',
+      params: {},
+      requestId: 'req-4',
+    });
+
+    await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled());
+
+    expect(executeScript).toHaveBeenCalledWith(
+      expect.objectContaining({ target: { tabId: 1, frameIds: [7] } })
+    );
+  });
+
+  it('should forward watch events to the panel that started the watch', async () => {
+    createMockOPFS();
+
+    const owner = connectPort();
+    const other = connectPort();
+    owner.send({
+      type: 'OPFS_RPC_REQUEST',
+      tabId: 1,
+      command: 'fs.watch',
+      params: { path: '/' },
+      requestId: 'req-5',
+    });
+
+    await vi.waitFor(() => expect(owner.port.postMessage).toHaveBeenCalled());
+    const { watchId } = owner.port.postMessage.mock.calls[0][0].response.data;
+
+    const event = { type: 'OPFS_WATCH_EVENT', watchId, changes: [], entries: [] };
+    onMessage.dispatch(event, { id: chrome.runtime.id, tab: { id: 2 } });
+    onMessage.dispatch(event, { id: 'another-extension', tab: { id: 1 } });
+    onMessage.dispatch(event, { id: chrome.runtime.id, tab: { id: 1 } });
+
+    expect(owner.port.postMessage).toHaveBeenCalledTimes(2);
+    expect(owner.port.postMessage).toHaveBeenLastCalledWith(event);
+    expect(other.port.postMessage).not.toHaveBeenCalled();
+
+    // Closing the panel stops the watch in the page
+    owner.disconnect();
+    await vi.waitFor(() =>
+      expect(executeScript).toHaveBeenCalledWith(
+        expect.objectContaining({ args: expect.arrayContaining(['fs.unwatch', { watchId }]) })
+      )
+    );
+    onMessage.dispatch(event, { id: chrome.runtime.id, tab: { id: 1 } });
+    expect(owner.port.postMessage).toHaveBeenCalledTimes(2);
+  });
+});
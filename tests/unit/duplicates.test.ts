@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { findSameSizeFiles, groupDuplicates } from '../../src/panel/utils/duplicates';
+import type { FSEntry, HashResult } from '../../src/shared/types';
+
+function file(path: string, size: number): FSEntry {
+  return { name: path.split('/').pop()!, path, kind: 'file', size };
+}
+
+describe('duplicates', () => {
+  it('should only hash files that share their size', () => {
+    const entries: FSEntry[] = [
+      file('/a.bin', 10),
+      file('/b.bin', 10),
+      file('/c.bin', 20),
+      file('/empty-1', 0),
+      file('/empty-2', 0),
+      { name: 'dir', path: '/dir', kind: 'directory' },
+    ];
+
+    expect(findSameSizeFiles(entries).map((entry) => entry.path)).toEqual(['/a.bin', '/b.bin']);
+  });
+
+  it('should group identical files with the wasted bytes, biggest waste first', () => {
+    const files = [
+      file('/cache/long/name/model.bin', 100),
+      file('/model.bin', 100),
+      file('/other.bin', 100),
+      file('/x/1.txt', 5),
+      file('/x/2.txt', 5),
+      file('/x/3.txt', 5),
+      file('/locked.txt', 5),
+    ];
+    const hashes: Record<string, HashResult | Error> = {
+      '/cache/long/name/model.bin': { sha256: 'aa', size: 100 },
+      '/model.bin': { sha256: 'aa', size: 100 },
+      '/other.bin': { sha256: 'bb', size: 100 },
+      '/x/1.txt': { sha256: 'cc', size: 5 },
+      '/x/2.txt': { sha256: 'cc', size: 5 },
+      '/x/3.txt': { sha256: 'cc', size: 5 },
+      '/locked.txt': new Error('locked'),
+    };
+
+    expect(groupDuplicates(files, hashes)).toEqual([
+      {
+        sha256: 'aa',
+        size: 100,
+        paths: ['/model.bin', '/cache/long/name/model.bin'],
+        wasted: 100,
+      },
+      { sha256: 'cc', size: 5, paths: ['/x/1.txt', '/x/2.txt', '/x/3.txt'], wasted: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { getErrorMessage } from '../../src/panel/utils/errors';
+
+function withCode(code: string, message = 'raw message') {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('error utilities', () => {
+  describe('getErrorMessage', () => {
+    it('should describe known error codes', () => {
+      expect(getErrorMessage(withCode('EEXIST'))).toBe('An item with this name already exists');
+      expect(getErrorMessage(withCode('LOCKED'))).toBe(
+        'The file is locked by another tab or worker'
+      );
+      expect(getErrorMessage(withCode('QUOTA_EXCEEDED'))).toBe('Not enough storage quota left');
+    });
+
+    it('should fall back to the raw message', () => {
+      expect(getErrorMessage(withCode('UNKNOWN_ERROR', 'Something broke'))).toBe('Something broke');
+      expect(getErrorMessage(new Error('Plain error'))).toBe('Plain error');
+      expect(getErrorMessage('text')).toBe('text');
+    });
+  });
+});
@@ -6,8 +6,11 @@ import {
   isEditableImage,
   getLanguageFromFilename,
   formatFileSize,
+  formatItemCount,
+  parseFileSize,
   formatDate,
   getKindLabel,
+  getGzipContentName,
 } from '../../src/panel/utils/file';
 
 describe('file utilities', () => {
@@ -66,6 +69,18 @@ describe('file utilities', () => {
     });
   });
 
+  describe('getGzipContentName', () => {
+    it('should strip .gz from single gzipped files', () => {
+      expect(getGzipContentName('app.log.gz')).toBe('app.log');
+      expect(getGzipContentName('data.JSON.GZ')).toBe('data.JSON');
+    });
+
+    it('should ignore tarballs and other files', () => {
+      expect(getGzipContentName('bundle.tar.gz')).toBeNull();
+      expect(getGzipContentName('data.json')).toBeNull();
+    });
+  });
+
   describe('isImageFile', () => {
     it('should return true for image files', () => {
       expect(isImageFile('photo.png')).toBe(true);
@@ -129,6 +144,26 @@ describe('file utilities', () => {
     });
   });
 
+  describe('parseFileSize', () => {
+    it('should parse sizes with optional units', () => {
+      expect(parseFileSize('512')).toBe(512);
+      expect(parseFileSize('1MB')).toBe(1024 * 1024);
+      expect(parseFileSize('1.5 kb')).toBe(1536);
+      expect(parseFileSize('2G')).toBe(2 * 1024 ** 3);
+      expect(parseFileSize('')).toBeNull();
+      expect(parseFileSize('big')).toBeNull();
+    });
+  });
+
+  describe('formatItemCount', () => {
+    it('should count files and folders', () => {
+      expect(formatItemCount(0, 0)).toBe('0 files');
+      expect(formatItemCount(1, 0)).toBe('1 file');
+      expect(formatItemCount(3, 1)).toBe('3 files, 1 folder');
+      expect(formatItemCount(1, 2)).toBe('1 file, 2 folders');
+    });
+  });
+
   describe('formatDate', () => {
     it('should format recent dates', () => {
       const now = Date.now();
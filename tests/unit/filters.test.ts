@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  createEntryFilter,
+  describeFilters,
+  getModifiedRange,
+  hasActiveFilters,
+  type SearchFilters,
+} from '../../src/panel/utils/filters';
+import type { FSEntry } from '../../src/shared/types';
+
+const NOW = new Date(2024, 5, 15, 12, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+function filters(overrides: Partial<SearchFilters>): SearchFilters {
+  return { ...DEFAULT_SEARCH_FILTERS, ...overrides };
+}
+
+function file(path: string, size: number, lastModified: number): FSEntry {
+  return { name: path.split('/').pop()!, path, kind: 'file', size, lastModified };
+}
+
+const entries: FSEntry[] = [
+  file('/data/big.json', 3 * 1024 * 1024, NOW - HOUR),
+  file('/data/small.json', 10, NOW - HOUR),
+  file('/data/old.json', 3 * 1024 * 1024, NOW - 48 * HOUR),
+  file('/img/photo.png', 2048, NOW),
+  { name: 'data', path: '/data', kind: 'directory' },
+];
+
+function names(active: SearchFilters): string[] {
+  return entries.filter(createEntryFilter(active, NOW)).map((entry) => entry.name);
+}
+
+describe('search filters', () => {
+  it('should match everything by default', () => {
+    expect(hasActiveFilters(DEFAULT_SEARCH_FILTERS)).toBe(false);
+    expect(names(DEFAULT_SEARCH_FILTERS)).toHaveLength(entries.length);
+  });
+
+  it('should combine name glob, size and date', () => {
+    const active = filters({ name: '*.json', minSize: '1MB', modified: 'today' });
+
+    expect(hasActiveFilters(active)).toBe(true);
+    expect(names(active)).toEqual(['big.json']);
+    expect(describeFilters(active)).toBe('*.json, over 1.0 MB, modified today');
+  });
+
+  it('should filter by regex, kind and category', () => {
+    expect(names(filters({ name: '^(big|photo)\\.', nameRegex: true }))).toEqual([
+      'big.json',
+      'photo.png',
+    ]);
+    expect(names(filters({ name: '(', nameRegex: true }))).toEqual([]);
+    expect(names(filters({ kind: 'directory' }))).toEqual(['data']);
+    expect(names(filters({ categories: ['image'] }))).toEqual(['photo.png']);
+  });
+
+  it('should include both days of a custom date range', () => {
+    const range = getModifiedRange(
+      filters({ modified: 'custom', modifiedFrom: '2024-06-13', modifiedTo: '2024-06-13' }),
+      NOW
+    );
+
+    expect(range).toEqual([new Date(2024, 5, 13).getTime(), new Date(2024, 5, 14).getTime()]);
+    expect(getModifiedRange(filters({ modified: 'custom' }), NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob, parseGlobList } from '../../src/shared/utils/glob';
+
+describe('glob utilities', () => {
+  describe('globToRegExp', () => {
+    it('should keep * and ? within one segment', () => {
+      expect(globToRegExp('*.txt').test('notes.txt')).toBe(true);
+      expect(globToRegExp('*.txt').test('a/notes.txt')).toBe(false);
+      expect(globToRegExp('file-?.log').test('file-1.log')).toBe(true);
+      expect(globToRegExp('file-?.log').test('file-10.log')).toBe(false);
+    });
+
+    it('should let ** cross segments, including none', () => {
+      expect(globToRegExp('src/**/*.ts').test('src/a/b/c.ts')).toBe(true);
+      expect(globToRegExp('src/**/*.ts').test('src/c.ts')).toBe(true);
+      expect(globToRegExp('**').test('any/thing')).toBe(true);
+    });
+
+    it('should support braces and character classes', () => {
+      expect(globToRegExp('*.{png,jpg}').test('a.jpg')).toBe(true);
+      expect(globToRegExp('*.{png,jpg}').test('a.gif')).toBe(false);
+      expect(globToRegExp('[ab].txt').test('b.txt')).toBe(true);
+      expect(globToRegExp('[!ab].txt').test('b.txt')).toBe(false);
+    });
+
+    it('should escape regex characters and ignore case unless asked', () => {
+      expect(globToRegExp('a+b(1).txt').test('a+b(1).txt')).toBe(true);
+      expect(globToRegExp('*.TXT').test('a.txt')).toBe(true);
+      expect(globToRegExp('*.TXT', true).test('a.txt')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match names for plain patterns and paths otherwise', () => {
+      expect(matchesGlob('/deep/dir/app.log', ['*.log'])).toBe(true);
+      expect(matchesGlob('/deep/dir/app.log', ['deep/**'])).toBe(true);
+      expect(matchesGlob('/deep/dir/app.log', ['/other/**', '*.txt'])).toBe(false);
+      expect(matchesGlob('/a.log', [' ', ''])).toBe(false);
+    });
+  });
+
+  describe('parseGlobList', () => {
+    it('should split on commas outside braces', () => {
+      expect(parseGlobList('*.ts, *.{png,jpg} ,,')).toEqual(['*.ts', '*.{png,jpg}']);
+      expect(parseGlobList('')).toEqual([]);
+    });
+  });
+});
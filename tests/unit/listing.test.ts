@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { cacheDirectory, loadMoreEntries } from '../../src/panel/utils/listing';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { useFileSystemStore } from '../../src/panel/store';
+import { LIST_PAGE_SIZE } from '../../src/shared/rpc/messages';
+import type { FSEntry, ListPageParams } from '../../src/shared/types';
+import { panelPort, respondWith, sendResponse, sentMessages } from '../mocks/port';
+
+function folder(path: string): FSEntry {
+  return { name: path.split('/').pop()!, path, kind: 'directory' };
+}
+
+// Two pages of /big, split after "a"
+function listBig({ cursor }: ListPageParams) {
+  return cursor
+    ? { entries: [folder('/big/b')], cursor: null }
+    : { entries: [folder('/big/a')], cursor: 'list-1:1' };
+}
+
+describe('directory listings', () => {
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+    useFileSystemStore.setState({
+      directories: {},
+      currentPath: '/',
+      entries: [],
+      listCursor: null,
+      isLoadingMore: false,
+    });
+  });
+
+  it('should cache a folder for the tree a page at a time', async () => {
+    respondWith((request) => listBig(request.params as unknown as ListPageParams));
+
+    await cacheDirectory('/big');
+
+    const cached = useFileSystemStore.getState().directories['/big'];
+    expect(cached.entries.map((entry) => entry.name)).toEqual(['a', 'b']);
+    expect(cached.cursor).toBeNull();
+    expect(
+      sentMessages().map((message) => message.type === 'OPFS_RPC_REQUEST' && message.params)
+    ).toEqual([
+      { path: '/big', limit: LIST_PAGE_SIZE, cursor: undefined, namesOnly: true },
+      { path: '/big', limit: LIST_PAGE_SIZE, cursor: 'list-1:1', namesOnly: true },
+    ]);
+  });
+
+  it('should leave a folder opened meanwhile to the file list', async () => {
+    const listing = cacheDirectory('/big');
+    const [request] = sentMessages();
+
+    const store = useFileSystemStore.getState();
+    store.setDirectory('/big', [folder('/big/a')], 'list-2:1');
+    store.setCurrentPath('/big');
+    sendResponse(request.type === 'OPFS_RPC_REQUEST' ? request.requestId : '', {
+      ok: true,
+      data: { entries: [folder('/big/a'), folder('/big/b')], cursor: null },
+    });
+    await listing;
+
+    const state = useFileSystemStore.getState();
+    expect(state.entries.map((entry) => entry.name)).toEqual(['a']);
+    expect(state.listCursor).toBe('list-2:1');
+  });
+
+  it('should take the next page before the metadata of the last one arrives', async () => {
+    // fs.statMany is never answered
+    panelPort.postMessage.mockImplementation((message) => {
+      if (message.type !== 'OPFS_RPC_REQUEST' || message.command !== 'fs.list') return;
+      sendResponse(message.requestId, {
+        ok: true,
+        data: { entries: [{ name: 'b.txt', path: '/big/b.txt', kind: 'file' }], cursor: null },
+      });
+    });
+    const store = useFileSystemStore.getState();
+    store.setDirectory('/big', [folder('/big/a')], 'list-1:1');
+    store.setCurrentPath('/big');
+
+    await loadMoreEntries();
+
+    const state = useFileSystemStore.getState();
+    expect(state.isLoadingMore).toBe(false);
+    expect(state.entries.map((entry) => entry.name)).toEqual(['a', 'b.txt']);
+  });
+});
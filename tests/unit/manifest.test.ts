@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { compareManifest, createManifest, parseManifest } from '../../src/panel/utils/manifest';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+describe('manifest', () => {
+  it('should round-trip a manifest and reject other JSON', () => {
+    const manifest = createManifest({ 'model.bin': { size: 3, sha256: HASH_A } });
+
+    expect(parseManifest(JSON.stringify(manifest))).toEqual(manifest);
+    expect(() => parseManifest('{"files": {}}')).toThrow('Not a SHA-256 manifest');
+    expect(() => parseManifest('not json')).toThrow('not valid JSON');
+  });
+
+  it('should report missing, extra and changed files', () => {
+    const manifest = createManifest({
+      'same.bin': { size: 3, sha256: HASH_A },
+      'edited.bin': { size: 3, sha256: HASH_A },
+      'resized.bin': { size: 3, sha256: HASH_A },
+      'locked.bin': { size: 3, sha256: HASH_A },
+      'gone.bin': { size: 3, sha256: HASH_A },
+    });
+
+    const report = compareManifest('/cache', manifest, {
+      'same.bin': { size: 3, sha256: HASH_A.toUpperCase() },
+      'edited.bin': { size: 3, sha256: HASH_B },
+      'resized.bin': { size: 4, sha256: '' },
+      'locked.bin': null,
+      'new.bin': { size: 1, sha256: '' },
+    });
+
+    expect(report).toEqual({
+      folder: '/cache',
+      missing: ['gone.bin'],
+      extra: ['new.bin'],
+      changed: ['edited.bin', 'locked.bin', 'resized.bin'],
+      matched: 1,
+    });
+  });
+});
@@ -0,0 +1,729 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleOPFSRpc } from '../../src/injected/opfs';
+import {
+  WATCH_POLL_INTERVAL,
+  type RPCStreamMessage,
+  type WatchEventMessage,
+} from '../../src/shared/rpc/messages';
+import { uint8ArrayToBase64 } from '../../src/shared/utils/base64';
+import type {
+  BatchResult,
+  BucketInfo,
+  DiskUsage,
+  FSEntry,
+  GzipResult,
+  HashResult,
+  ListPage,
+  ReadRangeResult,
+  SearchMatch,
+  SearchSummary,
+  StatManyResult,
+  WatchResult,
+  WriteRangeResult,
+} from '../../src/shared/types';
+import {
+  createMockOPFS,
+  createMockStorageBuckets,
+  setMockMoveError,
+  writeMockFile,
+  MockFileHandle,
+  type MockDirectoryHandle,
+} from '../mocks/opfs';
+
+describe('injected OPFS handler', () => {
+  let root: MockDirectoryHandle;
+
+  beforeEach(() => {
+    root = createMockOPFS();
+  });
+
+  it('should list directory entries with file metadata', async () => {
+    await writeMockFile(root, '/notes/hello.txt', 'Hello');
+    await handleOPFSRpc('fs.mkdir', { path: '/notes/archive' });
+
+    const response = await handleOPFSRpc('fs.list', { path: '/notes' });
+
+    expect(response.ok).toBe(true);
+    const entries = (response as { data: FSEntry[] }).data;
+    expect(entries).toHaveLength(2);
+    expect(entries.find((e) => e.name === 'hello.txt')).toMatchObject({
+      path: '/notes/hello.txt',
+      kind: 'file',
+      size: 5,
+      mimeType: 'text/plain',
+    });
+    expect(entries.find((e) => e.name === 'archive')?.kind).toBe('directory');
+  });
+
+  it('should page through a directory with a cursor', async () => {
+    for (const name of ['a', 'b', 'c', 'd', 'e']) {
+      await writeMockFile(root, `/many/${name}.txt`, name);
+    }
+
+    const names: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const response = await handleOPFSRpc('fs.list', { path: '/many', limit: 2, cursor });
+      const page = (response as { data: ListPage }).data;
+      names.push(...page.entries.map((entry) => entry.name));
+      cursor = page.cursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(names).toEqual(['a.txt', 'b.txt', 'c.txt', 'd.txt', 'e.txt']);
+    expect(pages).toBe(3);
+  });
+
+  it('should list names only and resume from an unknown cursor by offset', async () => {
+    for (const name of ['a', 'b', 'c']) {
+      await writeMockFile(root, `/many/${name}.txt`, name);
+    }
+
+    const response = await handleOPFSRpc('fs.list', {
+      path: '/many',
+      limit: 10,
+      cursor: 'list-expired:1',
+      namesOnly: true,
+    });
+
+    expect((response as { data: ListPage }).data).toEqual({
+      entries: [
+        { name: 'b.txt', path: '/many/b.txt', kind: 'file' },
+        { name: 'c.txt', path: '/many/c.txt', kind: 'file' },
+      ],
+      cursor: null,
+    });
+  });
+
+  it('should stat many paths in order with null for missing ones', async () => {
+    await writeMockFile(root, '/a.txt', 'abc');
+    await writeMockFile(root, '/docs/b.txt', 'de');
+
+    const response = await handleOPFSRpc('fs.statMany', {
+      paths: ['/docs/b.txt', '/missing.txt', '/a.txt'],
+    });
+
+    const { stats } = (response as { data: StatManyResult }).data;
+    expect(stats.map((stat) => stat?.size ?? null)).toEqual([2, null, 3]);
+    expect(stats[0]).toMatchObject({ kind: 'file', size: 2 });
+  });
+
+  it('should hash a file with SHA-256', async () => {
+    await writeMockFile(root, '/abc.txt', 'abc');
+
+    const response = await handleOPFSRpc('fs.hash', { path: '/abc.txt' });
+
+    expect((response as { data: HashResult }).data).toEqual({
+      sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      size: 3,
+    });
+    expect((await handleOPFSRpc('fs.hash', { path: '/missing' })).ok).toBe(false);
+  });
+
+  it('should gzip and gunzip a file into another one', async () => {
+    const text = 'hello gzip '.repeat(100);
+    await writeMockFile(root, '/log.txt', text);
+
+    const gzipped = await handleOPFSRpc('fs.gzip', { from: '/log.txt', to: '/log.txt.gz' });
+    expect((gzipped as { data: GzipResult }).data.size).toBeLessThan(text.length);
+
+    const refused = await handleOPFSRpc('fs.gunzip', { from: '/log.txt.gz', to: '/log.txt' });
+    expect(!refused.ok && refused.error.code).toBe('EEXIST');
+
+    await handleOPFSRpc('fs.gunzip', { from: '/log.txt.gz', to: '/copy.txt' });
+    const copy = await handleOPFSRpc('fs.readText', { path: '/copy.txt' });
+    expect((copy as { data: { text: string } }).data.text).toBe(text);
+  });
+
+  it('should reject data that is not gzip and leave no output behind', async () => {
+    await writeMockFile(root, '/fake.gz', 'not gzip at all');
+
+    const response = await handleOPFSRpc('fs.gunzip', { from: '/fake.gz', to: '/fake' });
+
+    expect(!response.ok && response.error.code).toBe('INVALID_DATA');
+    expect((await handleOPFSRpc('fs.stat', { path: '/fake' })).ok).toBe(false);
+  });
+
+  it('should read and write byte ranges', async () => {
+    await writeMockFile(root, '/data.bin', 'abcdefgh');
+
+    const read = await handleOPFSRpc('fs.readRange', { path: '/data.bin', offset: 2, length: 3 });
+    expect((read as { data: ReadRangeResult }).data).toMatchObject({
+      base64: btoa('cde'),
+      bytesRead: 3,
+      size: 8,
+      eof: false,
+    });
+
+    const base64 = uint8ArrayToBase64(new TextEncoder().encode('XY'));
+    await handleOPFSRpc('fs.writeRange', { path: '/data.bin', offset: 4, base64, truncate: true });
+
+    const text = await handleOPFSRpc('fs.readText', { path: '/data.bin' });
+    expect((text as { data: { text: string } }).data.text).toBe('abcdXY');
+  });
+
+  it('should keep one writable open across the chunks of a write session', async () => {
+    await writeMockFile(root, '/data.bin', 'old');
+    const chunk = (text: string) => uint8ArrayToBase64(new TextEncoder().encode(text));
+    const readText = async () =>
+      ((await handleOPFSRpc('fs.readText', { path: '/data.bin' })) as { data: { text: string } })
+        .data.text;
+
+    const first = await handleOPFSRpc('fs.writeRange', {
+      path: '/data.bin',
+      offset: 0,
+      base64: chunk('abcd'),
+      keepOpen: true,
+    });
+    const { session } = (first as { data: WriteRangeResult }).data;
+    expect(session).toBeTruthy();
+    expect(await readText()).toBe('old');
+
+    const last = await handleOPFSRpc('fs.writeRange', {
+      path: '/data.bin',
+      offset: 4,
+      base64: chunk('ef'),
+      truncate: true,
+      session,
+    });
+    expect((last as { data: WriteRangeResult }).data).toEqual({ bytesWritten: 2, size: 6 });
+    expect(await readText()).toBe('abcdef');
+
+    const closed = await handleOPFSRpc('fs.writeRange', {
+      path: '/data.bin',
+      offset: 6,
+      base64: chunk('g'),
+      session,
+    });
+    expect(!closed.ok && closed.error.code).toBe('ENOENT');
+  });
+
+  it('should drop the chunks of an aborted write session', async () => {
+    await writeMockFile(root, '/data.bin', 'old');
+
+    const first = await handleOPFSRpc('fs.writeRange', {
+      path: '/data.bin',
+      offset: 0,
+      base64: uint8ArrayToBase64(new TextEncoder().encode('new')),
+      keepOpen: true,
+    });
+    const { session } = (first as { data: WriteRangeResult }).data;
+
+    expect(await handleOPFSRpc('fs.abortWrite', { session })).toEqual({ ok: true, data: true });
+    expect(await handleOPFSRpc('fs.abortWrite', { session })).toEqual({ ok: true, data: false });
+    const text = await handleOPFSRpc('fs.readText', { path: '/data.bin' });
+    expect((text as { data: { text: string } }).data.text).toBe('old');
+  });
+
+  it('should refuse to overwrite an existing destination unless asked', async () => {
+    await writeMockFile(root, '/a.txt', 'new');
+    await writeMockFile(root, '/b.txt', 'old');
+
+    const refused = await handleOPFSRpc('fs.copy', { from: '/a.txt', to: '/b.txt' });
+    expect(refused.ok).toBe(false);
+    expect(!refused.ok && refused.error.code).toBe('EEXIST');
+
+    const replaced = await handleOPFSRpc('fs.copy', {
+      from: '/a.txt',
+      to: '/b.txt',
+      overwrite: true,
+    });
+    expect(replaced.ok).toBe(true);
+
+    const text = await handleOPFSRpc('fs.readText', { path: '/b.txt' });
+    expect((text as { data: { text: string } }).data.text).toBe('new');
+  });
+
+  it('should treat copying an item onto itself as a name clash', async () => {
+    await writeMockFile(root, '/a.txt', 'same');
+
+    const copied = await handleOPFSRpc('fs.copy', { from: '/a.txt', to: '/a.txt' });
+    expect(!copied.ok && copied.error.code).toBe('EEXIST');
+
+    const replaced = await handleOPFSRpc('fs.copy', {
+      from: '/a.txt',
+      to: '/a.txt',
+      overwrite: true,
+    });
+    expect(replaced.ok).toBe(true);
+    const text = await handleOPFSRpc('fs.readText', { path: '/a.txt' });
+    expect((text as { data: { text: string } }).data.text).toBe('same');
+
+    const moved = await handleOPFSRpc('fs.move', { from: '/a.txt', to: '/a.txt' });
+    expect(!moved.ok && moved.error.code).toBe('INVALID_MODIFICATION');
+  });
+
+  it('should keep the replaced destination when the copy fails', async () => {
+    for (let i = 0; i < 20; i++) {
+      await writeMockFile(root, `/big/file-${i}.txt`, 'content');
+    }
+    await writeMockFile(root, '/old/keep.txt', 'old');
+
+    const copying = handleOPFSRpc(
+      'fs.copy',
+      { from: '/big', to: '/old', overwrite: true },
+      'req-1'
+    );
+    await handleOPFSRpc('op.cancel', { requestId: 'req-1' });
+    const response = await copying;
+
+    expect(!response.ok && response.error.code).toBe('CANCELLED');
+    const text = await handleOPFSRpc('fs.readText', { path: '/old/keep.txt' });
+    expect((text as { data: { text: string } }).data.text).toBe('old');
+    const listed = await handleOPFSRpc('fs.list', { path: '/', namesOnly: true });
+    expect((listed as { data: FSEntry[] }).data.map((entry) => entry.name).sort()).toEqual([
+      'big',
+      'old',
+    ]);
+  });
+
+  it('should move handles natively when the browser can', async () => {
+    const file = await writeMockFile(root, '/src/docs/readme.md', '# Docs');
+    await handleOPFSRpc('fs.mkdir', { path: '/dest' });
+
+    const response = await handleOPFSRpc('fs.move', { from: '/src/docs', to: '/dest/docs' });
+
+    expect(response.ok).toBe(true);
+    expect((await handleOPFSRpc('fs.stat', { path: '/src/docs' })).ok).toBe(false);
+    const dest = root.children.get('dest') as MockDirectoryHandle;
+    expect((dest.children.get('docs') as MockDirectoryHandle).children.get('readme.md')).toBe(file);
+  });
+
+  it.each(['NotSupportedError', 'TypeError'] as const)(
+    'should fall back to copy and delete when move() throws a %s',
+    async (error) => {
+      setMockMoveError(error);
+      await writeMockFile(root, '/src/docs/readme.md', '# Docs');
+      await handleOPFSRpc('fs.mkdir', { path: '/dest' });
+
+      const response = await handleOPFSRpc('fs.move', { from: '/src/docs', to: '/dest/docs' });
+
+      expect(response.ok).toBe(true);
+      expect((await handleOPFSRpc('fs.stat', { path: '/src/docs' })).ok).toBe(false);
+      const text = await handleOPFSRpc('fs.readText', { path: '/dest/docs/readme.md' });
+      expect((text as { data: { text: string } }).data.text).toBe('# Docs');
+    }
+  );
+
+  it('should keep the source and remove the partial copy when a copy fails midway', async () => {
+    setMockMoveError('NotSupportedError');
+    await writeMockFile(root, '/src/a.txt', 'a');
+    await writeMockFile(root, '/src/b.txt', 'b');
+    const createWritable = MockFileHandle.prototype.createWritable;
+    const spy = vi
+      .spyOn(MockFileHandle.prototype, 'createWritable')
+      .mockImplementation(async function (this: MockFileHandle, options) {
+        if (this.name === 'b.txt') throw new DOMException('Full', 'QuotaExceededError');
+        return createWritable.call(this, options);
+      });
+
+    const copied = await handleOPFSRpc('fs.copy', { from: '/src', to: '/copy' });
+    const moved = await handleOPFSRpc('fs.move', { from: '/src', to: '/moved' });
+    spy.mockRestore();
+
+    expect(!copied.ok && copied.error.code).toBe('QUOTA_EXCEEDED');
+    expect(!moved.ok && moved.error.code).toBe('QUOTA_EXCEEDED');
+    const listed = await handleOPFSRpc('fs.list', { path: '/', depth: 2 });
+    expect((listed as { data: FSEntry[] }).data).toEqual([
+      expect.objectContaining({
+        path: '/src',
+        children: [
+          expect.objectContaining({ path: '/src/a.txt', size: 1 }),
+          expect.objectContaining({ path: '/src/b.txt', size: 1 }),
+        ],
+      }),
+    ]);
+  });
+
+  it('should reject moving a folder into itself', async () => {
+    await handleOPFSRpc('fs.mkdir', { path: '/folder' });
+
+    const response = await handleOPFSRpc('fs.move', { from: '/folder', to: '/folder/inner' });
+
+    expect(!response.ok && response.error.code).toBe('INVALID_MODIFICATION');
+  });
+
+  it('should map DOMException names to error codes', async () => {
+    await writeMockFile(root, '/file.txt', 'x');
+
+    const missing = await handleOPFSRpc('fs.stat', { path: '/missing' });
+    expect(!missing.ok && missing.error.code).toBe('ENOENT');
+
+    const notDir = await handleOPFSRpc('fs.list', { path: '/file.txt' });
+    expect(!notDir.ok && notDir.error.code).toBe('ENOTDIR');
+
+    const unknown = await handleOPFSRpc('fs.nope' as never, {});
+    expect(!unknown.ok && unknown.error.code).toBe('UNKNOWN_COMMAND');
+  });
+
+  it('should only map TypeErrors of invalid names to INVALID_NAME', async () => {
+    const invalid = await handleOPFSRpc('fs.mkdir', { path: '/docs/..' });
+    expect(!invalid.ok && invalid.error.code).toBe('INVALID_NAME');
+
+    await writeMockFile(root, '/file.txt', 'x');
+    vi.spyOn(MockFileHandle.prototype, 'getFile').mockRejectedValueOnce(new TypeError('Bug'));
+    const failed = await handleOPFSRpc('fs.readText', { path: '/file.txt' });
+    expect(!failed.ok && failed.error.code).toBe('UNKNOWN_ERROR');
+  });
+
+  it('should stop a running copy on op.cancel and roll it back', async () => {
+    for (let i = 0; i < 20; i++) {
+      await writeMockFile(root, `/big/file-${i}.txt`, 'content');
+    }
+
+    const copying = handleOPFSRpc('fs.copy', { from: '/big', to: '/big-copy' }, 'req-1');
+    const cancelled = await handleOPFSRpc('op.cancel', { requestId: 'req-1' });
+    const response = await copying;
+
+    expect(cancelled).toEqual({ ok: true, data: true });
+    expect(!response.ok && response.error.code).toBe('CANCELLED');
+    expect((await handleOPFSRpc('fs.stat', { path: '/big-copy' })).ok).toBe(false);
+    expect((await handleOPFSRpc('op.progress', { requestId: 'req-1' })).ok).toBe(true);
+  });
+
+  it('should total sizes and counts of a folder tree', async () => {
+    await writeMockFile(root, '/app/a.txt', 'abc');
+    await writeMockFile(root, '/app/cache/b.bin', 'defgh');
+    await writeMockFile(root, '/app/cache/deep/c.txt', 'ij');
+    await handleOPFSRpc('fs.mkdir', { path: '/app/empty' });
+
+    const response = await handleOPFSRpc('fs.du', { path: '/app' });
+
+    const usage = (response as { data: DiskUsage }).data;
+    expect(usage).toMatchObject({ size: 10, fileCount: 3, directoryCount: 3 });
+    expect(usage.lastModified).toBeGreaterThan(0);
+
+    const file = await handleOPFSRpc('fs.du', { path: '/app/a.txt' });
+    expect((file as { data: DiskUsage }).data).toMatchObject({ size: 3, fileCount: 1 });
+  });
+
+  it('should stop a running fs.du on op.cancel', async () => {
+    for (let i = 0; i < 20; i++) {
+      await writeMockFile(root, `/big/file-${i}.txt`, 'content');
+    }
+
+    const measuring = handleOPFSRpc('fs.du', { path: '/big' }, 'req-du');
+    await handleOPFSRpc('op.cancel', { requestId: 'req-du' });
+    const response = await measuring;
+
+    expect(!response.ok && response.error.code).toBe('CANCELLED');
+  });
+
+  describe('fs.batch', () => {
+    it('should run sub-commands in order and report each result', async () => {
+      await writeMockFile(root, '/a.txt', 'a');
+
+      const response = await handleOPFSRpc('fs.batch', {
+        operations: [
+          { command: 'fs.mkdir', params: { path: '/docs' } },
+          { command: 'fs.delete', params: { path: '/missing.txt' } },
+          { command: 'fs.move', params: { from: '/a.txt', to: '/docs/a.txt' } },
+        ],
+      });
+
+      const { results } = (response as { data: BatchResult }).data;
+      expect(results.map((result) => result.ok)).toEqual([true, false, true]);
+      expect(!results[1].ok && results[1].error.code).toBe('ENOENT');
+      expect((await handleOPFSRpc('fs.stat', { path: '/docs/a.txt' })).ok).toBe(true);
+    });
+
+    it('should stop at the first error when asked', async () => {
+      const response = await handleOPFSRpc('fs.batch', {
+        operations: [
+          { command: 'fs.delete', params: { path: '/missing.txt' } },
+          { command: 'fs.mkdir', params: { path: '/never' } },
+        ],
+        stopOnError: true,
+      });
+
+      expect((response as { data: BatchResult }).data.results).toHaveLength(1);
+      expect((await handleOPFSRpc('fs.stat', { path: '/never' })).ok).toBe(false);
+    });
+
+    it('should refuse nested batches', async () => {
+      const response = await handleOPFSRpc('fs.batch', {
+        operations: [{ command: 'fs.batch', params: { operations: [] } }],
+      });
+
+      expect(!response.ok && response.error.code).toBe('UNKNOWN_COMMAND');
+    });
+  });
+
+  describe('Storage Buckets', () => {
+    beforeEach(() => {
+      createMockStorageBuckets();
+    });
+
+    it('should open, list and delete buckets', async () => {
+      const opened = await handleOPFSRpc('buckets.open', {
+        name: 'drafts',
+        persisted: true,
+        durability: 'strict',
+      });
+      expect((opened as { data: BucketInfo }).data).toMatchObject({
+        name: 'drafts',
+        persisted: true,
+        durability: 'strict',
+      });
+
+      const listed = await handleOPFSRpc('buckets.list', {});
+      expect((listed as { data: BucketInfo[] }).data.map((b) => b.name)).toEqual(['drafts']);
+
+      expect((await handleOPFSRpc('buckets.delete', { name: 'drafts' })).ok).toBe(true);
+      const afterDelete = await handleOPFSRpc('buckets.list', {});
+      expect((afterDelete as { data: BucketInfo[] }).data).toEqual([]);
+    });
+
+    it('should keep bucket contents apart from the default root', async () => {
+      await handleOPFSRpc('buckets.open', { name: 'cache' });
+      await writeMockFile(root, '/default.txt', 'default');
+
+      await handleOPFSRpc('fs.writeText', { path: '/in-bucket.txt', text: 'hi', bucket: 'cache' });
+
+      const inBucket = await handleOPFSRpc('fs.list', { path: '/', bucket: 'cache' });
+      expect((inBucket as { data: FSEntry[] }).data.map((e) => e.name)).toEqual(['in-bucket.txt']);
+      const inDefault = await handleOPFSRpc('fs.list', { path: '/' });
+      expect((inDefault as { data: FSEntry[] }).data.map((e) => e.name)).toEqual(['default.txt']);
+    });
+
+    it('should not create a bucket by accessing it', async () => {
+      const response = await handleOPFSRpc('fs.list', { path: '/', bucket: 'missing' });
+
+      expect(!response.ok && response.error.code).toBe('ENOENT');
+      const listed = await handleOPFSRpc('buckets.list', {});
+      expect((listed as { data: BucketInfo[] }).data).toEqual([]);
+    });
+
+    it('should apply the batch bucket to its sub-commands', async () => {
+      await handleOPFSRpc('buckets.open', { name: 'cache' });
+
+      await handleOPFSRpc('fs.batch', {
+        bucket: 'cache',
+        operations: [{ command: 'fs.mkdir', params: { path: '/logs' } }],
+      });
+
+      expect((await handleOPFSRpc('fs.stat', { path: '/logs', bucket: 'cache' })).ok).toBe(true);
+      expect((await handleOPFSRpc('fs.stat', { path: '/logs' })).ok).toBe(false);
+    });
+
+    it('should map invalid bucket names to INVALID_NAME', async () => {
+      const response = await handleOPFSRpc('buckets.open', { name: 'Not Valid' });
+
+      expect(!response.ok && response.error.code).toBe('INVALID_NAME');
+    });
+  });
+
+  describe('fs.watch', () => {
+    const sendMessage = vi.mocked(chrome.runtime.sendMessage);
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      sendMessage.mockClear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function startWatch(path: string): Promise<WatchResult> {
+      const response = await handleOPFSRpc('fs.watch', { path });
+      return (response as { data: WatchResult }).data;
+    }
+
+    function sentEvents(): WatchEventMessage[] {
+      return sendMessage.mock.calls.map(([message]) => message as WatchEventMessage);
+    }
+
+    it('should report added, modified and removed entries with their metadata', async () => {
+      await writeMockFile(root, '/notes/a.txt', 'a');
+      await writeMockFile(root, '/notes/b.txt', 'b');
+      const { watchId, native } = await startWatch('/notes');
+      expect(native).toBe(false);
+
+      await writeMockFile(root, '/notes/c.txt', 'c');
+      await handleOPFSRpc('fs.writeText', { path: '/notes/a.txt', text: 'changed' });
+      await handleOPFSRpc('fs.delete', { path: '/notes/b.txt' });
+      await vi.advanceTimersByTimeAsync(WATCH_POLL_INTERVAL);
+
+      const [event] = sentEvents();
+      expect(sentEvents()).toHaveLength(1);
+      expect(event.watchId).toBe(watchId);
+      expect(event.changes).toEqual(
+        expect.arrayContaining([
+          { type: 'added', path: '/notes/c.txt', kind: 'file' },
+          { type: 'modified', path: '/notes/a.txt', kind: 'file' },
+          { type: 'removed', path: '/notes/b.txt', kind: 'file' },
+        ])
+      );
+      expect(event.changes).toHaveLength(3);
+      expect(event.entries.map((e) => e.name).sort()).toEqual(['a.txt', 'c.txt']);
+    });
+
+    it('should only stat the entries FileSystemObserver reports', async () => {
+      let notify: (
+        records: { relativePathComponents: string[]; type: string }[]
+      ) => void = () => {};
+      vi.stubGlobal(
+        'FileSystemObserver',
+        class {
+          constructor(callback: typeof notify) {
+            notify = callback;
+          }
+          async observe() {}
+          disconnect() {}
+        }
+      );
+      await writeMockFile(root, '/notes/a.txt', 'a');
+      await writeMockFile(root, '/notes/b.txt', 'b');
+      const { native } = await startWatch('/notes');
+      expect(native).toBe(true);
+
+      const notes = root.children.get('notes') as MockDirectoryHandle;
+      const getFile = vi.spyOn(notes.children.get('b.txt') as MockFileHandle, 'getFile');
+      await handleOPFSRpc('fs.writeText', { path: '/notes/a.txt', text: 'changed' });
+      notify([{ relativePathComponents: ['a.txt'], type: 'modified' }]);
+      await vi.advanceTimersByTimeAsync(0);
+      vi.unstubAllGlobals();
+
+      expect(sentEvents()).toHaveLength(1);
+      expect(sentEvents()[0].changes).toEqual([
+        { type: 'modified', path: '/notes/a.txt', kind: 'file' },
+      ]);
+      expect(sentEvents()[0].entries).toEqual([
+        expect.objectContaining({ path: '/notes/a.txt', size: 7 }),
+      ]);
+      expect(getFile).not.toHaveBeenCalled();
+    });
+
+    it('should stay quiet when nothing changed and after fs.unwatch', async () => {
+      await handleOPFSRpc('fs.mkdir', { path: '/notes' });
+      const { watchId } = await startWatch('/notes');
+
+      await vi.advanceTimersByTimeAsync(WATCH_POLL_INTERVAL * 2);
+      expect(sentEvents()).toHaveLength(0);
+
+      const unwatched = await handleOPFSRpc('fs.unwatch', { watchId });
+      expect(unwatched).toEqual({ ok: true, data: true });
+      await writeMockFile(root, '/notes/late.txt', 'late');
+      await vi.advanceTimersByTimeAsync(WATCH_POLL_INTERVAL * 2);
+      expect(sentEvents()).toHaveLength(0);
+    });
+
+    it('should report the removal of the watched folder once', async () => {
+      await handleOPFSRpc('fs.mkdir', { path: '/notes' });
+      await startWatch('/notes');
+
+      await handleOPFSRpc('fs.delete', { path: '/notes', recursive: true });
+      await vi.advanceTimersByTimeAsync(WATCH_POLL_INTERVAL * 3);
+
+      expect(sentEvents()).toHaveLength(1);
+      expect(sentEvents()[0].changes).toEqual([
+        { type: 'removed', path: '/notes', kind: 'directory' },
+      ]);
+    });
+
+    it('should not watch a missing folder', async () => {
+      const response = await handleOPFSRpc('fs.watch', { path: '/missing' });
+
+      expect(!response.ok && response.error.code).toBe('ENOENT');
+    });
+  });
+
+  describe('fs.search', () => {
+    const sendMessage = vi.mocked(chrome.runtime.sendMessage);
+
+    beforeEach(() => {
+      sendMessage.mockClear();
+    });
+
+    function streamedMatches(): SearchMatch[] {
+      return sendMessage.mock.calls.flatMap(([message]) => {
+        const { type, requestId, data } = message as RPCStreamMessage;
+        return type === 'OPFS_RPC_STREAM' && requestId === 'req-search'
+          ? (data as SearchMatch[])
+          : [];
+      });
+    }
+
+    it('should stream matching lines with context and return the totals', async () => {
+      await writeMockFile(root, '/logs/app.log', 'start\nERROR disk full\nretry\nerror again');
+      await writeMockFile(root, '/logs/ok.log', 'all good');
+
+      const response = await handleOPFSRpc(
+        'fs.search',
+        { path: '/', query: 'error' },
+        'req-search'
+      );
+
+      expect((response as { data: SearchSummary }).data).toEqual({
+        filesSearched: 2,
+        filesMatched: 1,
+        matchCount: 2,
+        truncated: false,
+      });
+      expect(streamedMatches()).toEqual([
+        {
+          path: '/logs/app.log',
+          line: 2,
+          text: 'ERROR disk full',
+          ranges: [[0, 5]],
+          before: ['start'],
+          after: ['retry'],
+        },
+        {
+          path: '/logs/app.log',
+          line: 4,
+          text: 'error again',
+          ranges: [[0, 5]],
+          before: ['retry'],
+          after: [],
+        },
+      ]);
+    });
+
+    it('should apply regex, case, globs and the size limit', async () => {
+      await writeMockFile(root, '/src/a.ts', 'const id = 42;');
+      await writeMockFile(root, '/src/b.js', 'const id = 7;');
+      await writeMockFile(root, '/src/vendor/c.ts', 'const id = 1;');
+      await writeMockFile(root, '/src/big.ts', 'const id = 1000;');
+
+      const response = await handleOPFSRpc(
+        'fs.search',
+        {
+          path: '/src',
+          query: 'id = \\d+',
+          regex: true,
+          caseSensitive: true,
+          include: ['*.ts'],
+          exclude: ['vendor'],
+          maxFileSize: 14,
+        },
+        'req-search'
+      );
+
+      expect((response as { data: SearchSummary }).data.filesSearched).toBe(1);
+      expect(streamedMatches().map((match) => [match.path, match.ranges])).toEqual([
+        ['/src/a.ts', [[6, 13]]],
+      ]);
+    });
+
+    it('should stop at maxResults and reject invalid patterns', async () => {
+      await writeMockFile(root, '/a.txt', 'x\nx\nx');
+
+      const limited = await handleOPFSRpc(
+        'fs.search',
+        { path: '/', query: 'x', maxResults: 2 },
+        'req-search'
+      );
+      expect((limited as { data: SearchSummary }).data).toMatchObject({
+        matchCount: 2,
+        truncated: true,
+      });
+      expect(streamedMatches()).toHaveLength(2);
+
+      const invalid = await handleOPFSRpc('fs.search', { path: '/', query: '(', regex: true });
+      expect(!invalid.ok && invalid.error.code).toBe('INVALID_PATTERN');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  opfsApi,
+  setInspectedTabId,
+  setActiveBucket,
+  isCancelledError,
+  onWatchEvent,
+} from '../../src/panel/utils/rpc';
+import type { WatchEventMessage } from '../../src/shared/rpc/messages';
+import { panelPort, respondWith, sendResponse, sentMessages } from '../mocks/port';
+
+describe('rpc channel', () => {
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+  });
+
+  it('should resolve with the response data', async () => {
+    respondWith(() => ({ usage: 1, quota: 2 }));
+
+    await expect(opfsApi.estimate()).resolves.toEqual({ usage: 1, quota: 2 });
+  });
+
+  it('should reject with the error code', async () => {
+    panelPort.postMessage.mockImplementation((message) => {
+      if (message.type !== 'OPFS_RPC_REQUEST') return;
+      sendResponse(message.requestId, {
+        ok: false,
+        error: { code: 'ENOENT', message: 'Missing' },
+      });
+    });
+
+    await expect(opfsApi.stat({ path: '/missing' })).rejects.toMatchObject({
+      message: 'Missing',
+      code: 'ENOENT',
+    });
+  });
+
+  it('should forward progress events while a request is running', async () => {
+    const onProgress = vi.fn();
+    const promise = opfsApi.copy({ from: '/a', to: '/b' }, { onProgress });
+
+    const [request] = sentMessages();
+    expect(request).toMatchObject({ type: 'OPFS_RPC_REQUEST', reportProgress: true });
+    if (request.type !== 'OPFS_RPC_REQUEST') return;
+
+    const progress = { filesProcessed: 3, bytesProcessed: 1024, currentPath: '/a/3.txt' };
+    panelPort.onMessage.dispatch({
+      type: 'OPFS_RPC_PROGRESS',
+      requestId: request.requestId,
+      progress,
+    });
+    sendResponse(request.requestId, { ok: true, data: null });
+
+    await promise;
+    expect(onProgress).toHaveBeenCalledWith(progress);
+  });
+
+  it('should pass streamed search matches to onMatches', async () => {
+    const onMatches = vi.fn();
+    const promise = opfsApi.search({ path: '/', query: 'todo' }, { onMatches });
+
+    const [request] = sentMessages();
+    if (request.type !== 'OPFS_RPC_REQUEST') return;
+
+    const matches = [
+      { path: '/a.txt', line: 1, text: 'todo', ranges: [[0, 4]], before: [], after: [] },
+    ];
+    panelPort.onMessage.dispatch({
+      type: 'OPFS_RPC_STREAM',
+      requestId: request.requestId,
+      data: matches,
+    });
+    panelPort.onMessage.dispatch({ type: 'OPFS_RPC_STREAM', requestId: 'other', data: [] });
+    const summary = { filesSearched: 1, filesMatched: 1, matchCount: 1, truncated: false };
+    sendResponse(request.requestId, { ok: true, data: summary });
+
+    await expect(promise).resolves.toEqual(summary);
+    expect(onMatches).toHaveBeenCalledTimes(1);
+    expect(onMatches).toHaveBeenCalledWith(matches);
+  });
+
+  it('should send a cancel message when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = opfsApi.move({ from: '/a', to: '/b' }, { signal: controller.signal });
+
+    controller.abort();
+
+    const [request, cancel] = sentMessages();
+    expect(cancel).toEqual({ type: 'OPFS_RPC_CANCEL', requestId: request.requestId });
+
+    sendResponse(request.requestId, {
+      ok: false,
+      error: { code: 'CANCELLED', message: 'Operation cancelled' },
+    });
+
+    const error = await promise.catch((e) => e);
+    expect(isCancelledError(error)).toBe(true);
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      opfsApi.copy({ from: '/a', to: '/b' }, { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(panelPort.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should scope fs commands to the active bucket', async () => {
+    setActiveBucket('drafts');
+    try {
+      opfsApi.list({ path: '/' });
+      opfsApi.listBuckets();
+      opfsApi.stat({ path: '/a', bucket: undefined });
+    } finally {
+      setActiveBucket(null);
+    }
+
+    const [list, buckets, stat] = sentMessages();
+    expect(list).toMatchObject({ params: { path: '/', bucket: 'drafts' } });
+    expect(buckets).toMatchObject({ command: 'buckets.list', params: {} });
+    expect(buckets.type === 'OPFS_RPC_REQUEST' && 'bucket' in buckets.params).toBe(false);
+    expect(stat.type === 'OPFS_RPC_REQUEST' && stat.params.bucket).toBeUndefined();
+  });
+
+  it('should route watch events to the listener of their watch', () => {
+    const listener = vi.fn();
+    const unsubscribe = onWatchEvent('watch-1', listener);
+    // The port is opened by the first request
+    opfsApi.unwatch({ watchId: 'watch-0' });
+
+    const event: WatchEventMessage = {
+      type: 'OPFS_WATCH_EVENT',
+      watchId: 'watch-1',
+      changes: [],
+      entries: [],
+    };
+    panelPort.onMessage.dispatch(event);
+    panelPort.onMessage.dispatch({ ...event, watchId: 'watch-2' });
+    unsubscribe();
+    panelPort.onMessage.dispatch(event);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+});
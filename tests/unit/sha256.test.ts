@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { Sha256, toHex } from '../../src/shared/utils/sha256';
+
+const encoder = new TextEncoder();
+
+function sha256(...chunks: Uint8Array[]): string {
+  const hash = new Sha256();
+  chunks.forEach((chunk) => hash.update(chunk));
+  return toHex(hash.digest());
+}
+
+describe('sha256', () => {
+  it('should match the FIPS 180-4 test vectors', () => {
+    expect(sha256(new Uint8Array())).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(sha256(encoder.encode('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+    expect(sha256(encoder.encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('should give the same digest as crypto.subtle for data fed in uneven chunks', async () => {
+    const data = new Uint8Array(1000).map((_, i) => (i * 31) % 256);
+    const expected = toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+
+    expect(
+      sha256(data.subarray(0, 1), data.subarray(1, 70), data.subarray(70, 128), data.subarray(128))
+    ).toBe(expected);
+  });
+});
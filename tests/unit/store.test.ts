@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useFileSystemStore } from '../../src/panel/store';
+import type { FSEntry } from '../../src/shared/types';
+
+// Names-only entries have no metadata keys at all
+function file(path: string, size?: number): FSEntry {
+  const entry: FSEntry = { name: path.split('/').pop()!, path, kind: 'file' };
+  return size === undefined ? entry : { ...entry, size };
+}
+
+function folder(path: string, children?: FSEntry[]): FSEntry {
+  const entry: FSEntry = { name: path.split('/').pop()!, path, kind: 'directory' };
+  return children ? { ...entry, children } : entry;
+}
+
+describe('directory cache', () => {
+  beforeEach(() => {
+    useFileSystemStore.setState({ directories: {}, currentPath: '/', entries: [], allEntries: [] });
+  });
+
+  it('should show the current folder from its cached listing', () => {
+    const store = useFileSystemStore.getState();
+    store.setDirectory('/docs', [file('/docs/a.txt')], 'list-1:1');
+    store.setCurrentPath('/docs');
+    store.appendDirectory('/docs', [file('/docs/b.txt')], null);
+
+    const state = useFileSystemStore.getState();
+    expect(state.entries.map((entry) => entry.name)).toEqual(['a.txt', 'b.txt']);
+    expect(state.listCursor).toBeNull();
+  });
+
+  it('should apply watcher changes without dropping the pages still to load', () => {
+    const store = useFileSystemStore.getState();
+    store.setDirectory('/docs', [file('/docs/a.txt'), file('/docs/b.txt')], 'list-1:2');
+    store.setCurrentPath('/docs');
+    store.applyDirectoryChanges(
+      '/docs',
+      [
+        { type: 'modified', path: '/docs/a.txt', kind: 'file' },
+        { type: 'removed', path: '/docs/b.txt', kind: 'file' },
+        { type: 'added', path: '/docs/c.txt', kind: 'file' },
+      ],
+      [file('/docs/a.txt', 5), file('/docs/c.txt', 1)]
+    );
+    store.appendDirectory('/docs', [file('/docs/c.txt'), file('/docs/d.txt')], null);
+
+    const state = useFileSystemStore.getState();
+    expect(state.entries).toEqual([
+      file('/docs/a.txt', 5),
+      file('/docs/c.txt', 1),
+      file('/docs/d.txt'),
+    ]);
+  });
+
+  it('should cache every folder of a deep listing and keep known metadata', () => {
+    const store = useFileSystemStore.getState();
+    store.setDirectory('/', [file('/a.txt', 3)], null);
+    store.cacheTree('/', [file('/a.txt'), folder('/docs', [file('/docs/b.txt')])]);
+
+    const { directories, entries } = useFileSystemStore.getState();
+    expect(entries).toEqual([file('/a.txt', 3), folder('/docs')]);
+    expect(directories['/docs'].entries).toEqual([file('/docs/b.txt')]);
+  });
+
+  it('should merge stat results into cached folders and global search', () => {
+    const store = useFileSystemStore.getState();
+    store.cacheTree('/', [folder('/docs', [file('/docs/b.txt')])]);
+    store.setAllEntries([file('/docs/b.txt')]);
+    store.mergeEntries([file('/docs/b.txt', 42)]);
+
+    const state = useFileSystemStore.getState();
+    expect(state.directories['/docs'].entries[0].size).toBe(42);
+    expect(state.allEntries[0].size).toBe(42);
+  });
+
+  it('should mark the parent, the path and everything below it stale', () => {
+    const store = useFileSystemStore.getState();
+    for (const path of ['/', '/docs', '/docs/deep', '/other']) {
+      store.setDirectory(path, [], null);
+    }
+    store.invalidateDirectories(['/docs']);
+
+    const { directories } = useFileSystemStore.getState();
+    const stale = Object.keys(directories).filter((path) => directories[path].stale);
+    expect(stale.sort()).toEqual(['/', '/docs', '/docs/deep']);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { File as NodeFile, Blob as NodeBlob } from 'node:buffer';
+import { applySync, listLocalFiles, planSync, type SyncPlan } from '../../src/panel/utils/sync';
+import { startOperationTracker } from '../../src/panel/utils/operations';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { uint8ArrayToBase64 } from '../../src/shared/utils/base64';
+import type { RPCRequestMessage } from '../../src/shared/rpc/messages';
+import { batchOperations, panelPort, respondToBatch, respondWith } from '../mocks/port';
+
+// An in-memory folder on disk: file contents by relative path
+function localFolder(files: Record<string, string>, name = 'fixtures') {
+  const written: Record<string, string> = {};
+  const removed: string[] = [];
+
+  const directory = (prefix: string): FileSystemDirectoryHandle => {
+    const below = (path: string) => (prefix ? `${prefix}/${path}` : path);
+    const childNames = () => {
+      const names = new Map<string, 'file' | 'directory'>();
+      for (const path of Object.keys(files)) {
+        if (prefix && !path.startsWith(`${prefix}/`)) continue;
+        const [first, ...rest] = path.slice(prefix ? prefix.length + 1 : 0).split('/');
+        names.set(first, rest.length > 0 ? 'directory' : 'file');
+      }
+      return names;
+    };
+    const file = (path: string) =>
+      ({
+        kind: 'file',
+        getFile: async () => new NodeFile([files[path]], path, { lastModified: 1000 }),
+        createWritable: async () => ({
+          write: async (blob: Blob) => {
+            written[path] = await blob.text();
+          },
+          close: async () => {},
+        }),
+      }) as unknown as FileSystemFileHandle;
+
+    return {
+      kind: 'directory',
+      name: prefix || name,
+      async *entries() {
+        for (const [child, kind] of childNames()) {
+          yield [child, kind === 'file' ? file(below(child)) : directory(below(child))];
+        }
+      },
+      getDirectoryHandle: async (child: string) => directory(below(child)),
+      getFileHandle: async (child: string) => file(below(child)),
+      removeEntry: async (child: string) => {
+        removed.push(below(child));
+      },
+    } as unknown as FileSystemDirectoryHandle;
+  };
+
+  return { handle: directory(''), written, removed };
+}
+
+function emptyPlan(direction: SyncPlan['direction']): SyncPlan {
+  return { direction, added: [], changed: [], deleted: [], unchanged: [] };
+}
+
+describe('sync planning', () => {
+  const source = {
+    'same.txt': { size: 4, lastModified: 2000, sha256: 'aa' },
+    'edited.txt': { size: 4, lastModified: 3000, sha256: 'bb' },
+    'grown.txt': { size: 9, lastModified: 1000 },
+    'new.txt': { size: 1, lastModified: 1000 },
+  };
+  const target = {
+    'same.txt': { size: 4, lastModified: 2000, sha256: 'aa' },
+    'edited.txt': { size: 4, lastModified: 1000, sha256: 'cc' },
+    'grown.txt': { size: 4, lastModified: 1000 },
+    'stale.txt': { size: 1, lastModified: 1000 },
+  };
+
+  it('should sort files into added, changed, deleted and unchanged', () => {
+    expect(planSync('push', source, target, 'size')).toEqual({
+      direction: 'push',
+      added: ['new.txt'],
+      changed: ['grown.txt'],
+      deleted: ['stale.txt'],
+      unchanged: ['edited.txt', 'same.txt'],
+    });
+  });
+
+  it('should also count newer or differently hashed files as changed', () => {
+    expect(planSync('push', source, target, 'mtime').changed).toEqual(['edited.txt', 'grown.txt']);
+    expect(planSync('push', source, target, 'hash').changed).toEqual(['edited.txt', 'grown.txt']);
+  });
+
+  it('should list files below a local folder by relative path', async () => {
+    const { handle } = localFolder({ 'a.txt': 'a', 'sub/deep/b.txt': 'bb' });
+    expect(await listLocalFiles(handle)).toEqual({
+      'a.txt': { size: 1, lastModified: 1000 },
+      'sub/deep/b.txt': { size: 2, lastModified: 1000 },
+    });
+  });
+});
+
+describe('applying a sync', () => {
+  let requests: RPCRequestMessage[];
+
+  beforeEach(() => {
+    setInspectedTabId(1);
+    requests = [];
+    panelPort.postMessage.mockReset();
+    respondWith((message) => {
+      requests.push(message);
+      const content = new TextEncoder().encode('from opfs');
+      return message.command === 'fs.batch'
+        ? respondToBatch(message)
+        : message.command === 'fs.readRange'
+          ? {
+              base64: uint8ArrayToBase64(content),
+              offset: 0,
+              bytesRead: content.length,
+              size: content.length,
+              eof: true,
+            }
+          : undefined;
+    });
+  });
+
+  function sent() {
+    return requests
+      .flatMap(batchOperations)
+      .map((operation) => `${operation.command} ${operation.params.path}`);
+  }
+
+  it('should push into the OPFS folder and keep both copies of changed files', async () => {
+    const { handle } = localFolder({ 'new.txt': 'n', 'sub/edited.txt': 'e' });
+    const tracker = startOperationTracker('Pushing');
+
+    const failures = await applySync(
+      {
+        ...emptyPlan('push'),
+        added: ['new.txt'],
+        changed: ['sub/edited.txt'],
+        deleted: ['stale.txt'],
+      },
+      handle,
+      '/app',
+      { resolution: 'keep-both', deleteMissing: true },
+      tracker
+    );
+    tracker.finish();
+
+    expect(failures).toEqual([]);
+    expect(sent()).toEqual([
+      'fs.writeRange /app/new.txt',
+      'fs.writeRange /app/sub/edited 2.txt',
+      'fs.delete /app/stale.txt',
+    ]);
+  });
+
+  it('should pull into the local folder, skipping changed files when asked to', async () => {
+    // Local writes receive the blobs read from OPFS, which need text()
+    vi.stubGlobal('Blob', NodeBlob);
+    const { handle, written, removed } = localFolder({});
+    const tracker = startOperationTracker('Pulling');
+
+    await applySync(
+      { ...emptyPlan('pull'), added: ['a/new.txt'], changed: ['edited.txt'], deleted: ['old.txt'] },
+      handle,
+      '/app',
+      { resolution: 'skip', deleteMissing: false },
+      tracker
+    );
+    tracker.finish();
+    vi.unstubAllGlobals();
+
+    expect(written).toEqual({ 'a/new.txt': 'from opfs' });
+    expect(removed).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readTarDirectory, readTarEntry } from '../../src/panel/utils/tar';
+import { getGzipTarget } from '../../src/panel/utils/gzip';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { panelPort, serveFile } from '../mocks/port';
+
+// A ustar header block followed by the content padded to 512 bytes
+function tarEntry(name: string, type: string, content = ''): Uint8Array {
+  const body = new TextEncoder().encode(content);
+  const block = new Uint8Array(512 + Math.ceil(body.length / 512) * 512);
+  const write = (offset: number, value: string) =>
+    block.set(new TextEncoder().encode(value), offset);
+
+  write(0, name);
+  write(100, '0000644\0');
+  write(124, body.length.toString(8).padStart(11, '0') + '\0');
+  write(136, (1700000000).toString(8).padStart(11, '0') + '\0');
+  write(148, '        ');
+  write(156, type);
+  write(257, 'ustar\0');
+  write(263, '00');
+  const checksum = block.subarray(0, 512).reduce((sum, byte) => sum + byte, 0);
+  write(148, checksum.toString(8).padStart(6, '0') + '\0 ');
+  block.set(body, 512);
+  return block;
+}
+
+// A pax record, its length prefix counting itself
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bytes = new TextEncoder().encode(body).length;
+  let length = bytes + 1;
+  while (String(length).length + bytes > length) length++;
+  return `${length}${body}`;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('tar reader', () => {
+  let archive: Uint8Array;
+
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+
+    archive = concat([
+      tarEntry('./docs/', '5'),
+      tarEntry('./docs/big.bin', '0', 'x'.repeat(300 * 1024)),
+      tarEntry('./docs/notes.txt', '0', 'hello tar'),
+      tarEntry('./link', '2'),
+      tarEntry('../evil.txt', '0', 'nope'),
+      new Uint8Array(1024),
+    ]);
+  });
+
+  it('should list files and folders without transferring file contents', async () => {
+    const ranges = serveFile(archive);
+    const entries = await readTarDirectory('/a.tar');
+
+    expect(entries.map((entry) => [entry.path, entry.kind, entry.size])).toEqual([
+      ['/docs', 'directory', 0],
+      ['/docs/big.bin', 'file', 300 * 1024],
+      ['/docs/notes.txt', 'file', 9],
+    ]);
+    expect(entries[2].lastModified).toBe(1700000000 * 1000);
+    // The content of big.bin is skipped over
+    const transferred = ranges.reduce((sum, range) => sum + range.length, 0);
+    expect(transferred).toBeLessThan(archive.length);
+  });
+
+  it('should read entries of plain and gzipped tars', async () => {
+    serveFile(archive);
+    const entries = await readTarDirectory('/a.tar');
+    expect(new TextDecoder().decode(await readTarEntry('/a.tar', entries[2]))).toBe('hello tar');
+
+    serveFile(await gzip(archive));
+    const gzipped = await readTarDirectory('/a.tar.gz');
+    expect(gzipped.map((entry) => entry.path)).toEqual(entries.map((entry) => entry.path));
+    expect(new TextDecoder().decode(await readTarEntry('/a.tar.gz', gzipped[2]))).toBe('hello tar');
+  });
+});
+
+describe('pax headers', () => {
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+  });
+
+  it('should take paths from pax records by their length, newlines included', async () => {
+    // The comment's second line looks like a record of its own
+    const pax =
+      paxRecord('path', 'docs/long näme.txt') +
+      paxRecord('comment', 'first line\n20 path=evil.txt') +
+      'abc path=wrong.txt\n';
+    serveFile(
+      concat([
+        tarEntry('PaxHeader', 'x', pax),
+        tarEntry('docs/short.txt', '0', 'hi'),
+        new Uint8Array(1024),
+      ])
+    );
+
+    const entries = await readTarDirectory('/a.tar');
+    expect(entries.map((entry) => entry.path)).toEqual(['/docs/long näme.txt']);
+  });
+});
+
+describe('getGzipTarget', () => {
+  it('should add or remove the .gz extension', () => {
+    expect(getGzipTarget('/logs/app.log', 'gzip')).toBe('/logs/app.log.gz');
+    expect(getGzipTarget('/logs/app.log.gz', 'gunzip')).toBe('/logs/app.log');
+    expect(getGzipTarget('/bundle.tgz', 'gunzip')).toBe('/bundle.tar');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { readBlob, writeBlob, writeFiles } from '../../src/panel/utils/transfer';
+import { setInspectedTabId, type RPCRequestOptions } from '../../src/panel/utils/rpc';
+import type { OperationTracker } from '../../src/panel/utils/operations';
+import type { RPCRequestMessage } from '../../src/shared/rpc/messages';
+import { panelPort, respondToBatch, respondWith, serveFile } from '../mocks/port';
+
+describe('transfer utilities', () => {
+  beforeEach(() => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+  });
+
+  describe('readBlob', () => {
+    it('should request consecutive ranges until eof', async () => {
+      const content = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      const ranges = serveFile(content);
+
+      const blob = await readBlob('/data.bin', 'application/octet-stream', undefined, 4);
+
+      expect(ranges).toEqual([
+        { offset: 0, length: 4 },
+        { offset: 4, length: 4 },
+        { offset: 8, length: 4 },
+      ]);
+      expect(blob.size).toBe(10);
+    });
+
+    it('should report progress after each chunk', async () => {
+      serveFile(new Uint8Array(6));
+
+      const progress: [number, number][] = [];
+      await readBlob('/data.bin', undefined, (done, total) => progress.push([done, total]), 3);
+
+      expect(progress).toEqual([
+        [3, 6],
+        [6, 6],
+      ]);
+    });
+  });
+
+  describe('writeBlob', () => {
+    it('should keep the session open until the last chunk and abort it when cancelled', async () => {
+      const sent: Record<string, unknown>[] = [];
+      respondWith(({ params }) => {
+        sent.push(params);
+        return { bytesWritten: 4, size: 4, session: 'write-1' };
+      });
+      const blob = new NodeBlob([new Uint8Array(10)]) as unknown as Blob;
+
+      await writeBlob('/data.bin', blob, undefined, 4);
+      expect(sent.map(({ offset, session, keepOpen }) => [offset, session, keepOpen])).toEqual([
+        [0, undefined, true],
+        [4, 'write-1', true],
+        [8, 'write-1', false],
+      ]);
+
+      sent.length = 0;
+      const controller = new AbortController();
+      await expect(
+        writeBlob('/data.bin', blob, () => controller.abort(), 4, controller.signal)
+      ).rejects.toMatchObject({ code: 'CANCELLED' });
+      expect(sent).toHaveLength(2);
+      expect(sent[1]).toEqual({ session: 'write-1' });
+    });
+  });
+
+  describe('writeFiles', () => {
+    // jsdom's Blob has no arrayBuffer()
+    const blob = (size: number) => new NodeBlob([new Uint8Array(size)]) as unknown as Blob;
+
+    // A tracker outside the operations tray, counting the batches and large files written
+    function track(requestOptions: RPCRequestOptions = {}) {
+      const tracker: OperationTracker & { items: number } = {
+        signal: requestOptions.signal ?? new AbortController().signal,
+        requestOptions,
+        items: 0,
+        itemDone: () => tracker.items++,
+        cancel: () => {},
+        finish: () => {},
+      };
+      return tracker;
+    }
+
+    it('should pack small files into batches and report the ones that failed', async () => {
+      const requests: RPCRequestMessage[] = [];
+
+      respondWith((message) => {
+        requests.push(message);
+        return message.command === 'fs.batch'
+          ? respondToBatch(message, (operation) =>
+              operation.params.path === '/b.txt'
+                ? { ok: false, error: { code: 'QUOTA_EXCEEDED', message: 'Full' } }
+                : { ok: true, data: { bytesWritten: 2, size: 2 } }
+            )
+          : { bytesWritten: 4, size: 6 };
+      });
+
+      const tracker = track();
+      const failures = await writeFiles(
+        [
+          { path: '/a.txt', blob: blob(2) },
+          { path: '/b.txt', blob: blob(2) },
+          { path: '/big.bin', blob: blob(6) },
+          { path: '/c.txt', blob: blob(2) },
+        ],
+        tracker,
+        4
+      );
+
+      expect(requests.map((request) => request.command)).toEqual([
+        'fs.batch',
+        'fs.writeRange',
+        'fs.writeRange',
+        'fs.batch',
+      ]);
+      expect(failures.map(({ path, error }) => [path, error.message])).toEqual([
+        ['/b.txt', 'Full'],
+      ]);
+      expect(tracker.items).toBe(3);
+    });
+
+    it('should report the progress of large files and stop when cancelled', async () => {
+      respondWith(() => ({ bytesWritten: 4, size: 4, session: 'write-1' }));
+      const progress: unknown[] = [];
+      const controller = new AbortController();
+
+      await writeFiles(
+        [{ path: '/big.bin', blob: blob(6) }],
+        track({ onProgress: (update) => progress.push(update), signal: controller.signal }),
+        4
+      );
+      expect(progress).toEqual([
+        { filesProcessed: 0, bytesProcessed: 4, currentPath: '/big.bin' },
+        { filesProcessed: 0, bytesProcessed: 6, currentPath: '/big.bin' },
+        { filesProcessed: 1, bytesProcessed: 6 },
+      ]);
+
+      await expect(
+        writeFiles(
+          [{ path: '/big.bin', blob: blob(6) }],
+          track({ onProgress: () => controller.abort(), signal: controller.signal }),
+          4
+        )
+      ).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSizeTree,
+  squarify,
+  layoutTreemap,
+  type SizeNode,
+} from '../../src/panel/utils/treemap';
+import type { FSEntry } from '../../src/shared/types';
+
+function file(path: string, size: number): SizeNode {
+  return { name: path.split('/').pop()!, path, kind: 'file', size, children: [] };
+}
+
+describe('treemap utilities', () => {
+  describe('buildSizeTree', () => {
+    it('should sum folder sizes from nested entries', () => {
+      const entries: FSEntry[] = [
+        { name: 'a.txt', path: '/a.txt', kind: 'file', size: 10 },
+        {
+          name: 'cache',
+          path: '/cache',
+          kind: 'directory',
+          children: [
+            { name: 'b.bin', path: '/cache/b.bin', kind: 'file', size: 30 },
+            { name: 'empty', path: '/cache/empty', kind: 'directory', children: [] },
+          ],
+        },
+      ];
+
+      const tree = buildSizeTree(entries);
+
+      expect(tree).toMatchObject({ path: '/', kind: 'directory', size: 40 });
+      expect(tree.children[1]).toMatchObject({ name: 'cache', path: '/cache', size: 30 });
+      expect(tree.children[1].children[1]).toMatchObject({ name: 'empty', size: 0 });
+    });
+  });
+
+  describe('squarify', () => {
+    it('should split the area proportionally to size', () => {
+      const nodes = [file('/a', 50), file('/b', 25), file('/c', 25), file('/empty', 0)];
+
+      const rects = squarify(nodes, { x: 0, y: 0, width: 100, height: 100 });
+
+      expect(rects.map((r) => r.node.path)).toEqual(['/a', '/b', '/c']);
+      const areas = rects.map(({ rect }) => Math.round(rect.width * rect.height));
+      expect(areas).toEqual([5000, 2500, 2500]);
+      for (const { rect } of rects) {
+        expect(rect.x + rect.width).toBeLessThanOrEqual(100.0001);
+        expect(rect.y + rect.height).toBeLessThanOrEqual(100.0001);
+      }
+    });
+
+    it('should keep blocks close to square', () => {
+      const nodes = Array.from({ length: 16 }, (_, i) => file(`/f${i}`, 1));
+
+      const rects = squarify(nodes, { x: 0, y: 0, width: 400, height: 400 });
+
+      for (const { rect } of rects) {
+        const ratio = Math.max(rect.width / rect.height, rect.height / rect.width);
+        expect(ratio).toBeLessThan(2);
+      }
+    });
+  });
+
+  describe('layoutTreemap', () => {
+    it('should nest folder contents below a label area', () => {
+      const root = buildSizeTree([
+        {
+          name: 'cache',
+          path: '/cache',
+          kind: 'directory',
+          children: [{ name: 'big.bin', path: '/cache/big.bin', kind: 'file', size: 100 }],
+        },
+      ]);
+
+      const rects = layoutTreemap(root, 200, 100, { headerHeight: 16, padding: 2 });
+
+      expect(rects).toEqual([
+        expect.objectContaining({ depth: 0, x: 0, y: 0, width: 200, height: 100 }),
+        expect.objectContaining({ depth: 1, x: 2, y: 16, width: 196, height: 82 }),
+      ]);
+      expect(rects[1].node.path).toBe('/cache/big.bin');
+    });
+
+    it('should stop nesting at maxDepth', () => {
+      const root = buildSizeTree([
+        {
+          name: 'a',
+          path: '/a',
+          kind: 'directory',
+          children: [{ name: 'b.bin', path: '/a/b.bin', kind: 'file', size: 1 }],
+        },
+      ]);
+
+      expect(layoutTreemap(root, 200, 200, { maxDepth: 0 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { getDroppedItems, getPickedItems, importItems } from '../../src/panel/utils/upload';
+import { startOperationTracker } from '../../src/panel/utils/operations';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { RANGE_CHUNK_SIZE, type RPCRequestMessage } from '../../src/shared/rpc/messages';
+import { batchOperations, panelPort, respondToBatch, respondWith } from '../mocks/port';
+
+// jsdom's File lacks arrayBuffer(), which writes use
+function makeFile(name: string, content: string | Uint8Array, relativePath = ''): File {
+  const file = new NodeFile([content], name) as unknown as File;
+  Object.defineProperty(file, 'webkitRelativePath', { value: relativePath });
+  return file;
+}
+
+// Entries as webkitGetAsEntry() returns them, folders hand out children two at a time
+function fileEntry(name: string): FileSystemEntry {
+  return {
+    name,
+    isFile: true,
+    isDirectory: false,
+    file: (resolve: (file: File) => void) => resolve(makeFile(name, name)),
+  } as unknown as FileSystemEntry;
+}
+
+function directoryEntry(name: string, children: FileSystemEntry[]): FileSystemEntry {
+  return {
+    name,
+    isFile: false,
+    isDirectory: true,
+    createReader: () => {
+      let position = 0;
+      return {
+        readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+          resolve(children.slice(position, position + 2));
+          position += 2;
+        },
+      };
+    },
+  } as unknown as FileSystemEntry;
+}
+
+function dataTransfer(entries: FileSystemEntry[]): DataTransfer {
+  return {
+    files: [],
+    items: entries.map((entry) => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+  } as unknown as DataTransfer;
+}
+
+describe('collecting imported items', () => {
+  it('should walk dropped folders, keeping empty ones', async () => {
+    const items = await getDroppedItems(
+      dataTransfer([
+        directoryEntry('photos', [
+          fileEntry('a.jpg'),
+          directoryEntry('2024', [fileEntry('b.jpg')]),
+          directoryEntry('empty', []),
+        ]),
+        fileEntry('notes.txt'),
+      ])
+    );
+
+    expect(items.map((item) => [item.path, item.file ? 'file' : 'folder'])).toEqual([
+      ['photos', 'folder'],
+      ['photos/a.jpg', 'file'],
+      ['photos/2024', 'folder'],
+      ['photos/2024/b.jpg', 'file'],
+      ['photos/empty', 'folder'],
+      ['notes.txt', 'file'],
+    ]);
+  });
+
+  it('should place picked files by their path in the picked folder', () => {
+    const items = getPickedItems([
+      makeFile('a.jpg', 'a', 'photos/2024/a.jpg'),
+      makeFile('loose.txt', 'b'),
+    ]);
+    expect(items.map((item) => item.path)).toEqual(['photos/2024/a.jpg', 'loose.txt']);
+  });
+});
+
+describe('importing items', () => {
+  let requests: RPCRequestMessage[];
+
+  beforeEach(() => {
+    setInspectedTabId(1);
+    requests = [];
+    panelPort.postMessage.mockReset();
+    respondWith((message) => {
+      requests.push(message);
+      return message.command === 'fs.list'
+        ? [{ name: 'photos', path: '/in/photos', kind: 'directory' }]
+        : message.command === 'fs.batch'
+          ? respondToBatch(message)
+          : message.command === 'fs.writeRange'
+            ? { bytesWritten: 0, size: 0 }
+            : undefined;
+    });
+  });
+
+  function sent() {
+    return requests.flatMap((request) =>
+      request.command === 'fs.batch'
+        ? batchOperations(request).map(
+            (operation) => `${operation.command} ${operation.params.path}`
+          )
+        : request.command === 'fs.list'
+          ? []
+          : [`${request.command} ${(request.params as { path: string }).path}`]
+    );
+  }
+
+  it('should recreate the folder structure and ask about clashing names once', async () => {
+    const conflicts: string[] = [];
+    const tracker = startOperationTracker('Importing');
+
+    const { imported, failures } = await importItems(
+      [
+        { path: 'photos', file: null },
+        { path: 'photos/a.jpg', file: makeFile('a.jpg', 'a') },
+        { path: 'photos/empty', file: null },
+        { path: 'notes.txt', file: makeFile('notes.txt', 'n') },
+      ],
+      '/in',
+      async (name) => {
+        conflicts.push(name);
+        return 'keep-both';
+      },
+      tracker
+    );
+    tracker.finish();
+
+    expect(failures).toEqual([]);
+    expect(imported).toBe(4);
+    expect(conflicts).toEqual(['photos']);
+    expect(sent()).toEqual([
+      'fs.mkdir /in/photos 2',
+      'fs.mkdir /in/photos 2/empty',
+      'fs.writeRange /in/photos 2/a.jpg',
+      'fs.writeRange /in/notes.txt',
+    ]);
+  });
+
+  it('should write large files in chunks of their own', async () => {
+    const tracker = startOperationTracker('Importing');
+
+    await importItems(
+      [
+        { path: 'small.txt', file: makeFile('small.txt', 's') },
+        { path: 'big.bin', file: makeFile('big.bin', new Uint8Array(RANGE_CHUNK_SIZE + 1)) },
+      ],
+      '/in',
+      async () => 'replace',
+      tracker
+    );
+    tracker.finish();
+
+    expect(sent()).toEqual([
+      'fs.writeRange /in/small.txt',
+      'fs.writeRange /in/big.bin',
+      'fs.writeRange /in/big.bin',
+    ]);
+  });
+
+  it('should write replaced items aside and swap them in once complete', async () => {
+    const tracker = startOperationTracker('Importing');
+    await importItems(
+      [
+        { path: 'photos', file: null },
+        { path: 'photos/a.jpg', file: makeFile('a.jpg', 'a') },
+      ],
+      '/in',
+      async () => 'replace',
+      tracker
+    );
+    tracker.finish();
+
+    const temp = sent()[0].slice('fs.mkdir '.length);
+    expect(temp).toMatch(/^\/in\/\.photos\.\w+\.tmp$/);
+    expect(sent().slice(0, 2)).toEqual([`fs.mkdir ${temp}`, `fs.writeRange ${temp}/a.jpg`]);
+    expect(requests[requests.length - 1].params).toEqual({
+      from: temp,
+      to: '/in/photos',
+      overwrite: true,
+    });
+  });
+
+  it('should keep the replaced item when writing its replacement fails', async () => {
+    respondWith((message) => {
+      requests.push(message);
+      return message.command === 'fs.list'
+        ? [{ name: 'photos', path: '/in/photos', kind: 'directory' }]
+        : message.command === 'fs.batch'
+          ? respondToBatch(message, () => ({
+              ok: false,
+              error: { code: 'QUOTA_EXCEEDED', message: 'Quota exceeded' },
+            }))
+          : undefined;
+    });
+    const tracker = startOperationTracker('Importing');
+
+    const { imported, failures } = await importItems(
+      [{ path: 'photos/a.jpg', file: makeFile('a.jpg', 'a') }],
+      '/in',
+      async () => 'replace',
+      tracker
+    );
+    tracker.finish();
+
+    expect(imported).toBe(0);
+    expect(failures.map((failure) => failure.path)).toEqual(['/in/photos/a.jpg']);
+    expect(requests.map((request) => request.command)).toEqual([
+      'fs.list',
+      'fs.batch',
+      'fs.delete',
+    ]);
+    expect(requests[2].params).toMatchObject({ recursive: true });
+  });
+
+  it('should stop when cancelled', async () => {
+    const tracker = startOperationTracker('Importing');
+
+    tracker.cancel();
+    await expect(
+      importItems(
+        [{ path: 'big.bin', file: makeFile('big.bin', new Uint8Array(RANGE_CHUNK_SIZE + 1)) }],
+        '/in',
+        async () => 'replace',
+        tracker
+      )
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+    tracker.finish();
+  });
+});
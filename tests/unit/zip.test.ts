@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { readZipDirectory, readZipEntry } from '../../src/panel/utils/zip';
+import { listArchiveFolder } from '../../src/panel/utils/archive';
+import { setInspectedTabId } from '../../src/panel/utils/rpc';
+import { panelPort, serveFile } from '../mocks/port';
+
+describe('ZIP reader', () => {
+  let archive: Uint8Array;
+
+  beforeEach(async () => {
+    setInspectedTabId(1);
+    panelPort.postMessage.mockReset();
+
+    const zip = new JSZip();
+    zip.file('readme.txt', 'hello '.repeat(1000), { compression: 'DEFLATE' });
+    zip.file('docs/guide/intro.md', '# Intro', { compression: 'STORE', createFolders: false });
+    zip.file('docs/empty/', null, { dir: true, createFolders: false });
+    archive = await zip.generateAsync({ type: 'uint8array' });
+  });
+
+  it('should read the central directory without transferring file contents', async () => {
+    const ranges = serveFile(archive);
+    const entries = await readZipDirectory('/a.zip');
+
+    expect(entries.map((entry) => [entry.path, entry.kind])).toEqual([
+      ['/readme.txt', 'file'],
+      ['/docs/guide/intro.md', 'file'],
+      ['/docs/empty', 'directory'],
+    ]);
+    expect(entries[0].size).toBe(6000);
+    expect(entries[0].compressedSize).toBeLessThan(6000);
+    // The tail with the end record, then the directory itself
+    expect(ranges).toHaveLength(2);
+  });
+
+  it('should inflate deflated entries and return stored ones as is', async () => {
+    serveFile(archive);
+    const entries = await readZipDirectory('/a.zip');
+    const decoder = new TextDecoder();
+
+    expect(decoder.decode(await readZipEntry('/a.zip', entries[0]))).toBe('hello '.repeat(1000));
+    expect(decoder.decode(await readZipEntry('/a.zip', entries[1]))).toBe('# Intro');
+  });
+
+  it('should derive folders that have no entry of their own', async () => {
+    serveFile(archive);
+    const entries = await readZipDirectory('/a.zip');
+
+    expect(listArchiveFolder(entries, '/').map((entry) => [entry.name, entry.kind])).toEqual([
+      ['docs', 'directory'],
+      ['readme.txt', 'file'],
+    ]);
+    expect(listArchiveFolder(entries, '/docs').map((entry) => entry.name)).toEqual([
+      'empty',
+      'guide',
+    ]);
+  });
+
+  it('should reject files without an end of central directory', async () => {
+    serveFile(new TextEncoder().encode('not a zip'));
+    await expect(readZipDirectory('/a.zip')).rejects.toThrow('Not a ZIP file');
+  });
+});
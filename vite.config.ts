@@ -1,9 +1,41 @@
-import { defineConfig } from 'vite';
+import { build, defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
 
+// The page-side handler must be a single self-contained file for
+// chrome.scripting.executeScript({ files }), so it gets its own IIFE build
+function injectedScript(): Plugin {
+  const entry = resolve(__dirname, 'src/injected/index.ts');
+
+  return {
+    name: 'opfs-finder:injected-script',
+    apply: 'build',
+    buildStart() {
+      this.addWatchFile(entry);
+    },
+    async closeBundle() {
+      await build({
+        configFile: false,
+        publicDir: false,
+        logLevel: 'warn',
+        build: {
+          outDir: 'dist',
+          emptyOutDir: false,
+          sourcemap: process.env.NODE_ENV === 'development',
+          lib: {
+            entry,
+            formats: ['iife'],
+            name: 'OPFSFinderInjected',
+            fileName: () => 'injected.js',
+          },
+        },
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), injectedScript()],
   base: '',
   resolve: {
     alias: {